@@ -0,0 +1,47 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+import winston from 'winston';
+import { SessionRegistry } from './session-registry.js';
+
+export interface AdminRouterOptions {
+  registry: SessionRegistry;
+  adminToken?: string;
+  logger: winston.Logger;
+}
+
+const tokensMatch = (given: string, expected: string): boolean => {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+/**
+ * Admin endpoints for operating the server. Disabled (404) unless an admin
+ * token is configured; requests must send it as Bearer token.
+ */
+export function createAdminRouter(options: AdminRouterOptions): Router {
+  const router = Router();
+  const { registry, adminToken, logger } = options;
+
+  const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+    if (!adminToken) {
+      res.status(404).json({ error: 'not_found' });
+      return;
+    }
+    const authHeader = req.headers.authorization;
+    if (!authHeader?.startsWith('Bearer ') || !tokensMatch(authHeader.substring(7), adminToken)) {
+      logger.warn('Rejected admin request with invalid token');
+      res.status(401).json({ error: 'unauthorized', error_description: 'Invalid admin token' });
+      return;
+    }
+    next();
+  };
+
+  // List active MCP sessions
+  router.get('/admin/sessions', requireAdmin, (req: Request, res: Response) => {
+    const sessions = registry.list();
+    res.json({ sessions, totalCount: sessions.length });
+  });
+
+  return router;
+}
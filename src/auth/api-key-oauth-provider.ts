@@ -1,7 +1,23 @@
 import { Request, Response } from 'express';
 import winston from 'winston';
-import { randomUUID } from 'crypto';
-import { TwentyCRMClient } from '../twenty-client.js';
+import { randomBytes, randomUUID, createHash, createHmac, createCipheriv, createDecipheriv, hkdfSync } from 'crypto';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { TwentyClientFactory } from '../twenty-client.js';
+import { KeyValueStore } from '../storage.js';
+
+// Credential of a request, resolved by the OAuth middleware; handlers create the Twenty client from it
+export interface AuthenticatedClientInfo {
+  apiKey: string;
+  twentyUrl: string;
+}
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    // Passed to tool handlers as extra.authInfo by the MCP transports
+    auth?: AuthInfo;
+    authenticatedClient?: AuthenticatedClientInfo;
+  }
+}
 
 // OAuth Provider interface following RFC standards
 export interface OAuthToken {
@@ -18,6 +34,8 @@ export interface TokenInfo {
   scopes: string[];
   expiresAt?: Date;
   twentyApiKey: string;
+  // Twenty REST API the API key belongs to
+  twentyUrl: string;
 }
 
 export interface ClientInfo {
@@ -50,20 +68,162 @@ export interface TokenParams {
   redirect_uri?: string;
   client_id?: string;
   refresh_token?: string;
+  // Twenty instance to bind the API key to (api_key grant, must be allowed)
+  twenty_url?: string;
 }
 
-// Token and client cache
-const tokenCache = new Map<string, TokenInfo>();
-const registeredClients = new Map<string, ClientInfo>();
-const authorizationCodes = new Map<string, { apiKey: string; clientId: string; expiresAt: Date; sessionId?: string }>();
-const sessionTokens = new Map<string, string>(); // Map session IDs to API keys
-const clientApiKeys = new Map<string, string>(); // Map client IDs to API keys
+// Token info as cached in the store: without the token, the API key encrypted (see sealCredential)
+type StoredTokenInfo = Omit<TokenInfo, 'token'>;
+
+interface AuthorizationCodeInfo {
+  // Encrypted (see sealCredential)
+  apiKey: string;
+  twentyUrl: string;
+  clientId: string;
+  expiresAt: Date;
+  sessionId?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AUTHORIZATION_CODE_TTL_MS = 10 * 60 * 1000;
+
+export interface ApiKeyOAuthProviderOptions {
+  // Default Twenty REST API for API keys not bound to another instance
+  twentyUrl: string;
+  // Further Twenty instances API keys may be bound to
+  allowedTwentyUrls?: string[];
+  // Creates the clients API keys are validated with
+  createClient: TwentyClientFactory;
+  // Keys the token hashes (HMAC) so a copy of the store cannot be matched against known tokens,
+  // and the encryption of the API keys in the store
+  sessionSecret?: string;
+}
+
+// Storage keys; tokens are hashed so raw credentials never appear as keys, and
+// API keys in stored values are encrypted
+const normalizeUrl = (url: string) => url.trim().replace(/\/+$/, '');
+
+const keys = {
+  token: (tokenHash: string) => `oauth:token:${tokenHash}`,
+  twentyUrl: (tokenHash: string) => `oauth:twenty-url:${tokenHash}`,
+  client: (clientId: string) => `oauth:client:${clientId}`,
+  code: (code: string) => `oauth:code:${code}`,
+  session: (sessionId: string) => `oauth:session:${sessionId}`,
+  clientApiKey: (clientId: string) => `oauth:client-api-key:${clientId}`
+};
 
 export class ApiKeyOAuthProvider {
   private logger: winston.Logger;
+  // Token cache, registered clients, authorization codes and session links
+  private store: KeyValueStore;
+  private options: ApiKeyOAuthProviderOptions;
+  private defaultTwentyUrl: string;
+  private allowedTwentyUrls: string[];
+  // Keys session owner hashes; without a session secret a random key of this process
+  private ownerSecret: string | Buffer;
+  // AES-256-GCM key of the stored API keys, derived from the same secret
+  private credentialKey: Buffer;
   
-  constructor(logger: winston.Logger) {
+  constructor(logger: winston.Logger, store: KeyValueStore, options: ApiKeyOAuthProviderOptions) {
     this.logger = logger;
+    this.store = store;
+    this.options = options;
+    this.defaultTwentyUrl = normalizeUrl(options.twentyUrl);
+    this.allowedTwentyUrls = [...new Set([this.defaultTwentyUrl, ...(options.allowedTwentyUrls || []).map(normalizeUrl)])];
+    this.ownerSecret = options.sessionSecret || randomBytes(32);
+    this.credentialKey = Buffer.from(hkdfSync('sha256', this.ownerSecret, '', 'twenty-mcp stored credentials', 32));
+  }
+
+  /**
+   * Encrypt an API key for the store, so a copy of the store holds no usable
+   * credentials. Without a session secret the key only lives in this process,
+   * so other instances cannot read the values (they behave as missing).
+   */
+  private sealCredential(apiKey: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.credentialKey, iv);
+    const sealed = Buffer.concat([cipher.update(apiKey, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), sealed].map(part => part.toString('base64url')).join('.');
+  }
+
+  // Decrypted API key, or undefined if the value was sealed with another key or tampered with
+  private openCredential(sealed: string | undefined): string | undefined {
+    const [iv, tag, data] = (sealed || '').split('.').map(part => Buffer.from(part, 'base64url'));
+    if (!iv || !tag || !data) return undefined;
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', this.credentialKey, iv);
+      decipher.setAuthTag(tag);
+      return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  private hashToken(token: string): string {
+    return this.options.sessionSecret
+      ? createHmac('sha256', this.options.sessionSecret).update(token).digest('hex')
+      : createHash('sha256').update(token).digest('hex');
+  }
+
+  private tokenKey(token: string): string {
+    return keys.token(this.hashToken(token));
+  }
+
+  /**
+   * Owner of the sessions opened with a token: a keyed hash of the Twenty
+   * credential and instance. Client ids and unverified JWT claims (e.g. the
+   * workspace id of Twenty API keys) are shared by different keys, so they
+   * cannot tell owners apart.
+   */
+  ownerKey(tokenInfo: TokenInfo): string {
+    return createHmac('sha256', this.ownerSecret)
+      .update(`${tokenInfo.twentyUrl}\n${tokenInfo.twentyApiKey}`)
+      .digest('hex');
+  }
+
+  /**
+   * Twenty instances a token can be bound to, the default first
+   */
+  get twentyUrls(): string[] {
+    return [...this.allowedTwentyUrls];
+  }
+
+  /**
+   * Check a requested Twenty instance against the allowlist (default if none requested)
+   */
+  resolveTwentyUrl(requested?: string): string {
+    if (!requested) {
+      return this.defaultTwentyUrl;
+    }
+    const url = normalizeUrl(requested);
+    if (!this.allowedTwentyUrls.includes(url)) {
+      throw new Error(`Twenty instance not allowed: ${url}`);
+    }
+    return url;
+  }
+
+  // Instance the token was bound to at grant time, otherwise the default
+  private async boundTwentyUrl(token: string): Promise<string> {
+    const bound = await this.store.get<string>(keys.twentyUrl(this.hashToken(token)));
+    return bound && this.allowedTwentyUrls.includes(bound) ? bound : this.defaultTwentyUrl;
+  }
+
+  // Bindings expire with the grant (expires_in), so revoked keys do not linger in the store
+  private async bindToken(token: string, twentyUrl: string, ttlMs: number): Promise<void> {
+    await this.store.set(keys.twentyUrl(this.hashToken(token)), twentyUrl, ttlMs);
+  }
+
+  // Cache token info until the token expires (Dates are stored as ISO strings),
+  // on grant also bind the token to its Twenty instance for the same time
+  private async cacheToken(tokenInfo: TokenInfo, bindInstance: boolean): Promise<void> {
+    const ttlMs = tokenInfo.expiresAt ? tokenInfo.expiresAt.getTime() - Date.now() : DAY_MS;
+    if (ttlMs <= 0) return;
+    const { token, ...info } = tokenInfo;
+    const stored: StoredTokenInfo = { ...info, twentyApiKey: this.sealCredential(info.twentyApiKey) };
+    await this.store.set(this.tokenKey(token), stored, ttlMs);
+    if (bindInstance) {
+      await this.bindToken(tokenInfo.token, tokenInfo.twentyUrl, ttlMs);
+    }
   }
 
   /**
@@ -83,7 +243,7 @@ export class ApiKeyOAuthProvider {
       scope: clientData.scope || 'read write'
     };
     
-    registeredClients.set(clientId, client);
+    await this.store.set(keys.client(clientId), client);
     this.logger.info(`Registered new OAuth client: ${clientId}`);
     
     return client;
@@ -94,7 +254,7 @@ export class ApiKeyOAuthProvider {
    */
   async getClient(clientId: string): Promise<ClientInfo | null> {
     // Check if it's already registered
-    const registered = registeredClients.get(clientId);
+    const registered = await this.store.get<ClientInfo>(keys.client(clientId));
     if (registered) {
       return registered;
     }
@@ -118,7 +278,7 @@ export class ApiKeyOAuthProvider {
       };
       
       // Store for this session
-      registeredClients.set(clientId, client);
+      await this.store.set(keys.client(clientId), client);
       this.logger.info(`Auto-registered known Claude client: ${clientId}`);
       
       return client;
@@ -128,9 +288,11 @@ export class ApiKeyOAuthProvider {
   }
 
   /**
-   * Validate an API key and return token info
+   * Validate an API key and return token info. Passing a Twenty instance (on
+   * grant) validates the key there and binds the token to it; later calls use
+   * the bound instance.
    */
-  async verifyAccessToken(token: string): Promise<TokenInfo> {
+  async verifyAccessToken(token: string, requestedTwentyUrl?: string): Promise<TokenInfo> {
     this.logger.debug(`Verifying access token`, { 
       tokenLength: token.length, 
       tokenStart: token.substring(0, 10),
@@ -138,10 +300,16 @@ export class ApiKeyOAuthProvider {
       tokenChars: token.split('').map(c => c.charCodeAt(0)).slice(0, 10)
     });
 
+    const twentyUrl = requestedTwentyUrl ? this.resolveTwentyUrl(requestedTwentyUrl) : await this.boundTwentyUrl(token);
+
     // Check cache first
-    const cached = tokenCache.get(token);
-    if (cached && (!cached.expiresAt || cached.expiresAt > new Date())) {
-      return cached;
+    const cached = await this.store.get<StoredTokenInfo>(this.tokenKey(token));
+    const cachedApiKey = this.openCredential(cached?.twentyApiKey);
+    if (cached && cachedApiKey && cached.twentyUrl === twentyUrl) {
+      const expiresAt = cached.expiresAt ? new Date(cached.expiresAt) : undefined;
+      if (!expiresAt || expiresAt > new Date()) {
+        return { ...cached, token, twentyApiKey: cachedApiKey, expiresAt };
+      }
     }
 
     // Handle JWT tokens differently
@@ -155,7 +323,7 @@ export class ApiKeyOAuthProvider {
         // If JWT contains an API key, use that
         if (payload.api_key || payload.apiKey || payload.twenty_api_key) {
           const apiKey = payload.api_key || payload.apiKey || payload.twenty_api_key;
-          const client = new TwentyCRMClient(apiKey, this.logger);
+          const client = this.options.createClient(apiKey, twentyUrl);
           await client.testConnection();
           
           const tokenInfo: TokenInfo = {
@@ -163,10 +331,11 @@ export class ApiKeyOAuthProvider {
             clientId: payload.client_id || `jwt-user-${token.substring(0, 8)}`,
             scopes: payload.scope ? payload.scope.split(' ') : ['read', 'write'],
             expiresAt: payload.exp ? new Date(payload.exp * 1000) : new Date(Date.now() + 24 * 60 * 60 * 1000),
-            twentyApiKey: apiKey
+            twentyApiKey: apiKey,
+            twentyUrl
           };
           
-          tokenCache.set(token, tokenInfo);
+          await this.cacheToken(tokenInfo, !!requestedTwentyUrl);
           return tokenInfo;
         }
         
@@ -180,10 +349,11 @@ export class ApiKeyOAuthProvider {
             clientId: payload.sub || `twenty-workspace-${payload.workspaceId}`,
             scopes: ['read', 'write'],
             expiresAt: payload.exp ? new Date(payload.exp * 1000) : new Date(Date.now() + 24 * 60 * 60 * 1000),
-            twentyApiKey: token // Keep JWT as identifier, but mark it as such
+            twentyApiKey: token, // Keep JWT as identifier, but mark it as such
+            twentyUrl
           };
           
-          tokenCache.set(token, tokenInfo);
+          await this.cacheToken(tokenInfo, !!requestedTwentyUrl);
           return tokenInfo;
         }
         
@@ -195,10 +365,11 @@ export class ApiKeyOAuthProvider {
           clientId: payload.client_id || payload.sub || `jwt-user-${token.substring(0, 8)}`,
           scopes: payload.scope ? payload.scope.split(' ') : ['read', 'write'],
           expiresAt: payload.exp ? new Date(payload.exp * 1000) : new Date(Date.now() + 24 * 60 * 60 * 1000),
-          twentyApiKey: token // Use JWT as API key (will likely fail but allows testing)
+          twentyApiKey: token, // Use JWT as API key (will likely fail but allows testing)
+          twentyUrl
         };
         
-        tokenCache.set(token, tokenInfo);
+        await this.cacheToken(tokenInfo, !!requestedTwentyUrl);
         return tokenInfo;
         
       } catch (jwtError) {
@@ -209,7 +380,7 @@ export class ApiKeyOAuthProvider {
 
     // Direct API key validation (existing logic)
     try {
-      const client = new TwentyCRMClient(token, this.logger);
+      const client = this.options.createClient(token, twentyUrl);
       await client.testConnection();
       
       // Create token info
@@ -218,11 +389,12 @@ export class ApiKeyOAuthProvider {
         clientId: `twenty-user-${token.substring(0, 8)}`,
         scopes: ['read', 'write'],
         expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
-        twentyApiKey: token
+        twentyApiKey: token,
+        twentyUrl
       };
       
       // Cache for performance
-      tokenCache.set(token, tokenInfo);
+      await this.cacheToken(tokenInfo, !!requestedTwentyUrl);
       
       return tokenInfo;
     } catch (error) {
@@ -250,7 +422,7 @@ export class ApiKeyOAuthProvider {
   async token(params: TokenParams): Promise<OAuthToken> {
     if (params.grant_type === 'api_key' && params.api_key) {
       // Custom grant type for direct API key exchange
-      const tokenInfo = await this.verifyAccessToken(params.api_key);
+      const tokenInfo = await this.verifyAccessToken(params.api_key, params.twenty_url);
       
       return {
         access_token: params.api_key,
@@ -262,21 +434,23 @@ export class ApiKeyOAuthProvider {
     
     if (params.grant_type === 'authorization_code' && params.code) {
       // Handle authorization code flow
-      const codeInfo = authorizationCodes.get(params.code);
+      const codeInfo = await this.store.get<AuthorizationCodeInfo>(keys.code(params.code));
+      const apiKey = this.openCredential(codeInfo?.apiKey);
       
-      if (!codeInfo || codeInfo.expiresAt < new Date()) {
+      if (!codeInfo || !apiKey || new Date(codeInfo.expiresAt) < new Date()) {
         throw new Error('Invalid or expired authorization code');
       }
       
-      authorizationCodes.delete(params.code);
+      await this.store.delete(keys.code(params.code));
+      await this.bindToken(apiKey, codeInfo.twentyUrl, DAY_MS);
       
       // Link session if available
       if (codeInfo.sessionId) {
-        this.linkSessionToApiKey(codeInfo.sessionId, codeInfo.apiKey);
+        await this.linkSessionToApiKey(codeInfo.sessionId, apiKey);
       }
       
       return {
-        access_token: codeInfo.apiKey,
+        access_token: apiKey,
         token_type: 'Bearer',
         expires_in: 86400,
         scope: 'read write'
@@ -289,48 +463,38 @@ export class ApiKeyOAuthProvider {
   /**
    * Store authorization code for later exchange
    */
-  storeAuthorizationCode(code: string, apiKey: string, clientId: string, sessionId?: string): void {
-    authorizationCodes.set(code, {
-      apiKey,
+  async storeAuthorizationCode(code: string, apiKey: string, twentyUrl: string, clientId: string, sessionId?: string): Promise<void> {
+    const codeInfo: AuthorizationCodeInfo = {
+      apiKey: this.sealCredential(apiKey),
+      twentyUrl,
       clientId,
-      expiresAt: new Date(Date.now() + 10 * 60 * 1000), // 10 minutes
+      expiresAt: new Date(Date.now() + AUTHORIZATION_CODE_TTL_MS),
       sessionId
-    });
+    };
+    await this.store.set(keys.code(code), codeInfo, AUTHORIZATION_CODE_TTL_MS);
   }
   
   /**
    * Link a session to an API key after successful OAuth
    */
-  linkSessionToApiKey(sessionId: string, apiKey: string): void {
-    sessionTokens.set(sessionId, apiKey);
+  async linkSessionToApiKey(sessionId: string, apiKey: string): Promise<void> {
+    await this.store.set(keys.session(sessionId), this.sealCredential(apiKey), DAY_MS);
     this.logger.info(`Linked session ${sessionId} to API key`);
   }
   
   /**
    * Link a client to an API key after successful OAuth
    */
-  linkClientToApiKey(clientId: string, apiKey: string): void {
-    clientApiKeys.set(clientId, apiKey);
+  async linkClientToApiKey(clientId: string, apiKey: string): Promise<void> {
+    await this.store.set(keys.clientApiKey(clientId), this.sealCredential(apiKey), DAY_MS);
     this.logger.info(`Linked client ${clientId} to API key`);
   }
   
   /**
    * Get API key for a session
    */
-  getApiKeyForSession(sessionId: string): string | undefined {
-    return sessionTokens.get(sessionId);
-  }
-
-  /**
-   * Clear expired tokens from cache
-   */
-  cleanupCache(): void {
-    const now = new Date();
-    for (const [token, info] of tokenCache.entries()) {
-      if (info.expiresAt && info.expiresAt < now) {
-        tokenCache.delete(token);
-      }
-    }
+  async getApiKeyForSession(sessionId: string): Promise<string | undefined> {
+    return this.openCredential(await this.store.get<string>(keys.session(sessionId)));
   }
 }
 
@@ -338,7 +502,7 @@ export class ApiKeyOAuthProvider {
  * Express middleware for OAuth token validation
  */
 export function createOAuthMiddleware(provider: ApiKeyOAuthProvider) {
-  return async (req: Request & { twentyApiKey?: string; userId?: string; authenticatedClient?: any }, res: Response, next: Function) => {
+  return async (req: Request, res: Response, next: Function) => {
     const authHeader = req.headers.authorization;
     
     console.debug(`OAuth middleware received headers`, {
@@ -359,13 +523,18 @@ export function createOAuthMiddleware(provider: ApiKeyOAuthProvider) {
     try {
       const tokenInfo = await provider.verifyAccessToken(token);
       
-      // Add to request - we already validated the client in verifyAccessToken
-      req.twentyApiKey = tokenInfo.twentyApiKey;
-      req.userId = tokenInfo.clientId;
-      
-      // Create TwentyCRMClient here to avoid circular dependency
-      // We'll pass the API key and let the handler create the client
-      req.authenticatedClient = { apiKey: tokenInfo.twentyApiKey };
+      // We already validated the client in verifyAccessToken; the handler creates
+      // the TwentyCRMClient from the API key to avoid a circular dependency
+      req.authenticatedClient = { apiKey: tokenInfo.twentyApiKey, twentyUrl: tokenInfo.twentyUrl };
+
+      // The MCP transports pass req.auth to tool handlers as extra.authInfo
+      req.auth = {
+        token,
+        clientId: tokenInfo.clientId,
+        scopes: tokenInfo.scopes,
+        expiresAt: tokenInfo.expiresAt ? Math.floor(tokenInfo.expiresAt.getTime() / 1000) : undefined,
+        extra: { twentyApiKey: tokenInfo.twentyApiKey, twentyUrl: tokenInfo.twentyUrl, ownerKey: provider.ownerKey(tokenInfo) }
+      };
       
       next();
     } catch (error) {
@@ -25,7 +25,9 @@ export function createApiKeyOAuthRouter(options: OAuthRouterOptions): Router {
       resource_signing_alg_values_supported: ['RS256', 'HS256'],
       scopes_supported: ['read', 'write'],
       // Custom extension for API key support
-      custom_grant_types_supported: ['api_key']
+      custom_grant_types_supported: ['api_key'],
+      // Custom extension: Twenty instances an API key can be bound to (twenty_url parameter)
+      twenty_urls_supported: provider.twentyUrls
     });
   });
 
@@ -176,6 +178,7 @@ export function createApiKeyOAuthRouter(options: OAuthRouterOptions): Router {
   // API Key input page (simple HTML form)
   router.get('/oauth/api-key-input', (req: Request, res: Response) => {
     const { client_id, redirect_uri, state, response_type, scope, code_challenge, code_challenge_method, session_id } = req.query;
+    const twentyUrls = provider.twentyUrls;
     
     res.send(`
       <!DOCTYPE html>
@@ -208,7 +211,7 @@ export function createApiKeyOAuthRouter(options: OAuthRouterOptions): Router {
             margin-bottom: 5px;
             color: #666;
           }
-          input[type="password"] {
+          input[type="password"], select {
             width: 100%;
             padding: 10px;
             border: 1px solid #ddd;
@@ -260,6 +263,13 @@ export function createApiKeyOAuthRouter(options: OAuthRouterOptions): Router {
             ${code_challenge ? `<input type="hidden" name="code_challenge" value="${code_challenge}">` : ''}
             ${code_challenge_method ? `<input type="hidden" name="code_challenge_method" value="${code_challenge_method}">` : ''}
             ${session_id ? `<input type="hidden" name="session_id" value="${session_id}">` : ''}
+            ${twentyUrls.length > 1 ? `
+            <div class="form-group">
+              <label for="twenty_url">Twenty Instance:</label>
+              <select id="twenty_url" name="twenty_url">
+                ${twentyUrls.map(url => `<option value="${url}">${url}</option>`).join('')}
+              </select>
+            </div>` : ''}
             <div class="form-group">
               <label for="api_key">API Key:</label>
               <input type="password" id="api_key" name="api_key" required 
@@ -275,7 +285,7 @@ export function createApiKeyOAuthRouter(options: OAuthRouterOptions): Router {
 
   // Handle API key submission
   router.post('/oauth/api-key-submit', express.urlencoded({ extended: true }), async (req: Request, res: Response) => {
-    const { api_key, client_id, redirect_uri, state, response_type, code_challenge, code_challenge_method, session_id } = req.body;
+    const { api_key, twenty_url, client_id, redirect_uri, state, response_type, code_challenge, code_challenge_method, session_id } = req.body;
     
     if (!api_key) {
       return res.status(400).json({
@@ -285,8 +295,8 @@ export function createApiKeyOAuthRouter(options: OAuthRouterOptions): Router {
     }
     
     try {
-      // Validate API key
-      await provider.verifyAccessToken(api_key);
+      // Validate API key against the chosen Twenty instance
+      const tokenInfo = await provider.verifyAccessToken(api_key, twenty_url);
       
       const redirectUrl = new URL(redirect_uri);
       let code = '';
@@ -294,11 +304,11 @@ export function createApiKeyOAuthRouter(options: OAuthRouterOptions): Router {
       if (response_type === 'code') {
         // Authorization code flow
         code = randomUUID();
-        provider.storeAuthorizationCode(code, api_key, client_id, session_id);
+        await provider.storeAuthorizationCode(code, api_key, tokenInfo.twentyUrl, client_id, session_id);
         
         // If we have a session ID, link it immediately
         if (session_id) {
-          provider.linkSessionToApiKey(session_id, api_key);
+          await provider.linkSessionToApiKey(session_id, api_key);
         }
         
         // Set a secure cookie with the session ID
@@ -312,7 +322,7 @@ export function createApiKeyOAuthRouter(options: OAuthRouterOptions): Router {
         
         // Also store the code->session mapping for token exchange
         if (code && cookieSessionId) {
-          provider.linkSessionToApiKey(cookieSessionId, api_key);
+          await provider.linkSessionToApiKey(cookieSessionId, api_key);
         }
         
         redirectUrl.searchParams.set('code', code);
@@ -488,7 +498,7 @@ Session ID: ${session_id || 'none'}
                        req.headers['x-mcp-session-id'] as string;
       
       if (sessionId && token.access_token) {
-        provider.linkSessionToApiKey(sessionId, token.access_token);
+        await provider.linkSessionToApiKey(sessionId, token.access_token);
         
         // Set/refresh cookie
         res.cookie('mcp_session', sessionId, {
@@ -510,7 +520,7 @@ Session ID: ${session_id || 'none'}
 
   // Direct API key exchange endpoint (custom extension)
   router.post('/oauth/api-key', express.json(), async (req: Request, res: Response) => {
-    const { api_key } = req.body;
+    const { api_key, twenty_url } = req.body;
     
     if (!api_key) {
       return res.status(400).json({
@@ -522,7 +532,8 @@ Session ID: ${session_id || 'none'}
     try {
       const token = await provider.token({
         grant_type: 'api_key',
-        api_key
+        api_key,
+        twenty_url
       });
       res.json(token);
     } catch (error) {
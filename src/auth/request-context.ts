@@ -0,0 +1,49 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { TwentyCRMClient } from '../twenty-client.js';
+
+/**
+ * Authentication context of a single MCP request. It is bound for the whole
+ * async call chain of the request, so tool handlers of concurrent requests
+ * from different users never see each other's client.
+ */
+export interface RequestAuthContext {
+  sessionId: string;
+  authInfo: AuthInfo;
+  client: TwentyCRMClient;
+}
+
+const requestContextStorage = new AsyncLocalStorage<RequestAuthContext>();
+
+/**
+ * Run `fn` with the given authentication context bound to the async call chain
+ */
+export function runWithRequestContext<T>(context: RequestAuthContext, fn: () => T): T {
+  return requestContextStorage.run(context, fn);
+}
+
+/**
+ * Authentication context of the current request, undefined outside of a request
+ */
+export function getRequestContext(): RequestAuthContext | undefined {
+  return requestContextStorage.getStore();
+}
+
+/**
+ * Session owner of a validated token (set by the OAuth middleware), see
+ * ApiKeyOAuthProvider.ownerKey
+ */
+export const ownerKeyOf = (authInfo?: AuthInfo): string | undefined =>
+  typeof authInfo?.extra?.ownerKey === 'string' ? authInfo.extra.ownerKey : undefined;
+
+/**
+ * What a tool handler knows about its caller: the transport's MCP session id
+ * and the validated token, both taken from the handler's `extra` argument
+ */
+export interface ClientContext {
+  sessionId?: string;
+  authInfo?: AuthInfo;
+}
+
+// Resolves the Twenty client of the calling session (tool handlers pass `extra`)
+export type GetClient = (context?: ClientContext) => TwentyCRMClient;
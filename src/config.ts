@@ -0,0 +1,236 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import YAML from 'yaml';
+import { z } from 'zod';
+
+export const TRANSPORTS = ['stdio', 'http', 'sse', 'streamable-http', 'streamable-http-stateless'] as const;
+
+// `http` serves Streamable HTTP and legacy SSE together, the others are presets of it
+export type TransportType = typeof TRANSPORTS[number];
+
+export const DEFAULT_TWENTY_URL = 'https://crm.tools.ole.de/rest';
+
+const configSchema = z.object({
+  transport: z.enum(TRANSPORTS).default('stdio'),
+  nodeEnv: z.enum(['development', 'production', 'test']).default('development'),
+  logLevel: z.enum(['error', 'warn', 'info', 'http', 'verbose', 'debug', 'silly']).default('info'),
+  port: z.coerce.number().int().min(1).max(65535).default(3000),
+  // Public URL of this server for OAuth metadata and callbacks (default: http://localhost:<port>)
+  baseUrl: z.string().url().optional(),
+  // Key for hashing OAuth tokens in the shared store
+  sessionSecret: z.string().min(32, 'must be at least 32 characters').optional(),
+  twenty: z.object({
+    url: z.string().url().default(DEFAULT_TWENTY_URL),
+    // Further instances (e.g. staging, partner workspaces) users may bind their API key to
+    allowedUrls: z.preprocess(
+      value => typeof value === 'string' ? value.split(',').map(url => url.trim()).filter(Boolean) : value,
+      z.array(z.string().url())
+    ).default([]),
+    // Pre-authenticates the stdio transport
+    apiKey: z.string().optional(),
+    // Workspace member "me" refers to for apiKey; API keys do not belong to a member
+    workspaceMemberId: z.string().uuid().optional(),
+    timeoutMs: z.coerce.number().int().positive().default(30000),
+    retry: z.object({
+      maxRetries: z.coerce.number().int().min(0).default(3),
+      baseDelayMs: z.coerce.number().int().positive().default(250),
+      maxDelayMs: z.coerce.number().int().positive().default(8000),
+      maxRetryAfterSeconds: z.coerce.number().positive().default(30)
+    }).default({}),
+    // Per API key, shared by all sessions; 0 disables the limiter
+    rateLimit: z.object({
+      requestsPerMinute: z.coerce.number().min(0).default(100),
+      burst: z.coerce.number().int().positive().default(20)
+    }).default({}),
+    circuitBreaker: z.object({
+      failureThreshold: z.coerce.number().int().positive().default(5),
+      resetSeconds: z.coerce.number().positive().default(30)
+    }).default({}),
+    // Read-through cache per API key; a TTL of 0 disables it
+    cache: z.object({
+      ttlSeconds: z.coerce.number().min(0).default(30),
+      maxEntries: z.coerce.number().int().positive().default(500)
+    }).default({})
+  }).default({}),
+  postgres: z.object({
+    connectionString: z.string().optional()
+  }).default({}),
+  mailersend: z.object({
+    apiKey: z.string().optional()
+  }).default({}),
+  admin: z.object({
+    token: z.string().min(16, 'must be at least 16 characters').optional()
+  }).default({}),
+  sessions: z.object({
+    idleTimeoutMinutes: z.coerce.number().positive().default(30),
+    maxLifetimeHours: z.coerce.number().positive().default(24),
+    maxSessionsPerUser: z.coerce.number().int().positive().default(10)
+  }).default({}),
+  eventStore: z.object({
+    type: z.enum(['memory', 'file', 'none']).default('memory'),
+    dir: z.string().default('.mcp-events'),
+    maxAgeMinutes: z.coerce.number().positive().default(60)
+  }).default({}),
+  redis: z.object({
+    url: z.string().url().optional(),
+    keyPrefix: z.string().default('twenty-mcp:')
+  }).default({})
+});
+
+export type AppConfig = z.infer<typeof configSchema>;
+
+// Environment variable of each config path; environment values override the config file
+const ENV_VARIABLES: Record<string, string> = {
+  'transport': 'MCP_TRANSPORT',
+  'nodeEnv': 'NODE_ENV',
+  'logLevel': 'LOG_LEVEL',
+  'port': 'PORT',
+  'baseUrl': 'BASE_URL',
+  'sessionSecret': 'SESSION_SECRET',
+  'twenty.url': 'TWENTY_CRM_URL',
+  'twenty.allowedUrls': 'TWENTY_ALLOWED_URLS',
+  'twenty.apiKey': 'TWENTY_API_KEY',
+  'twenty.workspaceMemberId': 'TWENTY_WORKSPACE_MEMBER_ID',
+  'twenty.timeoutMs': 'TWENTY_TIMEOUT_MS',
+  'twenty.retry.maxRetries': 'TWENTY_MAX_RETRIES',
+  'twenty.retry.baseDelayMs': 'TWENTY_RETRY_BASE_DELAY_MS',
+  'twenty.retry.maxDelayMs': 'TWENTY_RETRY_MAX_DELAY_MS',
+  'twenty.retry.maxRetryAfterSeconds': 'TWENTY_MAX_RETRY_AFTER_SECONDS',
+  'twenty.rateLimit.requestsPerMinute': 'TWENTY_RATE_LIMIT_PER_MINUTE',
+  'twenty.rateLimit.burst': 'TWENTY_RATE_LIMIT_BURST',
+  'twenty.circuitBreaker.failureThreshold': 'TWENTY_CIRCUIT_BREAKER_THRESHOLD',
+  'twenty.circuitBreaker.resetSeconds': 'TWENTY_CIRCUIT_BREAKER_RESET_SECONDS',
+  'twenty.cache.ttlSeconds': 'TWENTY_CACHE_TTL_SECONDS',
+  'twenty.cache.maxEntries': 'TWENTY_CACHE_MAX_ENTRIES',
+  'postgres.connectionString': 'POSTGRES_CONNECTION_STRING',
+  'mailersend.apiKey': 'MAILERSEND_API_KEY',
+  'admin.token': 'ADMIN_TOKEN',
+  'sessions.idleTimeoutMinutes': 'SESSION_IDLE_TIMEOUT_MINUTES',
+  'sessions.maxLifetimeHours': 'SESSION_MAX_LIFETIME_HOURS',
+  'sessions.maxSessionsPerUser': 'MAX_SESSIONS_PER_USER',
+  'eventStore.type': 'EVENT_STORE',
+  'eventStore.dir': 'EVENT_STORE_DIR',
+  'eventStore.maxAgeMinutes': 'EVENT_STORE_MAX_AGE_MINUTES',
+  'redis.url': 'REDIS_URL',
+  'redis.keyPrefix': 'REDIS_KEY_PREFIX'
+};
+
+const SECRET_PATHS = ['sessionSecret', 'twenty.apiKey', 'mailersend.apiKey', 'admin.token'];
+// Connection URLs may carry credentials in their user info
+const CONNECTION_URL_PATHS = ['postgres.connectionString', 'redis.url'];
+
+export class ConfigError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid configuration:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ConfigError';
+    this.issues = issues;
+  }
+}
+
+export interface LoadConfigOptions {
+  env?: NodeJS.ProcessEnv;
+  // Transport from the command line, takes precedence over MCP_TRANSPORT and the config file
+  transport?: string;
+}
+
+const setPath = (target: Record<string, any>, keyPath: string, value: unknown) => {
+  const parts = keyPath.split('.');
+  let node = target;
+  for (const part of parts.slice(0, -1)) {
+    node[part] = typeof node[part] === 'object' && node[part] !== null ? node[part] : {};
+    node = node[part];
+  }
+  node[parts[parts.length - 1]] = value;
+};
+
+const getPath = (source: Record<string, any>, keyPath: string): any =>
+  keyPath.split('.').reduce((node, part) => node?.[part], source);
+
+const readConfigFile = (file: string): Record<string, any> => {
+  const resolved = path.resolve(file);
+  let content: string;
+  try {
+    content = readFileSync(resolved, 'utf8');
+  } catch (error) {
+    throw new ConfigError([`CONFIG_FILE: cannot read ${resolved} (${error instanceof Error ? error.message : 'unknown error'})`]);
+  }
+
+  const extension = path.extname(resolved).toLowerCase();
+  try {
+    const parsed = extension === '.json' ? JSON.parse(content)
+      : extension === '.yaml' || extension === '.yml' ? YAML.parse(content)
+      : undefined;
+    if (parsed === undefined) {
+      throw new Error('expected a .json, .yaml or .yml file');
+    }
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error('expected an object at the top level');
+    }
+    return parsed;
+  } catch (error) {
+    throw new ConfigError([`CONFIG_FILE: ${resolved} is invalid (${error instanceof Error ? error.message : 'unknown error'})`]);
+  }
+};
+
+/**
+ * Load the configuration from the environment (including .env.local and .env)
+ * and the optional config file in CONFIG_FILE. Throws a ConfigError listing
+ * every invalid setting.
+ */
+export function loadConfig(options: LoadConfigOptions = {}): AppConfig {
+  if (!options.env) {
+    dotenv.config({ path: '.env.local' });
+    dotenv.config();
+  }
+  const env = options.env ?? process.env;
+
+  const raw = env.CONFIG_FILE ? readConfigFile(env.CONFIG_FILE) : {};
+  for (const [keyPath, variable] of Object.entries(ENV_VARIABLES)) {
+    // Empty values (e.g. `REDIS_URL=` in .env) count as unset
+    if (env[variable]) {
+      setPath(raw, keyPath, env[variable]);
+    }
+  }
+  if (options.transport) {
+    raw.transport = options.transport;
+  }
+
+  const result = configSchema.safeParse(raw);
+  if (!result.success) {
+    throw new ConfigError(result.error.issues.map(issue => {
+      const keyPath = issue.path.join('.');
+      const variable = ENV_VARIABLES[keyPath];
+      return `${keyPath || '(root)'}${variable ? ` (${variable})` : ''}: ${issue.message}`;
+    }));
+  }
+  return result.data;
+}
+
+/**
+ * Copy of the configuration that is safe to log: secrets are masked and
+ * passwords removed from connection URLs
+ */
+export function redactConfig(config: AppConfig): Record<string, unknown> {
+  const redacted = JSON.parse(JSON.stringify(config));
+  for (const keyPath of SECRET_PATHS) {
+    if (getPath(redacted, keyPath)) {
+      setPath(redacted, keyPath, '***');
+    }
+  }
+  for (const keyPath of CONNECTION_URL_PATHS) {
+    const value = getPath(redacted, keyPath);
+    if (!value) continue;
+    try {
+      const url = new URL(value);
+      if (url.password) url.password = '***';
+      setPath(redacted, keyPath, url.toString());
+    } catch {
+      // Not a URL (e.g. a key=value connection string), so it cannot be redacted selectively
+      setPath(redacted, keyPath, '***');
+    }
+  }
+  return redacted;
+}
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import winston from 'winston';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { FileEventStore, InMemoryEventStore, SessionEventStore, isSessionEventId } from './event-store.js';
+
+const logger = winston.createLogger({ silent: true });
+
+const notification = (data: string): JSONRPCMessage =>
+  ({ jsonrpc: '2.0', method: 'notifications/message', params: { level: 'info', data } });
+
+const dataOf = (message: JSONRPCMessage) => 'params' in message ? message.params?.data : undefined;
+
+// Replays into a list of [eventId, data]
+const replay = async (store: { replayEventsAfter: InMemoryEventStore['replayEventsAfter'] }, lastEventId: string) => {
+  const sent: Array<[string, unknown]> = [];
+  const streamId = await store.replayEventsAfter(lastEventId, {
+    send: async (eventId, message) => { sent.push([eventId, dataOf(message)]); }
+  });
+  return { streamId, data: sent.map(([, data]) => data), eventIds: sent.map(([eventId]) => eventId) };
+};
+
+describe('InMemoryEventStore', () => {
+  it('replays the events of a stream after the last event id', async () => {
+    const store = new InMemoryEventStore();
+    const first = await store.storeEvent('stream-1', notification('a'));
+    await store.storeEvent('stream-2', notification('other stream'));
+    await store.storeEvent('stream-1', notification('b'));
+    await store.storeEvent('stream-1', notification('c'));
+
+    expect(await replay(store, first)).toMatchObject({ streamId: 'stream-1', data: ['b', 'c'] });
+  });
+
+  it('drops events beyond the per-stream limit', async () => {
+    const store = new InMemoryEventStore({ maxEventsPerStream: 2 });
+    const first = await store.storeEvent('stream', notification('a'));
+    await store.storeEvent('stream', notification('b'));
+    await store.storeEvent('stream', notification('c'));
+
+    expect((await replay(store, first)).data).toEqual(['b', 'c']);
+  });
+});
+
+describe('SessionEventStore', () => {
+  it('keeps the standalone streams of sessions apart', async () => {
+    const shared = new InMemoryEventStore();
+    const alice = new SessionEventStore(shared, 'session-alice');
+    const bob = new SessionEventStore(shared, 'session-bob');
+
+    const aliceFirst = await alice.storeEvent('_GET_stream', notification('alice-1'));
+    await bob.storeEvent('_GET_stream', notification('bob-1'));
+    await alice.storeEvent('_GET_stream', notification('alice-2'));
+    const bobFirst = await bob.storeEvent('_GET_stream', notification('bob-2'));
+
+    expect(await replay(alice, aliceFirst)).toMatchObject({ streamId: '_GET_stream', data: ['alice-2'] });
+    expect(isSessionEventId(aliceFirst, 'session-alice')).toBe(true);
+    expect(isSessionEventId(aliceFirst, 'session-bob')).toBe(false);
+
+    // Event ids of another session replay nothing
+    expect(await replay(bob, aliceFirst)).toEqual({ streamId: '', data: [], eventIds: [] });
+    expect(await replay(alice, bobFirst)).toEqual({ streamId: '', data: [], eventIds: [] });
+    expect(await replay(bob, '_GET_stream::0-0')).toEqual({ streamId: '', data: [], eventIds: [] });
+  });
+});
+
+describe('FileEventStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'event-store-'));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const eventLines = async () => {
+    const [file] = (await fs.readdir(directory)).filter(name => name.endsWith('.jsonl'));
+    return (await fs.readFile(path.join(directory, file), 'utf8')).split('\n').filter(Boolean).length;
+  };
+
+  it('replays events written by another instance', async () => {
+    const first = await new FileEventStore(directory, logger).storeEvent('stream', notification('a'));
+    const writer = new FileEventStore(directory, logger);
+    await writer.storeEvent('stream', notification('b'));
+    await writer.storeEvent('stream', notification('c'));
+
+    expect(await replay(new FileEventStore(directory, logger), first)).toMatchObject({ streamId: 'stream', data: ['b', 'c'] });
+  });
+
+  it('trims stream files to the event limit while writing', async () => {
+    const store = new FileEventStore(directory, logger, { maxEventsPerStream: 10 });
+    const first = await store.storeEvent('stream', notification('0'));
+    for (let index = 1; index < 50; index++) {
+      await store.storeEvent('stream', notification(String(index)));
+    }
+
+    expect(await eventLines()).toBeLessThanOrEqual(11);
+    const { data } = await replay(store, first);
+    expect(data).toEqual(Array.from({ length: 10 }, (_, index) => String(40 + index)));
+  });
+
+  it('trims the file of a stream that existed before a restart', async () => {
+    const before = new FileEventStore(directory, logger, { maxEventsPerStream: 5 });
+    for (let index = 0; index < 5; index++) {
+      await before.storeEvent('stream', notification(String(index)));
+    }
+    const after = new FileEventStore(directory, logger, { maxEventsPerStream: 5 });
+    for (let index = 5; index < 12; index++) {
+      await after.storeEvent('stream', notification(String(index)));
+    }
+
+    expect(await eventLines()).toBeLessThanOrEqual(6);
+  });
+
+  it('neither replays nor keeps events older than the retention window', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const store = new FileEventStore(directory, logger, { maxAgeMs: 60 * 1000, maxEventsPerStream: 2 });
+    const first = await store.storeEvent('stream', notification('old-1'));
+    await store.storeEvent('stream', notification('old-2'));
+
+    vi.setSystemTime(Date.now() + 2 * 60 * 1000);
+    await store.storeEvent('stream', notification('new-1'));
+    expect((await replay(store, first)).data).toEqual(['new-1']);
+
+    // The third event exceeds the limit, the rewrite drops the expired events
+    expect(await eventLines()).toBe(1);
+  });
+});
@@ -0,0 +1,288 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import winston from 'winston';
+import { EventStore } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { AppConfig } from './config.js';
+
+export interface EventStoreOptions {
+  // Events older than this are dropped and can no longer be replayed
+  maxAgeMs?: number;
+  // Oldest events of a stream are dropped beyond this count
+  maxEventsPerStream?: number;
+}
+
+interface StoredEvent {
+  eventId: string;
+  message: JSONRPCMessage;
+  storedAt: number;
+}
+
+const DEFAULT_MAX_AGE_MS = 60 * 60 * 1000;
+const DEFAULT_MAX_EVENTS_PER_STREAM = 1000;
+const PRUNE_INTERVAL_MS = 5 * 60 * 1000;
+
+// Stream files are rewritten once they hold this share of maxEventsPerStream more events
+const FILE_TRIM_SLACK = 0.1;
+
+// Stream ids may contain "_" (e.g. the SDK's "_GET_stream"), so a distinct separator is used
+const EVENT_ID_SEPARATOR = '::';
+
+let eventCounter = 0;
+
+const createEventId = (streamId: string) =>
+  `${streamId}${EVENT_ID_SEPARATOR}${Date.now().toString(36)}-${(eventCounter++).toString(36)}`;
+
+const streamIdOf = (eventId: string): string | undefined => {
+  const index = eventId.lastIndexOf(EVENT_ID_SEPARATOR);
+  return index > 0 ? eventId.substring(0, index) : undefined;
+};
+
+const sessionPrefix = (sessionId: string) => `${sessionId}/`;
+
+/**
+ * Whether an event id was issued for a stream of the given session (see SessionEventStore)
+ */
+export const isSessionEventId = (eventId: string, sessionId: string): boolean =>
+  streamIdOf(eventId)?.startsWith(sessionPrefix(sessionId)) ?? false;
+
+/**
+ * View of a shared event store for a single session. The SDK names the
+ * standalone GET stream of every session "_GET_stream", so stream ids are
+ * prefixed with the session id; replay only serves the session's own events.
+ */
+export class SessionEventStore implements EventStore {
+  private store: EventStore;
+  private sessionId: string;
+
+  constructor(store: EventStore, sessionId: string) {
+    this.store = store;
+    this.sessionId = sessionId;
+  }
+
+  async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+    return this.store.storeEvent(sessionPrefix(this.sessionId) + streamId, message);
+  }
+
+  async replayEventsAfter(
+    lastEventId: string,
+    handlers: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<string> {
+    if (!isSessionEventId(lastEventId, this.sessionId)) return '';
+    const streamId = await this.store.replayEventsAfter(lastEventId, handlers);
+    const prefix = sessionPrefix(this.sessionId);
+    return streamId.startsWith(prefix) ? streamId.substring(prefix.length) : '';
+  }
+}
+
+/**
+ * Event store keeping events in process memory. Replay works across
+ * reconnects but not across server restarts or multiple instances.
+ */
+export class InMemoryEventStore implements EventStore {
+  private streams = new Map<string, StoredEvent[]>();
+  private maxAgeMs: number;
+  private maxEventsPerStream: number;
+
+  constructor(options: EventStoreOptions = {}) {
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+    this.maxEventsPerStream = options.maxEventsPerStream ?? DEFAULT_MAX_EVENTS_PER_STREAM;
+    setInterval(() => this.prune(), PRUNE_INTERVAL_MS).unref();
+  }
+
+  async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+    const eventId = createEventId(streamId);
+    const events = this.streams.get(streamId) ?? [];
+    events.push({ eventId, message, storedAt: Date.now() });
+    if (events.length > this.maxEventsPerStream) {
+      events.splice(0, events.length - this.maxEventsPerStream);
+    }
+    this.streams.set(streamId, events);
+    return eventId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: string,
+    { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<string> {
+    const streamId = streamIdOf(lastEventId);
+    const events = streamId ? this.streams.get(streamId) : undefined;
+    if (!streamId || !events) return '';
+
+    const index = events.findIndex(event => event.eventId === lastEventId);
+    for (const event of events.slice(index + 1)) {
+      await send(event.eventId, event.message);
+    }
+    return streamId;
+  }
+
+  /**
+   * Drop events older than maxAgeMs
+   */
+  prune(now: number = Date.now()): void {
+    for (const [streamId, events] of this.streams) {
+      const remaining = events.filter(event => now - event.storedAt <= this.maxAgeMs);
+      if (remaining.length > 0) this.streams.set(streamId, remaining);
+      else this.streams.delete(streamId);
+    }
+  }
+}
+
+/**
+ * Event store appending events to one JSON-lines file per stream, so that
+ * replay survives server restarts and works for instances sharing a volume.
+ */
+export class FileEventStore implements EventStore {
+  private directory: string;
+  private maxAgeMs: number;
+  private maxEventsPerStream: number;
+  private logger: winston.Logger;
+  private ready: Promise<void>;
+  // Appends are serialized per stream to keep the file order equal to the event order
+  private writeQueues = new Map<string, Promise<void>>();
+  // Events per stream file, counted once on the first write after start
+  private eventCounts = new Map<string, number>();
+
+  constructor(directory: string, logger: winston.Logger, options: EventStoreOptions = {}) {
+    this.directory = directory;
+    this.logger = logger;
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+    this.maxEventsPerStream = options.maxEventsPerStream ?? DEFAULT_MAX_EVENTS_PER_STREAM;
+    this.ready = fs.mkdir(directory, { recursive: true }).then(() => undefined);
+    setInterval(() => {
+      this.prune().catch(error => this.logger.error('Failed to prune event store:', error));
+    }, PRUNE_INTERVAL_MS).unref();
+  }
+
+  private fileOf(streamId: string): string {
+    return path.join(this.directory, `${Buffer.from(streamId).toString('base64url')}.jsonl`);
+  }
+
+  private streamIdOfFile(file: string): string {
+    return Buffer.from(path.basename(file, '.jsonl'), 'base64url').toString();
+  }
+
+  private isRetained(event: StoredEvent, now: number): boolean {
+    return now - event.storedAt <= this.maxAgeMs;
+  }
+
+  /**
+   * Append an event and rewrite the stream file to the retention window
+   * (maxAgeMs, maxEventsPerStream) once it grew past it, so files stay bounded
+   */
+  private async appendEvent(streamId: string, line: string): Promise<void> {
+    const file = this.fileOf(streamId);
+    await fs.appendFile(file, line, 'utf8');
+
+    // The first write after a start counts the file, which already holds this event
+    const known = this.eventCounts.get(streamId);
+    const count = known !== undefined ? known + 1 : (await this.readStream(streamId))?.length ?? 0;
+    this.eventCounts.set(streamId, count);
+    if (count <= this.maxEventsPerStream * (1 + FILE_TRIM_SLACK)) return;
+
+    const now = Date.now();
+    const retained = ((await this.readStream(streamId)) ?? [])
+      .filter(event => this.isRetained(event, now))
+      .slice(-this.maxEventsPerStream);
+    const temporary = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, retained.map(event => JSON.stringify(event) + '\n').join(''), 'utf8');
+    await fs.rename(temporary, file);
+    this.eventCounts.set(streamId, retained.length);
+  }
+
+  async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+    await this.ready;
+    const eventId = createEventId(streamId);
+    const line = JSON.stringify({ eventId, message, storedAt: Date.now() } satisfies StoredEvent) + '\n';
+
+    const previous = this.writeQueues.get(streamId) ?? Promise.resolve();
+    const write = previous.then(() => this.appendEvent(streamId, line));
+    this.writeQueues.set(streamId, write.catch(() => undefined));
+    await write;
+
+    return eventId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: string,
+    { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<string> {
+    const streamId = streamIdOf(lastEventId);
+    if (!streamId) return '';
+
+    await this.writeQueues.get(streamId);
+    const events = await this.readStream(streamId);
+    if (!events) return '';
+
+    const now = Date.now();
+    const index = events.findIndex(event => event.eventId === lastEventId);
+    const missed = events.slice(index + 1).filter(event => this.isRetained(event, now));
+    for (const event of missed.slice(-this.maxEventsPerStream)) {
+      await send(event.eventId, event.message);
+    }
+    return streamId;
+  }
+
+  private async readStream(streamId: string): Promise<StoredEvent[] | undefined> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.fileOf(streamId), 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return undefined;
+      throw error;
+    }
+
+    const events: StoredEvent[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        events.push(JSON.parse(line));
+      } catch {
+        // A partially written last line (crash during append) is skipped
+        this.logger.warn(`Skipping corrupt event in stream ${streamId}`);
+      }
+    }
+    return events;
+  }
+
+  /**
+   * Delete stream files that were not written to within maxAgeMs
+   */
+  async prune(now: number = Date.now()): Promise<void> {
+    await this.ready;
+    for (const file of await fs.readdir(this.directory)) {
+      if (!file.endsWith('.jsonl')) continue;
+      const filePath = path.join(this.directory, file);
+      const stats = await fs.stat(filePath);
+      if (now - stats.mtimeMs > this.maxAgeMs) {
+        await fs.unlink(filePath);
+        const streamId = this.streamIdOfFile(file);
+        this.eventCounts.delete(streamId);
+        this.writeQueues.delete(streamId);
+      }
+    }
+  }
+}
+
+/**
+ * Create the configured event store (memory, file or none)
+ */
+export function createEventStore(config: AppConfig['eventStore'], logger: winston.Logger): EventStore | undefined {
+  const options: EventStoreOptions = {
+    maxAgeMs: config.maxAgeMinutes * 60 * 1000
+  };
+
+  switch (config.type) {
+    case 'memory':
+      logger.info('Using in-memory event store for resumable streams');
+      return new InMemoryEventStore(options);
+    case 'file': {
+      const directory = path.resolve(config.dir);
+      logger.info(`Using file event store for resumable streams in ${directory}`);
+      return new FileEventStore(directory, logger, options);
+    }
+    case 'none':
+      logger.info('Resumable streams disabled (no event store)');
+      return undefined;
+  }
+}
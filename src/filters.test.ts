@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { fromFilterObject, resolveFilter, serializeFilter, toTwentyFilter } from './filters.js';
+
+describe('toTwentyFilter', () => {
+  it('formats a condition as field[operator]:value', () => {
+    expect(toTwentyFilter({ field: 'status', operator: 'eq', value: 'KUNDE' })).toBe('status[eq]:KUNDE');
+    expect(toTwentyFilter({ field: 'employees', operator: 'gte', value: 50 })).toBe('employees[gte]:50');
+    expect(toTwentyFilter({ field: 'idealCustomerProfile', operator: 'eq', value: true })).toBe('idealCustomerProfile[eq]:true');
+  });
+
+  it('keeps dotted paths of composite fields', () => {
+    expect(toTwentyFilter({ field: 'name.lastName', operator: 'ilike', value: '%müller%' })).toBe('name.lastName[ilike]:%müller%');
+  });
+
+  it('formats nested and/or/not groups', () => {
+    expect(toTwentyFilter({
+      and: [
+        { field: 'status', operator: 'neq', value: 'DONE' },
+        {
+          or: [
+            { field: 'city', operator: 'eq', value: 'Berlin' },
+            { not: { field: 'city', operator: 'eq', value: 'Hamburg' } }
+          ]
+        }
+      ]
+    })).toBe('and(status[neq]:DONE,or(city[eq]:Berlin,not(city[eq]:Hamburg)))');
+  });
+
+  it('quotes values containing commas, parentheses, brackets, colons or quotes', () => {
+    expect(toTwentyFilter({ field: 'name', operator: 'eq', value: 'Müller, Meier & Co' })).toBe('name[eq]:"Müller, Meier & Co"');
+    expect(toTwentyFilter({ field: 'name', operator: 'eq', value: 'Acme (Europe)' })).toBe('name[eq]:"Acme (Europe)"');
+    expect(toTwentyFilter({ field: 'name', operator: 'eq', value: 'Time: 10' })).toBe('name[eq]:"Time: 10"');
+    expect(toTwentyFilter({ field: 'name', operator: 'eq', value: 'The "Best" GmbH' })).toBe('name[eq]:"The \\"Best\\" GmbH"');
+    expect(toTwentyFilter({ field: 'name', operator: 'eq', value: '' })).toBe('name[eq]:""');
+  });
+
+  it('formats lists for "in" and quotes list items when needed', () => {
+    expect(toTwentyFilter({ field: 'status', operator: 'in', value: ['TODO', 'IN_PROGRESS'] })).toBe('status[in]:[TODO,IN_PROGRESS]');
+    expect(toTwentyFilter({ field: 'name', operator: 'in', value: ['A, B', 'C'] })).toBe('name[in]:["A, B",C]');
+  });
+
+  it('keeps NULL and NOT_NULL of "is" unquoted', () => {
+    expect(toTwentyFilter({ field: 'companyId', operator: 'is', value: 'NULL' })).toBe('companyId[is]:NULL');
+    expect(toTwentyFilter({ field: 'dueAt', operator: 'is', value: 'NOT_NULL' })).toBe('dueAt[is]:NOT_NULL');
+  });
+});
+
+describe('serializeFilter', () => {
+  it('joins top-level AND conditions with commas', () => {
+    expect(serializeFilter({
+      and: [
+        { field: 'status', operator: 'eq', value: 'KUNDE' },
+        { or: [{ field: 'city', operator: 'eq', value: 'Berlin' }, { field: 'city', operator: 'eq', value: 'Bonn' }] }
+      ]
+    })).toBe('status[eq]:KUNDE,or(city[eq]:Berlin,city[eq]:Bonn)');
+  });
+
+  it('serializes a single condition without a group', () => {
+    expect(serializeFilter({ field: 'companyId', operator: 'is', value: 'NULL' })).toBe('companyId[is]:NULL');
+  });
+});
+
+describe('fromFilterObject', () => {
+  it('converts nested field objects and multiple keys into an AND group', () => {
+    expect(fromFilterObject({ status: { neq: 'DONE' }, name: { firstName: { eq: 'Max' } } })).toEqual({
+      and: [
+        { field: 'status', operator: 'neq', value: 'DONE' },
+        { field: 'name.firstName', operator: 'eq', value: 'Max' }
+      ]
+    });
+  });
+
+  it('converts and/or/not groups', () => {
+    expect(fromFilterObject({ or: [{ city: { eq: 'Berlin' } }, { not: { city: { is: 'NULL' } } }] })).toEqual({
+      or: [
+        { field: 'city', operator: 'eq', value: 'Berlin' },
+        { not: { field: 'city', operator: 'is', value: 'NULL' } }
+      ]
+    });
+  });
+
+  it('rejects fields without operators', () => {
+    expect(() => fromFilterObject({ status: 'KUNDE' })).toThrow(/Expected operators for "status"/);
+    expect(() => fromFilterObject({ or: [] })).toThrow(/non-empty array/);
+  });
+});
+
+describe('resolveFilter', () => {
+  it('passes a raw filter in REST syntax through', () => {
+    expect(resolveFilter(' status[eq]:KUNDE,or(city[eq]:Berlin,city[eq]:"Bonn, Rhein") ')).toBe('status[eq]:KUNDE,or(city[eq]:Berlin,city[eq]:"Bonn, Rhein")');
+  });
+
+  it('converts a raw JSON filter object into REST syntax', () => {
+    expect(resolveFilter('{"status":{"in":["TODO","IN_PROGRESS"]},"companyId":{"is":"NULL"}}'))
+      .toBe('and(status[in]:[TODO,IN_PROGRESS],companyId[is]:NULL)');
+  });
+
+  it('combines the raw and the structured filter with and()', () => {
+    expect(resolveFilter('status[eq]:KUNDE', { field: 'city', operator: 'eq', value: 'Berlin' }))
+      .toBe('and(status[eq]:KUNDE,city[eq]:Berlin)');
+  });
+
+  it('returns undefined without any filter', () => {
+    expect(resolveFilter(undefined, undefined)).toBeUndefined();
+    expect(resolveFilter('  ')).toBeUndefined();
+  });
+
+  it('rejects unbalanced or malformed raw filters locally', () => {
+    expect(() => resolveFilter('or(city[eq]:Berlin')).toThrow(/missing "\)"/);
+    expect(() => resolveFilter('city[eq]:"Berlin')).toThrow(/unterminated quote/);
+    expect(() => resolveFilter('city = Berlin')).toThrow(/field\[eq\]:value/);
+    expect(() => resolveFilter('{"status":')).toThrow(/Invalid filter JSON/);
+  });
+
+  it('rejects invalid structured filters', () => {
+    expect(() => resolveFilter(undefined, { field: 'status', operator: 'in', value: 'KUNDE' })).toThrow(/requires an array value/);
+  });
+});
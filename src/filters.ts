@@ -0,0 +1,200 @@
+import { z } from 'zod';
+
+// Operators supported by Twenty's filter syntax
+export const FILTER_OPERATORS = ['eq', 'neq', 'in', 'like', 'ilike', 'gt', 'gte', 'lt', 'lte', 'is', 'startsWith'] as const;
+
+export type FilterOperator = typeof FILTER_OPERATORS[number];
+
+export interface FilterCondition {
+  field: string;
+  operator: FilterOperator;
+  value: string | number | boolean | null | Array<string | number>;
+}
+
+export type StructuredFilter =
+  | FilterCondition
+  | { and: StructuredFilter[] }
+  | { or: StructuredFilter[] }
+  | { not: StructuredFilter };
+
+const filterValueSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+  z.null(),
+  z.array(z.union([z.string(), z.number()]))
+]);
+
+export const filterConditionSchema = z.object({
+  field: z.string().min(1).regex(/^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/, 'Field must be a field name or dotted path (e.g. "name.firstName")')
+    .describe('Field name, nested fields as dotted path (e.g. "status", "name.lastName", "emails.primaryEmail")'),
+  operator: z.enum(FILTER_OPERATORS).describe('Comparison operator'),
+  value: filterValueSchema.describe('Value to compare against (array for "in", "NULL" or "NOT_NULL" for "is")')
+}).superRefine((condition, ctx) => {
+  const { operator, value } = condition;
+  if (operator === 'in' && !Array.isArray(value)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: 'Operator "in" requires an array value' });
+  }
+  if (operator !== 'in' && Array.isArray(value)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: `Operator "${operator}" does not accept an array value` });
+  }
+  if (operator === 'is' && value !== 'NULL' && value !== 'NOT_NULL') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: 'Operator "is" requires "NULL" or "NOT_NULL"' });
+  }
+  if (['like', 'ilike', 'startsWith'].includes(operator) && typeof value !== 'string') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: `Operator "${operator}" requires a string value` });
+  }
+  if (['gt', 'gte', 'lt', 'lte'].includes(operator) && typeof value !== 'string' && typeof value !== 'number') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: `Operator "${operator}" requires a number or date string` });
+  }
+});
+
+export const structuredFilterSchema: z.ZodType<StructuredFilter> = z.lazy(() => z.union([
+  filterConditionSchema,
+  z.object({ and: z.array(structuredFilterSchema).min(1) }).strict(),
+  z.object({ or: z.array(structuredFilterSchema).min(1) }).strict(),
+  z.object({ not: structuredFilterSchema }).strict()
+]));
+
+// Reusable tool parameter for list tools
+export const whereParamSchema = structuredFilterSchema.optional().describe(
+  'Structured filter, validated locally (e.g. {"field":"status","operator":"eq","value":"KUNDE"} or {"and":[{...},{"or":[{...},{...}]}]}). Combined with "filter" via AND if both are given'
+);
+
+// Values containing one of these are quoted, so they are not split or parsed as syntax
+const FILTER_SPECIAL_CHARACTERS = /[,()[\]":\\]|^\s|\s$|^$/;
+
+/**
+ * Format a condition value for Twenty's filter syntax: strings are quoted
+ * when they contain separators, NULL/NOT_NULL of "is" stay bare, lists
+ * become [a,b]
+ */
+function formatFilterValue(value: FilterCondition['value'], operator: FilterOperator): string {
+  if (value === null) return 'NULL';
+  if (Array.isArray(value)) return `[${value.map(item => formatFilterValue(item, operator)).join(',')}]`;
+  if (typeof value !== 'string') return String(value);
+  if (operator === 'is' || !FILTER_SPECIAL_CHARACTERS.test(value)) return value;
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Convert a structured filter into Twenty's REST filter syntax, e.g.
+ * `and(status[eq]:KUNDE,or(city[eq]:Berlin,name.lastName[ilike]:"%müller%"))`
+ */
+export function toTwentyFilter(filter: StructuredFilter): string {
+  if ('and' in filter) return `and(${filter.and.map(toTwentyFilter).join(',')})`;
+  if ('or' in filter) return `or(${filter.or.map(toTwentyFilter).join(',')})`;
+  if ('not' in filter) return `not(${toTwentyFilter(filter.not)})`;
+  return `${filter.field}[${filter.operator}]:${formatFilterValue(filter.value, filter.operator)}`;
+}
+
+/**
+ * Serialize a structured filter to the REST filter parameter; top-level AND
+ * conditions are joined with commas
+ */
+export function serializeFilter(filter: StructuredFilter): string {
+  return 'and' in filter ? filter.and.map(toTwentyFilter).join(',') : toTwentyFilter(filter);
+}
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Convert a filter object in Twenty's GraphQL shape
+ * (e.g. {"name":{"firstName":{"eq":"Max"}},"or":[...]}) into a structured filter
+ */
+export function fromFilterObject(object: Record<string, any>, path: string[] = []): StructuredFilter {
+  const conditions: StructuredFilter[] = Object.entries(object).map(([key, value]): StructuredFilter => {
+    if (path.length === 0 && (key === 'and' || key === 'or')) {
+      if (!Array.isArray(value) || value.length === 0 || !value.every(isPlainObject)) {
+        throw new Error(`"${key}" must be a non-empty array of filter objects`);
+      }
+      const children = value.map(child => fromFilterObject(child));
+      return key === 'and' ? { and: children } : { or: children };
+    }
+    if (path.length === 0 && key === 'not') {
+      if (!isPlainObject(value)) throw new Error('"not" must be a filter object');
+      return { not: fromFilterObject(value) };
+    }
+    if ((FILTER_OPERATORS as readonly string[]).includes(key) && path.length > 0) {
+      return { field: path.join('.'), operator: key as FilterOperator, value };
+    }
+    if (!isPlainObject(value) || Object.keys(value).length === 0) {
+      throw new Error(`Expected operators for "${[...path, key].join('.')}" (e.g. {"eq": ...})`);
+    }
+    return fromFilterObject(value, [...path, key]);
+  });
+
+  if (conditions.length === 0) throw new Error('Filter object is empty');
+  return conditions.length === 1 ? conditions[0] : { and: conditions };
+}
+
+/**
+ * Check that parentheses, brackets and quotes of a filter string are balanced
+ */
+function checkFilterSyntax(filter: string): void {
+  const closing: Record<string, string> = { '(': ')', '[': ']' };
+  const open: string[] = [];
+  let quoted = false;
+  for (let i = 0; i < filter.length; i++) {
+    const char = filter[i];
+    if (quoted) {
+      if (char === '\\') i++;
+      else if (char === '"') quoted = false;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (closing[char]) {
+      open.push(closing[char]);
+    } else if ((char === ')' || char === ']') && open.pop() !== char) {
+      throw new Error(`Invalid filter: unexpected "${char}" at position ${i + 1}`);
+    }
+  }
+  if (quoted) throw new Error('Invalid filter: unterminated quote');
+  if (open.length > 0) throw new Error(`Invalid filter: missing "${open[open.length - 1]}"`);
+  if (!/\[[A-Za-z]+\]:/.test(filter)) {
+    throw new Error('Invalid filter: expected conditions like field[eq]:value');
+  }
+}
+
+/**
+ * Resolve the raw filter string and the structured filter of a list tool into
+ * a single filter in Twenty's REST syntax. The raw filter is either that
+ * syntax or a JSON filter object, which is converted; both are checked so that
+ * malformed filters fail locally instead of at the Twenty API.
+ */
+export function resolveFilter(raw?: string, where?: StructuredFilter): string | undefined {
+  let rawFilter: string | undefined;
+  const trimmed = raw?.trim();
+  if (trimmed && trimmed.startsWith('{')) {
+    let object: unknown;
+    try {
+      object = JSON.parse(trimmed);
+    } catch (error) {
+      throw new Error(`Invalid filter JSON: ${error instanceof Error ? error.message : 'parse error'}. Use the structured "where" parameter instead`);
+    }
+    if (!isPlainObject(object)) {
+      throw new Error('Invalid filter: expected a JSON object (e.g. {"status":{"eq":"KUNDE"}})');
+    }
+    try {
+      rawFilter = toTwentyFilter(fromFilterObject(object));
+    } catch (error) {
+      throw new Error(`Invalid filter: ${error instanceof Error ? error.message : 'unsupported filter object'}`);
+    }
+  } else if (trimmed) {
+    checkFilterSyntax(trimmed);
+    rawFilter = trimmed;
+  }
+
+  if (!where) {
+    return rawFilter;
+  }
+
+  const parsed = structuredFilterSchema.safeParse(where);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'where'}: ${issue.message}`);
+    throw new Error(`Invalid structured filter: ${issues.join('; ')}`);
+  }
+
+  const structured = toTwentyFilter(parsed.data);
+  return rawFilter ? `and(${rawFilter},${structured})` : structured;
+}
@@ -0,0 +1,176 @@
+import { z } from 'zod';
+
+export const RESPONSE_FORMATS = ['json', 'compact', 'markdown-table'] as const;
+
+export type ResponseFormat = typeof RESPONSE_FORMATS[number];
+
+export interface ResponseShapeOptions {
+  fields?: string[];
+  format?: ResponseFormat;
+  maxChars?: number;
+}
+
+// Keeps a single tool response well inside the model's context window
+export const DEFAULT_MAX_RESPONSE_CHARS = 50000;
+
+// Bookkeeping fields Twenty adds to every record, dropped in compact output
+const COMPACT_OMITTED_KEYS = new Set(['position', 'createdBy', 'updatedBy', 'searchVector', 'blocknote', '__typename']);
+
+// Column limits of the markdown table
+const MAX_TABLE_COLUMNS = 10;
+const MAX_CELL_LENGTH = 80;
+
+// Reusable tool parameters for tools returning records
+export const responseShapeParams = {
+  fields: z.array(z.string().min(1)).min(1).optional().describe('Only return these fields per record, nested fields as dotted path (e.g. ["id","name.firstName","emails.primaryEmail"])'),
+  format: z.enum(RESPONSE_FORMATS).optional().describe('Output format: "json" (default, full pretty-printed), "compact" (minified, without empty values and bookkeeping fields like position/createdBy) or "markdown-table" (one row per record)'),
+  maxChars: z.number().min(1000).max(500000).optional().describe(`Maximum response size in characters (default ${DEFAULT_MAX_RESPONSE_CHARS}); records beyond are omitted with a "more available" marker`)
+};
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const getPath = (record: any, path: string[]): any =>
+  path.reduce((value, key) => (value == null ? undefined : value[key]), record);
+
+/**
+ * Project a record onto the given dotted field paths, keeping the nesting
+ * ("name.firstName" -> { name: { firstName } })
+ */
+export function projectFields(record: any, fields: string[]): any {
+  if (!isPlainObject(record)) return record;
+
+  const projected: Record<string, any> = {};
+  for (const field of fields) {
+    const path = field.split('.');
+    const value = getPath(record, path);
+    if (value === undefined) continue;
+
+    let target = projected;
+    for (const key of path.slice(0, -1)) {
+      if (!isPlainObject(target[key])) target[key] = {};
+      target = target[key];
+    }
+    target[path[path.length - 1]] = value;
+  }
+  return projected;
+}
+
+/**
+ * Remove empty values (null, "", [], {}) and bookkeeping fields recursively
+ */
+export function compactValue(value: any): any {
+  if (Array.isArray(value)) {
+    const items = value.map(compactValue).filter(item => item !== undefined);
+    return items.length > 0 ? items : undefined;
+  }
+  if (isPlainObject(value)) {
+    const result: Record<string, any> = {};
+    for (const [key, child] of Object.entries(value)) {
+      if (COMPACT_OMITTED_KEYS.has(key)) continue;
+      const compacted = compactValue(child);
+      if (compacted !== undefined) result[key] = compacted;
+    }
+    return Object.keys(result).length > 0 ? result : undefined;
+  }
+  if (value === null || value === '') return undefined;
+  return value;
+}
+
+// Flatten a record into dotted scalar paths for table rendering
+const flatten = (value: any, prefix = '', result: Record<string, any> = {}): Record<string, any> => {
+  if (isPlainObject(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child, prefix ? `${prefix}.${key}` : key, result);
+    }
+  } else if (prefix) {
+    result[prefix] = value;
+  }
+  return result;
+};
+
+const formatCell = (value: any): string => {
+  if (value === undefined || value === null) return '';
+  const text = Array.isArray(value)
+    ? value.map(item => (isPlainObject(item) ? JSON.stringify(item) : String(item))).join(', ')
+    : String(value);
+  const cell = text.replace(/\r?\n/g, ' ').replace(/\|/g, '\\|');
+  return cell.length > MAX_CELL_LENGTH ? `${cell.substring(0, MAX_CELL_LENGTH)}…` : cell;
+};
+
+const renderTable = (records: any[], fields?: string[]): string => {
+  if (records.length === 0) return '_No records_';
+
+  const rows = records.map(record => flatten(isPlainObject(record) ? record : { value: record }));
+  const columns = fields ?? [...new Set(rows.flatMap(row => Object.keys(row)))].slice(0, MAX_TABLE_COLUMNS);
+
+  return [
+    `| ${columns.join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${columns.map(column => formatCell(row[column])).join(' | ')} |`)
+  ].join('\n');
+};
+
+// Scalar metadata (counts, pageInfo, message) rendered above a markdown table
+const renderMeta = (meta: Record<string, any>): string =>
+  Object.entries(flatten(compactValue(meta) || {}))
+    .filter(([, value]) => !Array.isArray(value))
+    .map(([key, value]) => `**${key}:** ${value}`)
+    .join(' · ');
+
+const moreAvailableHint = 'Narrow the result with "fields", a smaller "limit" or a filter, or page with "startingAfter"';
+
+/**
+ * Shape a tool response: project the records under `recordsKey` (array or
+ * single record) onto `fields`, render them in the requested format and cut
+ * records that exceed `maxChars`, marking that more records are available.
+ */
+export function formatResponse(
+  payload: Record<string, any>,
+  recordsKey: string,
+  options: ResponseShapeOptions = {}
+): string {
+  const { fields, format = 'json', maxChars = DEFAULT_MAX_RESPONSE_CHARS } = options;
+  const { [recordsKey]: value, ...meta } = payload;
+  const isList = Array.isArray(value);
+
+  let records: any[] = isList ? value : value == null ? [] : [value];
+  if (fields) records = records.map(record => projectFields(record, fields));
+  if (format !== 'json') records = records.map(record => compactValue(record) ?? {});
+
+  const render = (items: any[], omitted: number): string => {
+    if (format === 'markdown-table') {
+      const header = renderMeta(meta);
+      const footer = omitted > 0 ? `\n\n_… ${omitted} more record(s) available. ${moreAvailableHint}_` : '';
+      return `${header ? `${header}\n\n` : ''}${renderTable(items, fields)}${footer}`;
+    }
+
+    const body = {
+      [recordsKey]: isList ? items : items[0] ?? null,
+      ...(format === 'compact' ? compactValue(meta) : meta),
+      ...(omitted > 0 && { moreAvailable: { returned: items.length, omitted, hint: moreAvailableHint } })
+    };
+    return format === 'compact' ? JSON.stringify(body) : JSON.stringify(body, null, 2);
+  };
+
+  let text = render(records, 0);
+  if (text.length <= maxChars) return text;
+
+  if (isList) {
+    // Binary search the largest number of records that fits into maxChars
+    let low = 0;
+    let high = records.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (render(records.slice(0, mid), records.length - mid).length <= maxChars) low = mid;
+      else high = mid - 1;
+    }
+    text = render(records.slice(0, low), records.length - low);
+  }
+
+  // A single oversized record (or huge metadata) is cut as plain text
+  if (text.length > maxChars) {
+    text = `${text.substring(0, maxChars)}\n… [truncated, more available. ${moreAvailableHint}]`;
+  }
+  return text;
+}
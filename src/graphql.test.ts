@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { RECORD_SELECTIONS, buildLinkedActivitiesQuery, recordSelection } from './graphql.js';
+import { WorkspaceMetadata } from './metadata.js';
+
+const metadata: WorkspaceMetadata = {
+  loadedAt: new Date(),
+  objects: [{
+    nameSingular: 'task',
+    namePlural: 'tasks',
+    labelSingular: 'Task',
+    labelPlural: 'Tasks',
+    fields: [
+      { name: 'title', label: 'Title', type: 'TEXT', isCustom: false },
+      { name: 'effort', label: 'Effort', type: 'NUMBER', isCustom: true },
+      { name: 'budget', label: 'Budget', type: 'CURRENCY', isCustom: true },
+      { name: 'project', label: 'Project', type: 'RELATION', isCustom: true },
+      { name: 'legacyCode', label: 'Legacy code', type: 'TEXT', isCustom: true, isActive: false }
+    ]
+  }]
+};
+
+describe('recordSelection', () => {
+  it('adds the active custom fields of the workspace', () => {
+    expect(recordSelection('task', metadata)).toBe(`${RECORD_SELECTIONS.task} effort budget { amountMicros currencyCode }`);
+  });
+
+  it('selects the standard fields without metadata for the object', () => {
+    expect(recordSelection('task')).toBe(RECORD_SELECTIONS.task);
+    expect(recordSelection('note', metadata)).toBe(RECORD_SELECTIONS.note);
+  });
+});
+
+describe('buildLinkedActivitiesQuery', () => {
+  it('selects custom fields of the linked tasks', () => {
+    const query = buildLinkedActivitiesQuery('task', 'companyId', { first: 20, depth: 0, metadata });
+    expect(query).toContain(`task { ${RECORD_SELECTIONS.task} effort budget { amountMicros currencyCode } }`);
+    expect(query).toContain('taskTargets(filter: { companyId: { eq: $id } }, first: 20)');
+  });
+});
@@ -0,0 +1,166 @@
+import { WorkspaceMetadata } from './metadata.js';
+
+// Query builders for Twenty's workspace GraphQL API (/graphql), used where the
+// REST API would need one request per relation
+
+export const GRAPHQL_OBJECTS = [
+  'person',
+  'company',
+  'opportunity',
+  'task',
+  'note',
+  'taskTarget',
+  'noteTarget',
+  'timelineActivity'
+] as const;
+
+export type GraphQLObject = typeof GRAPHQL_OBJECTS[number];
+
+// Plural (collection) query name of each object
+export const GRAPHQL_PLURALS: Record<GraphQLObject, string> = {
+  person: 'people',
+  company: 'companies',
+  opportunity: 'opportunities',
+  task: 'tasks',
+  note: 'notes',
+  taskTarget: 'taskTargets',
+  noteTarget: 'noteTargets',
+  timelineActivity: 'timelineActivities'
+};
+
+// Standard fields selected per object; see recordSelection for custom fields
+export const RECORD_SELECTIONS: Record<GraphQLObject, string> = {
+  person: 'id createdAt updatedAt name { firstName lastName } emails { primaryEmail additionalEmails } phones { primaryPhoneNumber primaryPhoneCountryCode primaryPhoneCallingCode } jobTitle city avatarUrl companyId',
+  company: 'id createdAt updatedAt name domainName { primaryLinkUrl primaryLinkLabel } employees idealCustomerProfile accountOwnerId',
+  opportunity: 'id createdAt updatedAt name stage closeDate amount { amountMicros currencyCode } companyId pointOfContactId',
+  task: 'id createdAt updatedAt title status dueAt position assigneeId bodyV2 { markdown }',
+  note: 'id createdAt updatedAt title position bodyV2 { markdown }',
+  taskTarget: 'id createdAt taskId personId companyId opportunityId',
+  noteTarget: 'id createdAt noteId personId companyId opportunityId',
+  timelineActivity: 'id createdAt happensAt name linkedRecordCachedName linkedObjectMetadataId'
+};
+
+// Subfields of Twenty's composite field types, which GraphQL cannot select as a whole
+const COMPOSITE_SUBFIELDS: Record<string, string> = {
+  FULL_NAME: 'firstName lastName',
+  EMAILS: 'primaryEmail additionalEmails',
+  PHONES: 'primaryPhoneNumber primaryPhoneCountryCode primaryPhoneCallingCode additionalPhones',
+  LINKS: 'primaryLinkUrl primaryLinkLabel secondaryLinks',
+  CURRENCY: 'amountMicros currencyCode',
+  ADDRESS: 'addressStreet1 addressStreet2 addressCity addressState addressCountry addressPostcode addressLat addressLng',
+  ACTOR: 'source workspaceMemberId name',
+  RICH_TEXT_V2: 'blocknote markdown'
+};
+
+// Relations are selected explicitly where a query needs them
+const RELATION_TYPES = new Set(['RELATION', 'MORPH_RELATION']);
+
+/**
+ * Standard fields of an object plus the active custom fields of the workspace,
+ * so GraphQL results carry the same custom data as REST ones
+ */
+export function recordSelection(object: GraphQLObject, metadata?: WorkspaceMetadata): string {
+  const fields = metadata?.objects.find(candidate => candidate.nameSingular === object)?.fields || [];
+  const custom = fields
+    .filter(field => field.isCustom && field.isActive !== false && !RELATION_TYPES.has(field.type))
+    .map(field => COMPOSITE_SUBFIELDS[field.type] ? `${field.name} { ${COMPOSITE_SUBFIELDS[field.type]} }` : field.name);
+  return [RECORD_SELECTIONS[object], ...custom].join(' ');
+}
+
+// Twenty caps a single GraphQL connection page at 60 records, like REST
+export const GRAPHQL_PAGE_SIZE = 60;
+
+export interface GraphQLConnection<T> {
+  edges: { node: T }[];
+  pageInfo?: { hasNextPage: boolean; endCursor?: string };
+  totalCount?: number;
+}
+
+export interface GraphQLResponse<T> {
+  data?: T;
+  errors?: any[];
+}
+
+export interface ConnectionArgs {
+  // GraphQL filter literal, may reference query variables (e.g. `{ companyId: { eq: $id } }`)
+  filter?: string;
+  orderBy?: string;
+  first?: number;
+  // Name of a String variable holding the cursor
+  afterVariable?: string;
+}
+
+/**
+ * Selection of a connection field with its arguments, e.g.
+ * `taskTargets(filter: ..., first: 60) { edges { node { ... } } pageInfo { ... } totalCount }`
+ */
+export function connectionField(name: string, selection: string, args: ConnectionArgs = {}): string {
+  const argList = [
+    args.filter && `filter: ${args.filter}`,
+    args.orderBy && `orderBy: ${args.orderBy}`,
+    args.first !== undefined && `first: ${args.first}`,
+    args.afterVariable && `after: $${args.afterVariable}`
+  ].filter(Boolean).join(', ');
+  return `${name}${argList ? `(${argList})` : ''} { edges { node { ${selection} } } pageInfo { hasNextPage endCursor } totalCount }`;
+}
+
+/**
+ * Single record field looked up by id variable, e.g. `company(filter: { id: { eq: $id } }) { ... }`
+ */
+export function recordField(object: GraphQLObject, selection: string, idVariable: string = 'id', alias?: string): string {
+  return `${alias ? `${alias}: ` : ''}${object}(filter: { id: { eq: $${idVariable} } }) { ${selection} }`;
+}
+
+/**
+ * Wrap fields into a named query with variable definitions (e.g. { id: 'UUID!' })
+ */
+export function buildQuery(name: string, variables: Record<string, string>, fields: string[]): string {
+  const definitions = Object.entries(variables).map(([variable, type]) => `$${variable}: ${type}`).join(', ');
+  return `query ${name}${definitions ? `(${definitions})` : ''} {\n  ${fields.join('\n  ')}\n}`;
+}
+
+/**
+ * Filter literal matching records whose field equals a query variable
+ */
+export function eqFilter(field: string, variable: string = 'id'): string {
+  return `{ ${field}: { eq: $${variable} } }`;
+}
+
+/**
+ * Paged query over one collection, for following a connection's endCursor
+ */
+export function buildPageQuery(object: GraphQLObject, selection: string, filter?: string): string {
+  return buildQuery(`${GRAPHQL_PLURALS[object]}Page`, { id: 'UUID!', after: 'String' }, [
+    connectionField(GRAPHQL_PLURALS[object], selection, { filter, first: GRAPHQL_PAGE_SIZE, afterVariable: 'after' })
+  ]);
+}
+
+export const nodesOf = <T>(connection: GraphQLConnection<T> | null | undefined): T[] =>
+  (connection?.edges || []).map(edge => edge.node);
+
+// Records a note or task is linked to, by name
+const LINKED_RECORD_SELECTION = 'id person { id name { firstName lastName } } company { id name } opportunity { id name }';
+
+/**
+ * Notes or tasks linked to a record (targetField e.g. "companyId") through
+ * their noteTargets/taskTargets; with depth > 0 every note/task also lists all
+ * its linked records and tasks their assignee. With workspace metadata the
+ * notes/tasks include their custom fields.
+ */
+export function buildLinkedActivitiesQuery(
+  kind: 'note' | 'task',
+  targetField: string,
+  options: { first: number; depth: number; metadata?: WorkspaceMetadata }
+): string {
+  const target: GraphQLObject = kind === 'note' ? 'noteTarget' : 'taskTarget';
+  const related = options.depth > 0
+    ? [
+        connectionField(GRAPHQL_PLURALS[target], LINKED_RECORD_SELECTION),
+        ...(kind === 'task' ? ['assignee { id name { firstName lastName } userEmail }'] : [])
+      ]
+    : [];
+  const selection = `${RECORD_SELECTIONS[target]} ${kind} { ${[recordSelection(kind, options.metadata), ...related].join(' ')} }`;
+  return buildQuery(kind === 'note' ? 'LinkedNotes' : 'LinkedTasks', { id: 'UUID!' }, [
+    connectionField(GRAPHQL_PLURALS[target], selection, { filter: eqFilter(targetField), first: options.first })
+  ]);
+}
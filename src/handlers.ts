@@ -18,7 +18,7 @@ export const setupPromptHandlers = (server: McpServer): void => {
       unternehmenstyp: z.enum(['HANDWERKSUNTERNEHMEN', 'PARTNER', 'DIENSTLEISTER']).optional().describe('Typ des Unternehmens'),
       status: z.enum(['INTERESSE', 'TRIAL', 'KUNDE', 'VERLOREN']).optional().describe('Aktueller Status'),
       priority: z.enum(['TODO', 'IN_PROGRESS']).optional().describe('Priorität für die Demo-Aufgabe'),
-      assigneeId: z.string().optional().describe('UUID des Workspace-Members dem die Demo-Aufgabe zugewiesen werden soll')
+      assigneeId: z.string().optional().describe('Workspace-Member dem die Demo-Aufgabe zugewiesen werden soll: Name, E-Mail, "me" oder UUID')
     }
   }, async (args) => {
     return await promptHandlers['enrich-and-create-crm-data'](args);
@@ -0,0 +1,270 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { AddressInfo } from 'net';
+import winston from 'winston';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { TwentyCRMClient } from './twenty-client.js';
+import { HttpServer, createHttpServer } from './http-server.js';
+import { DEFAULT_SESSION_LIMITS } from './session-registry.js';
+import { InMemoryStore } from './storage.js';
+import { InMemoryEventStore } from './event-store.js';
+import { getRequestContext } from './auth/request-context.js';
+
+const logger = winston.createLogger({ silent: true });
+
+// Stand-in for the Twenty client: every key is valid, the key tells clients apart
+const clientKeys = new WeakMap<TwentyCRMClient, string>();
+const createClient = (apiKey: string) => {
+  const client = { testConnection: async () => undefined } as unknown as TwentyCRMClient;
+  clientKeys.set(client, apiKey);
+  return client;
+};
+
+// Reports whose client and credential the tool call was bound to
+const createServer = () => {
+  const server = new McpServer({ name: 'test', version: '1.0.0' }, { capabilities: { logging: {} } });
+  server.registerTool('whoami', { description: 'Caller of the tool call', inputSchema: {} }, async (params, extra) => {
+    const client = getRequestContext()?.client;
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          sessionId: extra.sessionId,
+          clientKey: client && clientKeys.get(client),
+          authKey: extra.authInfo?.extra?.twentyApiKey
+        })
+      }]
+    };
+  });
+  // Log messages outside of a request go to the session's standalone GET stream
+  server.registerTool('broadcast', { description: 'Send log messages', inputSchema: { messages: z.array(z.string()) } }, async ({ messages }) => {
+    for (const data of messages) {
+      await server.server.notification({ method: 'notifications/message', params: { level: 'info', data } });
+    }
+    return { content: [{ type: 'text', text: 'sent' }] };
+  });
+  return server;
+};
+
+// Unsigned token shaped like a Twenty API key; the server does not verify its signature
+const twentyJwt = (workspaceId: string, signature: string) => [
+  Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url'),
+  Buffer.from(JSON.stringify({ sub: workspaceId, type: 'API_KEY', workspaceId })).toString('base64url'),
+  signature
+].join('.');
+
+const parseSse = (text: string) => text.split('\n\n').flatMap(block => {
+  const data = block.split('\n').filter(line => line.startsWith('data:')).map(line => line.slice(5).trim()).join('\n');
+  return data ? [JSON.parse(data)] : [];
+});
+
+let httpServer: HttpServer;
+let baseUrl: string;
+
+const request = (method: string, token: string, options: { sessionId?: string; body?: unknown; headers?: Record<string, string> } = {}) =>
+  fetch(`${baseUrl}/mcp`, {
+    method,
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Accept': 'application/json, text/event-stream',
+      'Content-Type': 'application/json',
+      ...(options.sessionId && { 'mcp-session-id': options.sessionId }),
+      ...options.headers
+    },
+    body: options.body === undefined ? undefined : JSON.stringify(options.body)
+  });
+
+let requestId = 1;
+
+const initialize = async (token: string): Promise<string> => {
+  const response = await request('POST', token, {
+    body: {
+      jsonrpc: '2.0',
+      id: requestId++,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+    }
+  });
+  expect(response.status).toBe(200);
+  await response.text();
+  const sessionId = response.headers.get('mcp-session-id')!;
+  const initialized = await request('POST', token, { sessionId, body: { jsonrpc: '2.0', method: 'notifications/initialized' } });
+  expect(initialized.status).toBe(202);
+  return sessionId;
+};
+
+const callWhoami = async (token: string, sessionId: string) => {
+  const response = await request('POST', token, {
+    sessionId,
+    body: { jsonrpc: '2.0', id: requestId++, method: 'tools/call', params: { name: 'whoami', arguments: {} } }
+  });
+  if (response.status !== 200) return { status: response.status };
+  const [message] = parseSse(await response.text());
+  return { status: response.status, caller: JSON.parse(message.result.content[0].text) };
+};
+
+// Standalone SSE stream of a session, read event by event
+const openStream = async (token: string, sessionId: string, lastEventId?: string) => {
+  const controller = new AbortController();
+  const response = await fetch(`${baseUrl}/mcp`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Accept': 'text/event-stream',
+      'mcp-session-id': sessionId,
+      ...(lastEventId && { 'Last-Event-ID': lastEventId })
+    },
+    signal: controller.signal
+  });
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const next = async (): Promise<{ id?: string; data: unknown }> => {
+    while (true) {
+      const end = buffer.indexOf('\n\n');
+      if (end >= 0) {
+        const lines = buffer.slice(0, end).split('\n');
+        buffer = buffer.slice(end + 2);
+        const data = lines.find(line => line.startsWith('data:'));
+        if (!data) continue;
+        return {
+          id: lines.find(line => line.startsWith('id:'))?.slice(3).trim(),
+          data: JSON.parse(data.slice(5)).params?.data
+        };
+      }
+      const { value, done } = await reader.read();
+      if (done) throw new Error('Stream ended');
+      buffer += decoder.decode(value, { stream: true });
+    }
+  };
+
+  const close = async () => {
+    controller.abort();
+    // Let the server notice the disconnect before the client reconnects
+    await new Promise(resolve => setTimeout(resolve, 50));
+  };
+
+  return { status: response.status, next, close };
+};
+
+const broadcast = async (token: string, sessionId: string, messages: string[]) => {
+  const response = await request('POST', token, {
+    sessionId,
+    body: { jsonrpc: '2.0', id: requestId++, method: 'tools/call', params: { name: 'broadcast', arguments: { messages } } }
+  });
+  expect(response.status).toBe(200);
+  await response.text();
+};
+
+beforeAll(async () => {
+  vi.spyOn(console, 'debug').mockImplementation(() => undefined);
+  httpServer = createHttpServer({
+    port: 0,
+    baseUrl: new URL('http://localhost'),
+    streamableHttp: 'stateful',
+    legacySse: false,
+    sessionLimits: DEFAULT_SESSION_LIMITS,
+    serviceDocumentationUrl: new URL('https://docs.twenty.com/mcp'),
+    twentyUrl: 'https://twenty.test/rest',
+    allowedTwentyUrls: []
+  }, { logger, createServer, createClient, store: new InMemoryStore(), eventStore: new InMemoryEventStore() });
+  const server = await httpServer.listen();
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await httpServer.close();
+  vi.restoreAllMocks();
+});
+
+describe('session ownership', () => {
+  // Both keys start alike, so they used to get the same derived client id
+  const alice = 'workspace-key-alice';
+  const bob = 'workspace-key-bob';
+
+  it('binds parallel tool calls of two sessions to their own client', async () => {
+    const [aliceSession, bobSession] = await Promise.all([initialize(alice), initialize(bob)]);
+
+    const calls = Array.from({ length: 10 }, (_, index) => index % 2 === 0
+      ? callWhoami(alice, aliceSession).then(result => ({ result, key: alice, sessionId: aliceSession }))
+      : callWhoami(bob, bobSession).then(result => ({ result, key: bob, sessionId: bobSession })));
+
+    for (const { result, key, sessionId } of await Promise.all(calls)) {
+      expect(result.status).toBe(200);
+      expect(result.caller).toEqual({ sessionId, clientKey: key, authKey: key });
+    }
+  });
+
+  it('rejects another key on a session, also when client ids collide', async () => {
+    const aliceSession = await initialize(alice);
+
+    expect((await callWhoami(bob, aliceSession)).status).toBe(403);
+    expect((await request('GET', bob, { sessionId: aliceSession })).status).toBe(403);
+    expect((await request('DELETE', bob, { sessionId: aliceSession })).status).toBe(403);
+
+    // The session still belongs to its creator with its own client
+    const own = await callWhoami(alice, aliceSession);
+    expect(own.caller).toMatchObject({ sessionId: aliceSession, clientKey: alice });
+  });
+
+  it('does not let two tokens of the same workspace share a session', async () => {
+    const first = twentyJwt('workspace-1', 'signature-a');
+    const forged = twentyJwt('workspace-1', 'signature-b');
+    const sessionId = await initialize(first);
+
+    expect((await callWhoami(forged, sessionId)).status).toBe(403);
+    expect((await request('DELETE', forged, { sessionId })).status).toBe(403);
+    expect((await callWhoami(first, sessionId)).caller).toMatchObject({ sessionId, clientKey: first });
+  });
+});
+
+describe('resumable streams', () => {
+  const alice = 'replay-key-alice';
+  const bob = 'replay-key-bob';
+
+  it('replays missed events after a reconnect with Last-Event-ID', async () => {
+    const sessionId = await initialize(alice);
+    const stream = await openStream(alice, sessionId);
+    expect(stream.status).toBe(200);
+
+    await broadcast(alice, sessionId, ['one', 'two', 'three']);
+    const first = await stream.next();
+    expect(first.data).toBe('one');
+    await stream.close();
+
+    const resumed = await openStream(alice, sessionId, first.id);
+    expect(resumed.status).toBe(200);
+    expect((await resumed.next()).data).toBe('two');
+    expect((await resumed.next()).data).toBe('three');
+
+    // The resumed stream keeps receiving new events
+    await broadcast(alice, sessionId, ['four']);
+    expect((await resumed.next()).data).toBe('four');
+    await resumed.close();
+  });
+
+  it('never replays the events of another session', async () => {
+    const [aliceSession, bobSession] = await Promise.all([initialize(alice), initialize(bob)]);
+    const aliceStream = await openStream(alice, aliceSession);
+    const bobStream = await openStream(bob, bobSession);
+
+    await broadcast(alice, aliceSession, ['alice-1', 'alice-2']);
+    await broadcast(bob, bobSession, ['bob-1']);
+    const aliceFirst = await aliceStream.next();
+    const bobFirst = await bobStream.next();
+    expect([aliceFirst.data, bobFirst.data]).toEqual(['alice-1', 'bob-1']);
+    await aliceStream.close();
+    await bobStream.close();
+
+    // Alice's event id on Bob's own session, and the bare stream id all sessions share
+    const foreign = await openStream(bob, bobSession, aliceFirst.id);
+    expect(foreign.status).toBe(400);
+    const unscoped = await openStream(bob, bobSession, '_GET_stream::0-0');
+    expect(unscoped.status).toBe(400);
+
+    const own = await openStream(bob, bobSession, bobFirst.id);
+    await broadcast(bob, bobSession, ['bob-2']);
+    expect((await own.next()).data).toBe('bob-2');
+    await own.close();
+  });
+});
@@ -0,0 +1,538 @@
+import express, { Request, Response, RequestHandler } from 'express';
+import { Server } from 'http';
+import { randomUUID } from 'node:crypto';
+import winston from 'winston';
+import cors from 'cors';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { EventStore, StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+import { TwentyCRMClient, TwentyClientFactory } from './twenty-client.js';
+import { WorkspaceMetadata, tryLoadWorkspaceMetadata } from './metadata.js';
+import { ApiKeyOAuthProvider, createOAuthMiddleware } from './auth/api-key-oauth-provider.js';
+import { createApiKeyOAuthRouter } from './auth/api-key-oauth-router.js';
+import { RequestAuthContext, ownerKeyOf, runWithRequestContext } from './auth/request-context.js';
+import { SessionLimits, sessionLimitsFromConfig, sessionRegistry } from './session-registry.js';
+import { createAdminRouter } from './admin-router.js';
+import { KeyValueStore } from './storage.js';
+import { getCacheStats } from './response-cache.js';
+import { AppConfig } from './config.js';
+import { SessionEventStore, isSessionEventId } from './event-store.js';
+
+// Streamable HTTP on /mcp: with sessions, one server per request, or not mounted
+export type StreamableHttpMode = 'stateful' | 'stateless' | false;
+
+export interface HttpServerConfig {
+  port: number;
+  baseUrl: URL;
+  streamableHttp: StreamableHttpMode;
+  // Legacy SSE transport on /sse and /messages (needs sessions, so only one instance)
+  legacySse: boolean;
+  // Enables the admin endpoints when set
+  adminToken?: string;
+  sessionLimits: SessionLimits;
+  serviceDocumentationUrl: URL;
+  // Default Twenty REST API and further instances tokens may be bound to
+  twentyUrl: string;
+  allowedTwentyUrls: string[];
+  sessionSecret?: string;
+}
+
+export interface HttpServerDependencies {
+  logger: winston.Logger;
+  createServer: (authenticatedClient?: TwentyCRMClient, metadata?: WorkspaceMetadata) => McpServer;
+  createClient: TwentyClientFactory;
+  // Shared OAuth state
+  store: KeyValueStore;
+  // Replay of resumable Streamable HTTP streams (stateful mode only), shared by
+  // all sessions; every transport gets a session-scoped view of it
+  eventStore?: EventStore;
+}
+
+export interface HttpServer {
+  app: express.Express;
+  listen(): Promise<Server>;
+  close(): Promise<void>;
+}
+
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Build the HTTP server configuration from the app config. The transport
+ * presets (sse, streamable-http, streamable-http-stateless) only differ in
+ * which MCP endpoints are mounted; `http` mounts everything.
+ */
+export function httpServerConfigFrom(config: AppConfig): HttpServerConfig {
+  const preset = config.transport;
+  return {
+    port: config.port,
+    baseUrl: new URL(config.baseUrl || `http://localhost:${config.port}`),
+    streamableHttp: preset === 'sse' ? false : preset === 'streamable-http-stateless' ? 'stateless' : 'stateful',
+    legacySse: preset !== 'streamable-http-stateless',
+    adminToken: config.admin.token,
+    sessionLimits: sessionLimitsFromConfig(config.sessions),
+    serviceDocumentationUrl: new URL('https://docs.twenty.com/mcp'),
+    twentyUrl: config.twenty.url,
+    allowedTwentyUrls: config.twenty.allowedUrls,
+    sessionSecret: config.sessionSecret
+  };
+}
+
+const jsonRpcError = (res: Response, status: number, code: number, message: string) => {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  });
+};
+
+// Sessions are bound to the credential that created them (see ApiKeyOAuthProvider.ownerKey)
+const isSessionOwner = (req: Request, sessionId: string): boolean => {
+  const ownerKey = ownerKeyOf(req.auth);
+  return !!ownerKey && sessionRegistry.get(sessionId)?.ownerKey === ownerKey;
+};
+
+const rejectForeignSession = (res: Response) =>
+  jsonRpcError(res, 403, -32001, 'Forbidden: session belongs to a different user');
+
+/**
+ * Streamable HTTP with sessions (nach SDK-Pattern). Returns the transport map
+ * so that open sessions can be closed on shutdown.
+ */
+const mountStatefulMcpRoutes = (
+  app: express.Express,
+  oauthMiddleware: RequestHandler,
+  config: HttpServerConfig,
+  deps: HttpServerDependencies
+) => {
+  const { logger, createServer, createClient, eventStore } = deps;
+  const transports: { [sessionId: string]: StreamableHTTPServerTransport } = {};
+
+  // MCP POST endpoint with OAuth middleware
+  app.post('/mcp', oauthMiddleware, async (req: Request, res: Response) => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    logger.info('Received POST request to /mcp');
+
+    const authData = req.authenticatedClient;
+    const authInfo = req.auth;
+    const ownerKey = ownerKeyOf(authInfo);
+    if (!authData?.apiKey || !authInfo || !ownerKey) {
+      res.status(401).json({ error: 'unauthorized', error_description: 'Missing authentication' });
+      return;
+    }
+
+    try {
+      let transport: StreamableHTTPServerTransport;
+      let context: RequestAuthContext;
+
+      if (sessionId && transports[sessionId]) {
+        // Reuse existing transport, but only with the credential and Twenty instance that created the session
+        const session = sessionRegistry.get(sessionId);
+        if (!session || session.ownerKey !== ownerKey || session.twentyUrl !== authData.twentyUrl) {
+          logger.warn(`Rejected request for session ${sessionId} from a different user`);
+          rejectForeignSession(res);
+          return;
+        }
+
+        transport = transports[sessionId];
+        sessionRegistry.touch(sessionId);
+        context = { sessionId, authInfo, client: session.client };
+      } else if (!sessionId && isInitializeRequest(req.body)) {
+        // Keep the number of sessions per credential bounded, closing the least recently used ones
+        const evicted = await sessionRegistry.evictForNewSession(ownerKey, config.sessionLimits);
+        if (evicted.length > 0) {
+          logger.info(`Closed ${evicted.length} session(s) of user ${authInfo.clientId} to stay within the per-user limit`);
+        }
+
+        // New initialization request, the session id is known upfront to bind the request context
+        const newSessionId = randomUUID();
+        const client = createClient(authData.apiKey, authData.twentyUrl);
+        context = { sessionId: newSessionId, authInfo, client };
+
+        transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => newSessionId,
+          eventStore: eventStore && new SessionEventStore(eventStore, newSessionId),
+          onsessioninitialized: (sessionId) => {
+            logger.info(`Session initialized with ID: ${sessionId}`);
+            transports[sessionId] = transport;
+            sessionRegistry.register({
+              sessionId,
+              userId: authInfo.clientId,
+              ownerKey,
+              twentyUrl: authData.twentyUrl,
+              client,
+              transport: 'streamable-http',
+              close: () => transport.close()
+            });
+            logger.info(`OAuth authentication successful for new session ${sessionId}`);
+          }
+        });
+
+        // Set up onclose handler to clean up transport
+        transport.onclose = () => {
+          const sid = transport.sessionId;
+          if (sid && transports[sid]) {
+            logger.info(`Transport closed for session ${sid}, removing from transports map`);
+            delete transports[sid];
+            sessionRegistry.remove(sid);
+          }
+        };
+
+        // Build tool schemas from the workspace metadata of the authenticated user
+        const metadata = await tryLoadWorkspaceMetadata(client, logger);
+
+        // Connect the transport to the MCP server
+        const server = createServer(undefined, metadata);
+        await server.connect(transport);
+      } else {
+        jsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+        return;
+      }
+
+      await runWithRequestContext(context, () => transport.handleRequest(req, res, req.body));
+    } catch (error) {
+      logger.error('Error handling MCP request:', error);
+      if (!res.headersSent) {
+        jsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    }
+  });
+
+  // MCP GET endpoint for SSE streams
+  app.get('/mcp', oauthMiddleware, async (req: Request, res: Response) => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    if (!sessionId || !transports[sessionId]) {
+      res.status(400).send('Invalid or missing session ID');
+      return;
+    }
+    if (!isSessionOwner(req, sessionId)) {
+      rejectForeignSession(res);
+      return;
+    }
+
+    // Check for Last-Event-ID header for resumability
+    const lastEventId = req.headers['last-event-id'] as string | undefined;
+    if (lastEventId && !isSessionEventId(lastEventId, sessionId)) {
+      logger.warn(`Rejected Last-Event-ID of another session for session ${sessionId}`);
+      jsonRpcError(res, 400, -32000, 'Bad Request: Last-Event-ID does not belong to this session');
+      return;
+    }
+    if (lastEventId) {
+      logger.info(`Client reconnecting with Last-Event-ID: ${lastEventId}`);
+    } else {
+      logger.info(`Establishing new SSE stream for session ${sessionId}`);
+    }
+
+    await transports[sessionId].handleRequest(req, res);
+  });
+
+  // MCP DELETE endpoint for session termination
+  app.delete('/mcp', oauthMiddleware, async (req: Request, res: Response) => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    if (!sessionId || !transports[sessionId]) {
+      res.status(400).send('Invalid or missing session ID');
+      return;
+    }
+    if (!isSessionOwner(req, sessionId)) {
+      rejectForeignSession(res);
+      return;
+    }
+
+    logger.info('Received DELETE request to /mcp');
+
+    try {
+      await transports[sessionId].handleRequest(req, res);
+    } catch (error) {
+      logger.error('Error handling session termination:', error);
+      if (!res.headersSent) {
+        res.status(500).send('Error processing session termination');
+      }
+    }
+  });
+
+  return transports;
+};
+
+/**
+ * Stateless Streamable HTTP: every POST builds its own server from the bearer
+ * token, so any instance behind a load balancer can serve any request
+ */
+const mountStatelessMcpRoutes = (
+  app: express.Express,
+  oauthMiddleware: RequestHandler,
+  config: HttpServerConfig,
+  deps: HttpServerDependencies
+) => {
+  const { logger, createServer, createClient } = deps;
+
+  app.post('/mcp', oauthMiddleware, async (req: Request, res: Response) => {
+    const authData = req.authenticatedClient;
+    if (!authData?.apiKey) {
+      res.status(401).json({ error: 'unauthorized', error_description: 'Missing authentication' });
+      return;
+    }
+
+    try {
+      // The client belongs to this request's server only, so requests can never share credentials
+      const client = createClient(authData.apiKey, authData.twentyUrl);
+      const metadata = await tryLoadWorkspaceMetadata(client, logger);
+      const server = createServer(client, metadata);
+      const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+
+      res.on('close', () => {
+        transport.close();
+        server.close();
+      });
+
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      logger.error('Error handling stateless MCP request:', error);
+      if (!res.headersSent) {
+        jsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    }
+  });
+
+  // Without sessions there are no server-initiated streams to open or sessions to terminate
+  const methodNotAllowed = (req: Request, res: Response) => {
+    res.set('Allow', 'POST');
+    jsonRpcError(res, 405, -32000, 'Method not allowed in stateless mode');
+  };
+  app.get('/mcp', methodNotAllowed);
+  app.delete('/mcp', methodNotAllowed);
+};
+
+/**
+ * Legacy SSE transport (protocol version 2024-11-05): GET /sse opens the event
+ * stream, the client posts its messages to /messages?sessionId=<id> announced
+ * on that stream
+ */
+const mountLegacySseRoutes = (
+  app: express.Express,
+  oauthMiddleware: RequestHandler,
+  config: HttpServerConfig,
+  deps: HttpServerDependencies
+) => {
+  const { logger, createServer, createClient } = deps;
+  const sseTransports: { [sessionId: string]: SSEServerTransport } = {};
+
+  app.get('/sse', oauthMiddleware, async (req: Request, res: Response) => {
+    const authData = req.authenticatedClient;
+    const authInfo = req.auth;
+    const ownerKey = ownerKeyOf(authInfo);
+    if (!authData?.apiKey || !authInfo || !ownerKey) {
+      res.status(401).json({ error: 'unauthorized', error_description: 'Missing authentication' });
+      return;
+    }
+
+    try {
+      // Each SSE connection gets its own server bound to the connecting user's client
+      const client = createClient(authData.apiKey, authData.twentyUrl);
+      const metadata = await tryLoadWorkspaceMetadata(client, logger);
+      const server = createServer(client, metadata);
+      const transport = new SSEServerTransport('/messages', res);
+      const sessionId = transport.sessionId;
+
+      const evicted = await sessionRegistry.evictForNewSession(ownerKey, config.sessionLimits);
+      if (evicted.length > 0) {
+        logger.info(`Closed ${evicted.length} session(s) of user ${authInfo.clientId} to stay within the per-user limit`);
+      }
+
+      sseTransports[sessionId] = transport;
+      sessionRegistry.register({
+        sessionId,
+        userId: authInfo.clientId,
+        ownerKey,
+        twentyUrl: authData.twentyUrl,
+        client,
+        transport: 'sse',
+        close: () => transport.close()
+      });
+
+      // Clean up when the client disconnects or the transport is closed by the sweeper
+      const cleanup = () => {
+        if (sseTransports[sessionId]) {
+          logger.info(`SSE connection closed for session ${sessionId}`);
+          delete sseTransports[sessionId];
+          sessionRegistry.remove(sessionId);
+        }
+      };
+      res.on('close', cleanup);
+      transport.onclose = cleanup;
+
+      logger.info(`SSE session established with ID: ${sessionId}`);
+      await server.connect(transport);
+    } catch (error) {
+      logger.error('Error establishing SSE stream:', error);
+      if (!res.headersSent) {
+        res.status(500).send('Error establishing SSE stream');
+      }
+    }
+  });
+
+  app.post('/messages', oauthMiddleware, async (req: Request, res: Response) => {
+    const sessionId = req.query.sessionId as string | undefined;
+    const transport = sessionId ? sseTransports[sessionId] : undefined;
+    if (!sessionId || !transport) {
+      res.status(400).send('Invalid or missing sessionId');
+      return;
+    }
+
+    // Only the credential that opened the stream may post to it
+    const authInfo = req.auth;
+    const session = sessionRegistry.get(sessionId);
+    if (!authInfo || !session || !isSessionOwner(req, sessionId)) {
+      logger.warn(`Rejected SSE message for session ${sessionId} from a different user`);
+      res.status(403).send('Forbidden: session belongs to a different user');
+      return;
+    }
+
+    sessionRegistry.touch(sessionId);
+    try {
+      await runWithRequestContext({ sessionId, authInfo, client: session.client }, () =>
+        transport.handlePostMessage(req, res, req.body)
+      );
+    } catch (error) {
+      logger.error('Error handling SSE message:', error);
+      if (!res.headersSent) {
+        res.status(500).send('Error handling message');
+      }
+    }
+  });
+
+  return sseTransports;
+};
+
+/**
+ * Create the HTTP server with OAuth, health/readiness, admin and the MCP
+ * transports selected in the config, all on one port
+ */
+export function createHttpServer(config: HttpServerConfig, deps: HttpServerDependencies): HttpServer {
+  const { logger, store, createClient } = deps;
+  const app = express();
+  app.use(express.json());
+  app.use(cors({
+    origin: true,
+    credentials: true,
+    methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'mcp-session-id', 'Last-Event-ID']
+  }));
+
+  // Initialize OAuth provider and middleware
+  const oauthProvider = new ApiKeyOAuthProvider(logger, store, {
+    twentyUrl: config.twentyUrl,
+    allowedTwentyUrls: config.allowedTwentyUrls,
+    sessionSecret: config.sessionSecret,
+    createClient
+  });
+  const oauthMiddleware = createOAuthMiddleware(oauthProvider);
+  app.use(createApiKeyOAuthRouter({
+    provider: oauthProvider,
+    issuerUrl: config.baseUrl,
+    baseUrl: config.baseUrl,
+    serviceDocumentationUrl: config.serviceDocumentationUrl
+  }));
+  app.use(createAdminRouter({ registry: sessionRegistry, adminToken: config.adminToken, logger }));
+
+  let shuttingDown = false;
+
+  // Liveness: the process is up and serving requests
+  app.get('/health', (req, res) => {
+    res.json({
+      status: 'healthy',
+      transports: { streamableHttp: config.streamableHttp, legacySse: config.legacySse },
+      sessions: sessionRegistry.counts(),
+      cache: getCacheStats()
+    });
+  });
+
+  // Readiness: accepting new sessions and the shared OAuth state is reachable
+  app.get('/ready', async (req, res) => {
+    if (shuttingDown) {
+      res.status(503).json({ status: 'shutting-down' });
+      return;
+    }
+    try {
+      await store.get('readiness-probe');
+      res.json({ status: 'ready' });
+    } catch (error) {
+      logger.warn('Readiness check failed:', error);
+      res.status(503).json({ status: 'unavailable', reason: 'OAuth state store unreachable' });
+    }
+  });
+
+  const transports = config.streamableHttp === 'stateful'
+    ? mountStatefulMcpRoutes(app, oauthMiddleware, config, deps)
+    : {};
+  if (config.streamableHttp === 'stateless') {
+    mountStatelessMcpRoutes(app, oauthMiddleware, config, deps);
+  }
+  const sseTransports = config.legacySse ? mountLegacySseRoutes(app, oauthMiddleware, config, deps) : {};
+
+  let httpServer: Server | undefined;
+  let sweeper: NodeJS.Timeout | undefined;
+
+  const listen = () => new Promise<Server>((resolve) => {
+    // Periodically close expired sessions (abandoned clients never send DELETE)
+    if (config.streamableHttp === 'stateful' || config.legacySse) {
+      sweeper = setInterval(async () => {
+        const expired = await sessionRegistry.sweep(config.sessionLimits);
+        if (expired.length > 0) {
+          logger.info(`Closed ${expired.length} expired session(s)`, { sessionIds: expired });
+        }
+      }, SESSION_SWEEP_INTERVAL_MS);
+      sweeper.unref();
+    }
+
+    httpServer = app.listen(config.port, () => {
+      const base = `http://localhost:${config.port}`;
+      logger.info(`Twenty CRM MCP Server listening on port ${config.port}`);
+      logger.info('OAuth enabled with API Key authentication');
+      logger.info('Session limits:', config.sessionLimits);
+      logger.info('Endpoints:');
+      if (config.streamableHttp === 'stateful') {
+        logger.info(`  - MCP: POST/GET/DELETE ${base}/mcp`);
+      } else if (config.streamableHttp === 'stateless') {
+        logger.info(`  - MCP (stateless): POST ${base}/mcp`);
+      }
+      if (config.legacySse) {
+        logger.info(`  - SSE (legacy): GET ${base}/sse, POST ${base}/messages?sessionId=<id>`);
+      }
+      logger.info(`  - OAuth Metadata: GET ${base}/.well-known/oauth-protected-resource`);
+      logger.info(`  - OAuth Register: POST ${base}/oauth/register`);
+      logger.info(`  - OAuth Authorize: GET ${base}/oauth/authorize`);
+      logger.info(`  - OAuth Token: POST ${base}/oauth/token`);
+      logger.info(`  - Health check: GET ${base}/health, readiness: GET ${base}/ready`);
+      logger.info(`  - Admin sessions: GET ${base}/admin/sessions${config.adminToken ? '' : ' (disabled, set ADMIN_TOKEN)'}`);
+      resolve(httpServer!);
+    });
+  });
+
+  // Stop accepting connections and close all open sessions
+  const close = async () => {
+    shuttingDown = true;
+    if (sweeper) clearInterval(sweeper);
+
+    const open: Array<[string, { close(): Promise<void> }]> = [...Object.entries(transports), ...Object.entries(sseTransports)];
+    for (const [sessionId, transport] of open) {
+      try {
+        logger.info(`Closing transport for session ${sessionId}`);
+        await transport.close();
+      } catch (error) {
+        logger.error(`Error closing transport for session ${sessionId}:`, error);
+      }
+    }
+
+    if (httpServer) {
+      await new Promise<void>(resolve => {
+        httpServer!.close(() => resolve());
+        httpServer!.closeAllConnections();
+      });
+    }
+    await store.close();
+  };
+
+  return { app, listen, close };
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { IdleEvictingMap } from './idle-evicting-map.js';
+
+describe('IdleEvictingMap', () => {
+  it('drops entries not used within the idle time on a later access', () => {
+    const map = new IdleEvictingMap<string>({ idleMs: 1000, now: 0 });
+    map.set('idle', 'a', 0);
+    map.set('used', 'b', 0);
+
+    expect(map.get('used', 800)).toBe('b');
+    expect(map.get('idle', 1000)).toBeUndefined();
+    expect(map.get('used', 1000)).toBe('b');
+    expect(map.size).toBe(1);
+  });
+
+  it('creates entries on first use only', () => {
+    const map = new IdleEvictingMap<{ count: number }>({ now: 0 });
+    map.acquire('key', () => ({ count: 0 }), 0).count++;
+    map.acquire('key', () => ({ count: 0 }), 1).count++;
+
+    expect(map.get('key', 2)).toEqual({ count: 2 });
+  });
+
+  it('keeps idle entries until they are at rest', () => {
+    const map = new IdleEvictingMap<{ busyUntil: number }>({ idleMs: 1000, isAtRest: (value, now) => now >= value.busyUntil, now: 0 });
+    map.set('busy', { busyUntil: 5000 }, 0);
+
+    map.sweep(2000);
+    expect(map.size).toBe(1);
+    map.sweep(5000);
+    expect(map.size).toBe(0);
+  });
+});
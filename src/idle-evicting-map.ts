@@ -0,0 +1,75 @@
+// Per-key state unused for this long is dropped (once it is at rest)
+export const DEFAULT_IDLE_EVICTION_MS = 10 * 60 * 1000;
+
+export interface IdleEvictingMapOptions<V> {
+  idleMs?: number;
+  // Idle entries that still matter (e.g. an open circuit breaker) are kept until this holds
+  isAtRest?: (value: V, now: number) => boolean;
+  // Start of the first sweep interval, for tests
+  now?: number;
+}
+
+/**
+ * Map of per-key state (usually per workspace key) that drops entries not
+ * used for idleMs, so multi-tenant servers do not keep state for every
+ * credential they ever saw. Sweeps run at most once per idleMs on access.
+ * Callers look entries up per use, so an evicted entry is never used again.
+ */
+export class IdleEvictingMap<V> {
+  private entries = new Map<string, { value: V; lastUsed: number }>();
+  private lastSweep: number;
+  private idleMs: number;
+  private isAtRest: (value: V, now: number) => boolean;
+
+  constructor(options: IdleEvictingMapOptions<V> = {}) {
+    this.idleMs = options.idleMs ?? DEFAULT_IDLE_EVICTION_MS;
+    this.isAtRest = options.isAtRest ?? (() => true);
+    this.lastSweep = options.now ?? Date.now();
+  }
+
+  private maybeSweep(now: number): void {
+    if (now - this.lastSweep >= this.idleMs) this.sweep(now);
+  }
+
+  get(key: string, now: number = Date.now()): V | undefined {
+    this.maybeSweep(now);
+    const entry = this.entries.get(key);
+    if (entry) entry.lastUsed = now;
+    return entry?.value;
+  }
+
+  set(key: string, value: V, now: number = Date.now()): void {
+    this.maybeSweep(now);
+    this.entries.set(key, { value, lastUsed: now });
+  }
+
+  /**
+   * Entry of a key, created on first use
+   */
+  acquire(key: string, create: () => V, now: number = Date.now()): V {
+    const existing = this.get(key, now);
+    if (existing !== undefined) return existing;
+    const value = create();
+    this.entries.set(key, { value, lastUsed: now });
+    return value;
+  }
+
+  delete(key: string): boolean {
+    return this.entries.delete(key);
+  }
+
+  values(): V[] {
+    return [...this.entries.values()].map(entry => entry.value);
+  }
+
+  sweep(now: number = Date.now()): void {
+    this.lastSweep = now;
+    for (const [key, entry] of this.entries) {
+      if (now - entry.lastUsed >= this.idleMs && this.isAtRest(entry.value, now)) this.entries.delete(key);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -1,16 +1,9 @@
-import express, { Request, Response } from 'express';
-import { randomUUID } from 'node:crypto';
 import { z } from 'zod';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
-import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
-import dotenv from 'dotenv';
 import winston from 'winston';
-import cors from 'cors';
 
-import { TwentyCRMClient } from './twenty-client.js';
+import { TwentyCRMClient, TwentyClientFactory } from './twenty-client.js';
 import { PostgresClient } from './postgres-client.js';
 import { registerPeopleTools } from './tools/people.js';
 import { registerCompanyTools } from './tools/companies.js';
@@ -18,24 +11,37 @@ import { registerTaskTools } from './tools/tasks.js';
 import { registerTaskTargetTools } from './tools/task-targets.js';
 import { registerNotesTools } from './tools/notes.js';
 import { registerNoteTargetTools } from './tools/note-targets.js';
+import { registerOpportunityTools } from './tools/opportunities.js';
+import { registerMetadataTools } from './tools/metadata.js';
+import { registerRecordTools } from './tools/records.js';
+import { registerSearchTools } from './tools/search.js';
+import { registerTimelineTools } from './tools/timeline.js';
+import { registerWorkspaceMemberTools } from './tools/workspace-members.js';
 import { registerUserManagementTools } from './tools/user-management.js';
 import { setupPromptHandlers } from './handlers.js';
-import { ApiKeyOAuthProvider, createOAuthMiddleware } from './auth/api-key-oauth-provider.js';
-import { createApiKeyOAuthRouter } from './auth/api-key-oauth-router.js';
+import { WorkspaceMetadata, tryLoadWorkspaceMetadata } from './metadata.js';
+import { ClientContext, getRequestContext, ownerKeyOf } from './auth/request-context.js';
+import { sessionRegistry } from './session-registry.js';
+import { createEventStore } from './event-store.js';
+import { createKeyValueStore } from './storage.js';
+import { createHttpServer, httpServerConfigFrom } from './http-server.js';
+import { AppConfig, loadConfig, redactConfig } from './config.js';
 
-// Load environment variables from .env.local and .env files
-dotenv.config({ path: '.env.local' });
-dotenv.config();
-
-// Transport type
-type TransportType = 'stdio' | 'sse' | 'streamable-http';
+// Load and validate the configuration (environment, .env.local, .env and CONFIG_FILE);
+// the transport can be given as first CLI argument
+let config: AppConfig;
+try {
+  config = loadConfig({ transport: process.argv[2] });
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
 
-// Determine transport from CLI args
-const transport: TransportType = (process.argv[2] as TransportType) || 'stdio';
+const transport = config.transport;
 
 // Logger setup - nur für HTTP-Modi, nicht für stdio
 const logger = winston.createLogger({
-  level: process.env.LOG_LEVEL || 'info',
+  level: config.logLevel,
   format: winston.format.combine(
     winston.format.timestamp(),
     winston.format.errors({ stack: true }),
@@ -49,19 +55,34 @@ const logger = winston.createLogger({
   ]
 });
 
-// Session management for per-session authentication
-const sessions = new Map<string, { apiKey: string; client: TwentyCRMClient; userId?: string }>();
-
-// Global authenticated client for Bearer token auth
-let globalAuthenticatedClient: TwentyCRMClient | null = null;
-
-// Request-scoped authentication for streamable-http
-let currentRequestClient: TwentyCRMClient | null = null;
+// Twenty clients share the configured timeout, retry, rate limit and circuit breaker settings
+const createClient: TwentyClientFactory = (apiKey, baseURL) => new TwentyCRMClient(apiKey, logger, baseURL, {
+  timeoutMs: config.twenty.timeoutMs,
+  resilience: {
+    retry: {
+      maxRetries: config.twenty.retry.maxRetries,
+      baseDelayMs: config.twenty.retry.baseDelayMs,
+      maxDelayMs: config.twenty.retry.maxDelayMs,
+      maxRetryAfterMs: config.twenty.retry.maxRetryAfterSeconds * 1000
+    },
+    rateLimit: config.twenty.rateLimit,
+    circuitBreaker: {
+      failureThreshold: config.twenty.circuitBreaker.failureThreshold,
+      resetTimeoutMs: config.twenty.circuitBreaker.resetSeconds * 1000
+    }
+  },
+  cache: {
+    ttlMs: config.twenty.cache.ttlSeconds * 1000,
+    maxEntries: config.twenty.cache.maxEntries
+  },
+  // The configured member only belongs to the configured key, not to keys of other users
+  workspaceMemberId: apiKey === config.twenty.apiKey ? config.twenty.workspaceMemberId : undefined
+});
 
 // Initialize PostgreSQL client
 let postgresClient: PostgresClient | null = null;
-if (process.env.POSTGRES_CONNECTION_STRING) {
-  postgresClient = new PostgresClient(process.env.POSTGRES_CONNECTION_STRING, logger);
+if (config.postgres.connectionString) {
+  postgresClient = new PostgresClient(config.postgres.connectionString, logger);
 }
 
 // Helper to get PostgreSQL client (global function)
@@ -73,7 +94,7 @@ const getPostgresClient = (): PostgresClient => {
 };
 
 // Create and configure MCP server
-const createServer = (authenticatedClient?: TwentyCRMClient) => {
+const createServer = (authenticatedClient?: TwentyCRMClient, metadata?: WorkspaceMetadata) => {
   const server = new McpServer({
     name: 'twenty-crm-mcp',
     version: '1.0.0'
@@ -99,7 +120,7 @@ const createServer = (authenticatedClient?: TwentyCRMClient) => {
           name: 'twenty-crm-mcp',
           version: '1.0.0',
           transport,
-          capabilities: ['people', 'companies', 'tasks', 'task-targets', 'notes', 'note-targets', 'user-management', 'prompts', 'resources'],
+          capabilities: ['people', 'companies', 'tasks', 'task-targets', 'notes', 'note-targets', 'opportunities', 'metadata', 'records', 'search', 'timeline', 'workspace-members', 'user-management', 'prompts', 'resources'],
           multiUser: true,
           requiresAuthentication: true,
           authMethods: ['api-key-tool', 'oauth-bearer'],
@@ -115,61 +136,56 @@ const createServer = (authenticatedClient?: TwentyCRMClient) => {
     })
   );
 
-  // Helper to get client
-  const getClient = (sessionId: string = 'default'): TwentyCRMClient => {
-    logger.debug(`getClient called with sessionId: ${sessionId}`, {
-      hasAuthenticatedClient: !!authenticatedClient,
-      hasCurrentRequestClient: !!currentRequestClient,
-      sessionsCount: sessions.size,
-      sessionExists: sessions.has(sessionId)
-    });
+  // Helper to get client, tool handlers pass their `extra` (MCP session id and auth info)
+  const getClient = (context: ClientContext = {}): TwentyCRMClient => {
+    const { sessionId, authInfo } = context;
+    if (sessionId) {
+      sessionRegistry.touch(sessionId);
+    }
     
-    // Try authenticated client first (Bearer token pre-auth)
+    // Pre-authenticated client of a single-user server (stdio, one SSE connection)
     if (authenticatedClient) {
       logger.debug('Using pre-authenticated client');
       return authenticatedClient;
     }
     
-    // Try current request client (for streamable-http OAuth)
-    if (currentRequestClient) {
-      logger.debug('Using current request client');
-      return currentRequestClient;
+    // The transport's session and token must match the context bound by the HTTP handler
+    const requestContext = getRequestContext();
+    if (!requestContext || !sessionId || !authInfo) {
+      logger.error(`No authentication context for tool call`, { sessionId, hasAuthInfo: !!authInfo });
+      throw new Error('Not authenticated: this request cannot be attributed to an authenticated session. Please use Bearer token authentication.');
     }
     
-    // Then try session-based client
-    const session = sessions.get(sessionId);
-    if (session) {
-      logger.debug(`Using session-based client for session: ${sessionId}`);
-      return session.client;
+    const session = sessionRegistry.get(sessionId);
+    const ownerKey = ownerKeyOf(authInfo);
+    if (!ownerKey || requestContext.sessionId !== sessionId || ownerKeyOf(requestContext.authInfo) !== ownerKey
+      || (session && session.ownerKey !== ownerKey)) {
+      logger.error(`Authentication context mismatch for session ${sessionId}`);
+      throw new Error('Not authenticated: session and authentication do not match.');
     }
     
-    // Try to find any session with a client (fallback)
-    for (const [sid, sessionData] of sessions.entries()) {
-      logger.debug(`Found session ${sid} with client`);
-      return sessionData.client;
-    }
-    
-    logger.error(`No authentication found`, {
-      sessionId,
-      sessionsAvailable: Array.from(sessions.keys()),
-      hasCurrentRequestClient: !!currentRequestClient,
-      hasAuthenticatedClient: !!authenticatedClient
-    });
-    
-    throw new Error(`Not authenticated. Please use Bearer token authentication or the authenticate tool first. Session: ${sessionId}`);
+    logger.debug(`Using client of session: ${sessionId}`);
+    return session?.client ?? requestContext.client;
   };
 
   // Register all tool categories
-  registerPeopleTools(server, getClient, logger);
-  registerCompanyTools(server, getClient, logger);
+  // People and company schemas adapt to the custom fields of the session's workspace
+  registerPeopleTools(server, getClient, logger, metadata);
+  registerCompanyTools(server, getClient, logger, metadata);
   registerTaskTools(server, getClient, logger);
   registerTaskTargetTools(server, getClient, logger);
   registerNotesTools(server, getClient, logger);
   registerNoteTargetTools(server, getClient, logger);
+  registerOpportunityTools(server, getClient, logger);
+  registerMetadataTools(server, getClient, logger);
+  registerRecordTools(server, getClient, logger);
+  registerSearchTools(server, getClient, logger);
+  registerTimelineTools(server, getClient, logger);
+  registerWorkspaceMemberTools(server, getClient, logger);
   
   // Register PostgreSQL user management tools if configured
   if (postgresClient) {
-    registerUserManagementTools(server, getPostgresClient, logger);
+    registerUserManagementTools(server, getPostgresClient, logger, config.mailersend.apiKey);
   }
 
   // Register prompt and resource handlers
@@ -178,11 +194,10 @@ const createServer = (authenticatedClient?: TwentyCRMClient) => {
   return server;
 };
 
-const MCP_PORT = parseInt(process.env.PORT || '3000');
-
 // Main function based on transport
 async function main() {
   logger.info(`Starting Twenty CRM MCP Server with ${transport} transport`);
+  logger.info('Effective configuration:', redactConfig(config));
   
   // Connect to PostgreSQL if configured
   if (postgresClient) {
@@ -198,11 +213,11 @@ async function main() {
 
   if (transport === 'stdio') {
     // STDIO transport
-    const apiKey = process.env.TWENTY_API_KEY;
+    const apiKey = config.twenty.apiKey;
     let authenticatedClient: TwentyCRMClient | undefined;
     
     if (apiKey) {
-      authenticatedClient = new TwentyCRMClient(apiKey, logger);
+      authenticatedClient = createClient(apiKey, config.twenty.url);
       try {
         await authenticatedClient.testConnection();
         logger.info('Pre-authenticated with API key from environment');
@@ -212,275 +227,44 @@ async function main() {
       }
     }
     
-    const server = createServer(authenticatedClient);
+    const metadata = authenticatedClient ? await tryLoadWorkspaceMetadata(authenticatedClient, logger) : undefined;
+    const server = createServer(authenticatedClient, metadata);
     const transport = new StdioServerTransport();
     
     await server.connect(transport);
     logger.info('Twenty CRM MCP Server running on stdio');
     
-     } else if (transport === 'sse') {
-     // SSE transport
-     const app = express();
-     app.use(express.json());
-     app.use(cors({
-       origin: true,
-       credentials: true,
-       methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
-       allowedHeaders: ['Content-Type', 'Authorization', 'mcp-session-id']
-     }));
-     
-     // Initialize OAuth provider and middleware
-     const oauthProvider = new ApiKeyOAuthProvider(logger);
-     const oauthMiddleware = createOAuthMiddleware(oauthProvider);
-     
-     // Setup OAuth routes
-     const baseUrl = new URL(process.env.BASE_URL || `http://localhost:${MCP_PORT}`);
-     const oauthRouter = createApiKeyOAuthRouter({
-       provider: oauthProvider,
-       issuerUrl: baseUrl,
-       baseUrl,
-       serviceDocumentationUrl: new URL('https://docs.twenty.com/mcp')
-     });
-    app.use(oauthRouter);
-    
-    // Health check endpoint
-    app.get('/health', (req, res) => {
-      res.json({ status: 'healthy', transport: 'sse' });
-    });
-    
-         // SSE endpoint with OAuth middleware
-     app.get('/sse', oauthMiddleware, async (req: Request, res: Response) => {
-       // Create authenticated client from OAuth middleware result
-       let authenticatedClient: TwentyCRMClient | undefined;
-       const authData = (req as any).authenticatedClient;
-       if (authData?.apiKey) {
-         authenticatedClient = new TwentyCRMClient(authData.apiKey, logger);
-       }
-       
-       const server = createServer(authenticatedClient);
-       const transport = new SSEServerTransport('/sse', res);
-       
-       await server.connect(transport);
-     });
-    
-    app.listen(MCP_PORT, () => {
-      logger.info(`Twenty CRM MCP Server listening on port ${MCP_PORT}`);
-      logger.info('OAuth enabled with API Key authentication');
-      logger.info('Endpoints:');
-      logger.info(`  - SSE: GET http://localhost:${MCP_PORT}/sse`);
-      logger.info(`  - OAuth Metadata: GET http://localhost:${MCP_PORT}/.well-known/oauth-protected-resource`);
-      logger.info(`  - OAuth Register: POST http://localhost:${MCP_PORT}/oauth/register`);
-      logger.info(`  - OAuth Authorize: GET http://localhost:${MCP_PORT}/oauth/authorize`);
-      logger.info(`  - OAuth Token: POST http://localhost:${MCP_PORT}/oauth/token`);
-      logger.info(`  - Health check: GET http://localhost:${MCP_PORT}/health`);
-    });
-    
-     } else if (transport === 'streamable-http') {
-     // Streamable HTTP transport (nach SDK-Pattern)
-     const app = express();
-     app.use(express.json());
-     app.use(cors({
-       origin: true,
-       credentials: true,
-       methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
-       allowedHeaders: ['Content-Type', 'Authorization', 'mcp-session-id', 'Last-Event-ID']
-     }));
-     
-     // Initialize OAuth provider and middleware
-     const oauthProvider = new ApiKeyOAuthProvider(logger);
-     const oauthMiddleware = createOAuthMiddleware(oauthProvider);
-     
-     // Setup OAuth routes
-     const baseUrl = new URL(process.env.BASE_URL || `http://localhost:${MCP_PORT}`);
-     const oauthRouter = createApiKeyOAuthRouter({
-       provider: oauthProvider,
-       issuerUrl: baseUrl,
-       baseUrl,
-       serviceDocumentationUrl: new URL('https://docs.twenty.com/mcp')
-     });
-    app.use(oauthRouter);
-    
-    // Health check endpoint
-    app.get('/health', (req, res) => {
-      res.json({ status: 'healthy', transport: 'streamable-http' });
-    });
-    
-    // Map to store transports by session ID (nach SDK-Pattern)
-    const transports: { [sessionId: string]: StreamableHTTPServerTransport } = {};
-    
-              // MCP POST endpoint with OAuth middleware
-     const mcpPostHandler = async (req: Request, res: Response) => {
-       const sessionId = req.headers['mcp-session-id'] as string | undefined;
-       logger.info(sessionId ? `Received POST request to /mcp` : 'Received POST request to /mcp');
-       
-       // Store OAuth authentication in session for reuse
-       const authData = (req as any).authenticatedClient;
-       if (authData?.apiKey && sessionId) {
-         // Store the API key in the sessions map so getClient() can find it
-         const client = new TwentyCRMClient(authData.apiKey, logger);
-         sessions.set(sessionId, { 
-           apiKey: authData.apiKey, 
-           client, 
-           userId: (req as any).userId 
-         });
-         // Set as current request client for this request
-         currentRequestClient = client;
-         logger.info(`OAuth authentication successful for session ${sessionId}`);
-       }
-       
-       try {
-         let transport: StreamableHTTPServerTransport;
-         
-         if (sessionId && transports[sessionId]) {
-           // Reuse existing transport
-           transport = transports[sessionId];
-         } else if (!sessionId && isInitializeRequest(req.body)) {
-           // New initialization request
-           transport = new StreamableHTTPServerTransport({
-             sessionIdGenerator: () => randomUUID(),
-             onsessioninitialized: (sessionId) => {
-               logger.info(`Session initialized with ID: ${sessionId}`);
-               transports[sessionId] = transport;
-               
-               // Store OAuth auth for the new session if available
-               if (authData?.apiKey) {
-                 const client = new TwentyCRMClient(authData.apiKey, logger);
-                 sessions.set(sessionId, { 
-                   apiKey: authData.apiKey, 
-                   client, 
-                   userId: (req as any).userId 
-                 });
-                 // Set as current request client for this request
-                 currentRequestClient = client;
-                 logger.info(`OAuth authentication successful for new session ${sessionId}`);
-               }
-             }
-           });
-           
-           // Set up onclose handler to clean up transport
-           transport.onclose = () => {
-             const sid = transport.sessionId;
-             if (sid && transports[sid]) {
-               logger.info(`Transport closed for session ${sid}, removing from transports map`);
-               delete transports[sid];
-               sessions.delete(sid);
-             }
-           };
-           
-           // Connect the transport to the MCP server
-           const server = createServer();
-           await server.connect(transport);
-           
-           await transport.handleRequest(req, res, req.body);
-           return;
-         } else {
-           // Invalid request
-           res.status(400).json({
-             jsonrpc: '2.0',
-             error: {
-               code: -32000,
-               message: 'Bad Request: No valid session ID provided',
-             },
-             id: null,
-           });
-           return;
-         }
-         
-                  // Handle the request with existing transport
-         await transport.handleRequest(req, res, req.body);
-       } catch (error) {
-         logger.error('Error handling MCP request:', error);
-         if (!res.headersSent) {
-           res.status(500).json({
-             jsonrpc: '2.0',
-             error: {
-               code: -32603,
-               message: 'Internal server error',
-             },
-             id: null,
-           });
-         }
-       } finally {
-         // Reset current request client after each request
-         currentRequestClient = null;
-       }
-     };
-    
-    // MCP GET endpoint for SSE streams
-    const mcpGetHandler = async (req: Request, res: Response) => {
-      const sessionId = req.headers['mcp-session-id'] as string | undefined;
-      if (!sessionId || !transports[sessionId]) {
-        res.status(400).send('Invalid or missing session ID');
-        return;
-      }
-      
-      // Check for Last-Event-ID header for resumability
-      const lastEventId = req.headers['last-event-id'] as string | undefined;
-      if (lastEventId) {
-        logger.info(`Client reconnecting with Last-Event-ID: ${lastEventId}`);
-      } else {
-        logger.info(`Establishing new SSE stream for session ${sessionId}`);
-      }
-      
-      const transport = transports[sessionId];
-      await transport.handleRequest(req, res);
-    };
-    
-    // MCP DELETE endpoint for session termination
-    const mcpDeleteHandler = async (req: Request, res: Response) => {
-      const sessionId = req.headers['mcp-session-id'] as string | undefined;
-      if (!sessionId || !transports[sessionId]) {
-        res.status(400).send('Invalid or missing session ID');
-        return;
-      }
-      
-      logger.info(`Received DELETE request to /mcp`);
-      
-      try {
-        const transport = transports[sessionId];
-        await transport.handleRequest(req, res);
-      } catch (error) {
-        logger.error('Error handling session termination:', error);
-        if (!res.headersSent) {
-          res.status(500).send('Error processing session termination');
-        }
-      }
-    };
+  } else {
+    // HTTP transports: one server with OAuth, health/readiness, admin and the MCP endpoints
+    const httpConfig = httpServerConfigFrom(config);
     
-    // Setup routes with OAuth middleware
-    app.post('/mcp', oauthMiddleware, mcpPostHandler);
-    app.get('/mcp', oauthMiddleware, mcpGetHandler);
-    app.delete('/mcp', oauthMiddleware, mcpDeleteHandler);
+    // OAuth state must be shared between instances, otherwise codes issued by one instance fail on another
+    if (httpConfig.streamableHttp === 'stateless' && !config.redis.url) {
+      logger.warn('REDIS_URL not set: OAuth state is kept in memory and not shared between instances');
+    }
+    if (config.nodeEnv === 'production' && !config.sessionSecret) {
+      logger.warn('SESSION_SECRET not set: OAuth tokens are stored under unkeyed hashes and stored API keys can only be read by this instance');
+    }
     
-    app.listen(MCP_PORT, () => {
-      logger.info(`Twenty CRM MCP Server listening on port ${MCP_PORT}`);
-      logger.info('OAuth enabled with API Key authentication');
-      logger.info('Endpoints:');
-      logger.info(`  - MCP: POST/GET/DELETE http://localhost:${MCP_PORT}/mcp`);
-      logger.info(`  - OAuth Metadata: GET http://localhost:${MCP_PORT}/.well-known/oauth-protected-resource`);
-      logger.info(`  - OAuth Register: POST http://localhost:${MCP_PORT}/oauth/register`);
-      logger.info(`  - OAuth Authorize: GET http://localhost:${MCP_PORT}/oauth/authorize`);
-      logger.info(`  - OAuth Token: POST http://localhost:${MCP_PORT}/oauth/token`);
-      logger.info(`  - Health check: GET http://localhost:${MCP_PORT}/health`);
+    const httpServer = createHttpServer(httpConfig, {
+      logger,
+      createServer,
+      createClient,
+      store: createKeyValueStore(config.redis, logger),
+      // Event store for resumable streams (replay after reconnect with Last-Event-ID)
+      eventStore: httpConfig.streamableHttp === 'stateful' ? createEventStore(config.eventStore, logger) : undefined
     });
+    await httpServer.listen();
     
     // Handle server shutdown
-    process.on('SIGINT', async () => {
+    const shutdown = async () => {
       logger.info('Shutting down Twenty CRM MCP Server...');
-      
-      // Close all active transports
-      for (const sessionId in transports) {
-        try {
-          logger.info(`Closing transport for session ${sessionId}`);
-          await transports[sessionId].close();
-          delete transports[sessionId];
-        } catch (error) {
-          logger.error(`Error closing transport for session ${sessionId}:`, error);
-        }
-      }
+      await httpServer.close();
       logger.info('Server shutdown complete');
       process.exit(0);
-    });
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
   }
 }
 
@@ -0,0 +1,377 @@
+import { Logger } from 'winston';
+import { z } from 'zod';
+import { TwentyCRMClient } from './twenty-client.js';
+import { IdleEvictingMap } from './idle-evicting-map.js';
+
+export interface FieldOption {
+  value: string;
+  label: string;
+  position?: number;
+  color?: string;
+}
+
+export interface FieldMetadata {
+  id?: string;
+  name: string;
+  label: string;
+  type: string;
+  description?: string;
+  isNullable?: boolean;
+  isCustom?: boolean;
+  isActive?: boolean;
+  isSystem?: boolean;
+  defaultValue?: any;
+  options?: FieldOption[];
+  relation?: {
+    type?: string;
+    targetObject?: string;
+  };
+}
+
+export interface ObjectMetadata {
+  id?: string;
+  nameSingular: string;
+  namePlural: string;
+  labelSingular: string;
+  labelPlural: string;
+  description?: string;
+  isCustom?: boolean;
+  isActive?: boolean;
+  isSystem?: boolean;
+  fields: FieldMetadata[];
+}
+
+export interface WorkspaceMetadata {
+  objects: ObjectMetadata[];
+  loadedAt: Date;
+}
+
+// Metadata changes rarely, reload at most every 10 minutes per workspace
+const METADATA_TTL_MS = 10 * 60 * 1000;
+
+// Metadata cache per workspace (keyed by TwentyCRMClient.workspaceKey); workspaces
+// idle for longer than the TTL would reload anyway, so they are dropped
+const metadataCache = new IdleEvictingMap<WorkspaceMetadata>({ idleMs: METADATA_TTL_MS });
+const pendingLoads = new Map<string, Promise<WorkspaceMetadata>>();
+
+// The metadata API returns fields either as plain array or as GraphQL-style connection
+const extractFields = (object: any): any[] => {
+  if (Array.isArray(object.fields)) return object.fields;
+  if (Array.isArray(object.fieldsList)) return object.fieldsList;
+  if (Array.isArray(object.fields?.edges)) return object.fields.edges.map((edge: any) => edge.node);
+  return [];
+};
+
+const normalizeField = (field: any): FieldMetadata => ({
+  id: field.id,
+  name: field.name,
+  label: field.label || field.name,
+  type: field.type,
+  description: field.description || undefined,
+  isNullable: field.isNullable,
+  isCustom: field.isCustom,
+  isActive: field.isActive,
+  isSystem: field.isSystem,
+  defaultValue: field.defaultValue,
+  options: Array.isArray(field.options)
+    ? field.options
+        .map((option: any) => ({
+          value: option.value,
+          label: option.label || option.value,
+          position: option.position,
+          color: option.color
+        }))
+        .sort((a: FieldOption, b: FieldOption) => (a.position ?? 0) - (b.position ?? 0))
+    : undefined,
+  relation: field.relationDefinition || field.relation
+    ? {
+        type: field.relationDefinition?.direction || field.relation?.type,
+        targetObject: field.relationDefinition?.targetObjectMetadata?.nameSingular || field.relation?.targetObjectMetadata?.nameSingular
+      }
+    : undefined
+});
+
+const normalizeObject = (object: any): ObjectMetadata => ({
+  id: object.id,
+  nameSingular: object.nameSingular,
+  namePlural: object.namePlural,
+  labelSingular: object.labelSingular || object.nameSingular,
+  labelPlural: object.labelPlural || object.namePlural,
+  description: object.description || undefined,
+  isCustom: object.isCustom,
+  isActive: object.isActive,
+  isSystem: object.isSystem,
+  fields: extractFields(object).map(normalizeField)
+});
+
+/**
+ * Load objects, fields and select options of the client's workspace.
+ * Results are cached per workspace; concurrent callers share one request.
+ */
+export async function loadWorkspaceMetadata(
+  client: TwentyCRMClient,
+  logger: Logger,
+  options: { refresh?: boolean } = {}
+): Promise<WorkspaceMetadata> {
+  const key = client.workspaceKey;
+  const cached = metadataCache.get(key);
+  if (!options.refresh && cached && Date.now() - cached.loadedAt.getTime() < METADATA_TTL_MS) {
+    return cached;
+  }
+
+  const pending = pendingLoads.get(key);
+  if (pending) {
+    return pending;
+  }
+
+  const load = (async () => {
+    logger.info(`Loading workspace metadata for workspace ${key}`);
+    const response = await client.findManyObjectMetadata();
+    const objects = (response.data?.objects || []).map(normalizeObject);
+    const metadata: WorkspaceMetadata = { objects, loadedAt: new Date() };
+    metadataCache.set(key, metadata);
+    logger.info(`Loaded metadata for ${objects.length} objects in workspace ${key}`);
+    return metadata;
+  })();
+
+  pendingLoads.set(key, load);
+  try {
+    return await load;
+  } finally {
+    pendingLoads.delete(key);
+  }
+}
+
+/**
+ * Load workspace metadata, returning undefined instead of failing so that
+ * callers can fall back to static behaviour
+ */
+export async function tryLoadWorkspaceMetadata(client: TwentyCRMClient, logger: Logger): Promise<WorkspaceMetadata | undefined> {
+  try {
+    return await loadWorkspaceMetadata(client, logger);
+  } catch (error) {
+    logger.warn('Failed to load workspace metadata, continuing with standard fields only:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Find an object by singular or plural API name (case-insensitive)
+ */
+export function findObjectMetadata(metadata: WorkspaceMetadata, name: string): ObjectMetadata | undefined {
+  const needle = name.toLowerCase();
+  return metadata.objects.find(object =>
+    object.nameSingular?.toLowerCase() === needle || object.namePlural?.toLowerCase() === needle
+  );
+}
+
+/**
+ * Drop cached metadata of a workspace (e.g. after schema changes)
+ */
+export function invalidateWorkspaceMetadata(client: TwentyCRMClient): void {
+  metadataCache.delete(client.workspaceKey);
+}
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * Response keys Twenty uses for an object's REST payloads
+ */
+export function getRecordResponseKeys(object: ObjectMetadata) {
+  const singular = capitalize(object.nameSingular);
+  const plural = capitalize(object.namePlural);
+  return {
+    list: object.namePlural,
+    get: object.nameSingular,
+    create: `create${singular}`,
+    createMany: `create${plural}`,
+    update: `update${singular}`,
+    delete: `delete${singular}`
+  };
+}
+
+/**
+ * Validate a record payload against the object's field metadata.
+ * Returns a list of human-readable problems (empty if valid).
+ */
+export function validateRecordData(
+  object: ObjectMetadata,
+  data: Record<string, any>,
+  options: { partial?: boolean } = {}
+): string[] {
+  const errors: string[] = [];
+  const fieldsByName = new Map(object.fields.map(field => [field.name, field]));
+
+  for (const [key, value] of Object.entries(data)) {
+    const field = fieldsByName.get(key);
+
+    // Relation foreign keys are written as <relationName>Id
+    if (!field && key.endsWith('Id')) {
+      const relationField = fieldsByName.get(key.slice(0, -2));
+      if (relationField?.type === 'RELATION') {
+        if (value !== null && typeof value !== 'string') {
+          errors.push(`${key}: expected a UUID string or null`);
+        }
+        continue;
+      }
+    }
+
+    if (!field) {
+      errors.push(`${key}: unknown field on ${object.nameSingular}`);
+      continue;
+    }
+    if (field.isActive === false) {
+      errors.push(`${key}: field is inactive`);
+      continue;
+    }
+    if (value === null) {
+      if (field.isNullable === false) errors.push(`${key}: field is not nullable`);
+      continue;
+    }
+
+    switch (field.type) {
+      case 'SELECT':
+      case 'RATING':
+        if (field.options && !field.options.some(option => option.value === value)) {
+          errors.push(`${key}: invalid option "${value}" (allowed: ${field.options.map(option => option.value).join(', ')})`);
+        }
+        break;
+      case 'MULTI_SELECT':
+        if (!Array.isArray(value)) {
+          errors.push(`${key}: expected an array of options`);
+        } else if (field.options) {
+          const allowed = field.options;
+          const invalid = value.filter(item => !allowed.some(option => option.value === item));
+          if (invalid.length > 0) {
+            errors.push(`${key}: invalid options ${invalid.map(item => `"${item}"`).join(', ')} (allowed: ${field.options.map(option => option.value).join(', ')})`);
+          }
+        }
+        break;
+      case 'NUMBER':
+      case 'NUMERIC':
+      case 'POSITION':
+        if (typeof value !== 'number') errors.push(`${key}: expected a number`);
+        break;
+      case 'BOOLEAN':
+        if (typeof value !== 'boolean') errors.push(`${key}: expected a boolean`);
+        break;
+      case 'TEXT':
+      case 'UUID':
+        if (typeof value !== 'string') errors.push(`${key}: expected a string`);
+        break;
+      case 'DATE':
+      case 'DATE_TIME':
+        if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+          errors.push(`${key}: expected an ISO 8601 date string`);
+        }
+        break;
+      case 'FULL_NAME':
+      case 'LINKS':
+      case 'EMAILS':
+      case 'PHONES':
+      case 'ADDRESS':
+      case 'CURRENCY':
+      case 'ACTOR':
+      case 'RICH_TEXT_V2':
+        if (typeof value !== 'object' || Array.isArray(value)) {
+          errors.push(`${key}: expected an object for composite field type ${field.type}`);
+        }
+        break;
+    }
+  }
+
+  if (!options.partial) {
+    for (const field of object.fields) {
+      const required = field.isNullable === false && field.defaultValue == null && !field.isSystem && field.isActive !== false;
+      if (required && field.type !== 'RELATION' && data[field.name] === undefined) {
+        errors.push(`${field.name}: required field is missing`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Build a zod schema for a single field. Returns undefined for field types
+ * that cannot be set directly (relations, system-managed fields).
+ */
+export function fieldToZodSchema(field: FieldMetadata, options: { partial?: boolean } = {}): z.ZodTypeAny | undefined {
+  let schema: z.ZodTypeAny;
+  const optionValues = (field.options || []).map(option => option.value);
+
+  switch (field.type) {
+    case 'TEXT':
+      schema = z.string();
+      break;
+    case 'NUMBER':
+    case 'NUMERIC':
+      schema = z.number();
+      break;
+    case 'BOOLEAN':
+      schema = z.boolean();
+      break;
+    case 'DATE':
+    case 'DATE_TIME':
+      schema = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Expected an ISO 8601 date string');
+      break;
+    case 'SELECT':
+    case 'RATING':
+      schema = optionValues.length > 0 ? z.enum(optionValues as [string, ...string[]]) : z.string();
+      break;
+    case 'MULTI_SELECT':
+      schema = z.array(optionValues.length > 0 ? z.enum(optionValues as [string, ...string[]]) : z.string());
+      break;
+    case 'LINKS':
+    case 'EMAILS':
+    case 'PHONES':
+    case 'ADDRESS':
+    case 'CURRENCY':
+    case 'FULL_NAME':
+    case 'RICH_TEXT_V2':
+      schema = z.record(z.any());
+      break;
+    default:
+      return undefined;
+  }
+
+  const optionsHint = optionValues.length > 0 ? ` (options: ${optionValues.join(', ')})` : '';
+  const typeHint = field.type === 'DATE' || field.type === 'DATE_TIME' ? ' in ISO 8601 format' : '';
+  const description = `${field.description || field.label}${typeHint}${optionsHint}`;
+
+  if (options.partial) {
+    return (field.isNullable === false ? schema : schema.nullable()).optional().describe(description);
+  }
+  const required = field.isNullable === false && field.defaultValue == null;
+  return (required ? schema : schema.optional()).describe(description);
+}
+
+/**
+ * Build tool input schemas for the custom fields of an object, so tools adapt
+ * to the workspace they are connected to instead of hardcoding its enums
+ */
+export function buildCustomFieldSchemas(
+  object: ObjectMetadata | undefined,
+  options: { partial?: boolean } = {}
+): Record<string, z.ZodTypeAny> | undefined {
+  if (!object) return undefined;
+
+  const schemas: Record<string, z.ZodTypeAny> = {};
+  for (const field of object.fields) {
+    if (!field.isCustom || field.isSystem || field.isActive === false) continue;
+    const schema = fieldToZodSchema(field, options);
+    if (schema) schemas[field.name] = schema;
+  }
+  return schemas;
+}
+
+/**
+ * Pick the values of custom fields from tool params (undefined values are skipped)
+ */
+export function pickCustomFieldValues(params: Record<string, any>, schemas: Record<string, z.ZodTypeAny>): Record<string, any> {
+  const values: Record<string, any> = {};
+  for (const name of Object.keys(schemas)) {
+    if (params[name] !== undefined) values[name] = params[name];
+  }
+  return values;
+}
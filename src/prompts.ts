@@ -25,7 +25,7 @@ export const prompts = {
       },
       {
         name: "assigneeId", 
-        description: "UUID des Workspace-Members dem die Demo-Aufgabe zugewiesen werden soll",
+        description: "Workspace-Member dem die Demo-Aufgabe zugewiesen werden soll: Name, E-Mail, \"me\" oder UUID",
         required: false
       }
     ]
@@ -90,9 +90,9 @@ export const promptHandlers = {
       throw new Error(`Ungültige Priorität. Mögliche Werte: ${validPriorities.join(", ")}`);
     }
 
-    // UUID Validierung für assigneeId falls vorhanden
-    if (assigneeId && !/^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(assigneeId)) {
-      throw new Error('AssigneeId muss eine gültige UUID sein');
+    // assigneeId wird vom create-task Tool aufgelöst (Name, E-Mail, "me" oder UUID)
+    if (assigneeId !== undefined && !assigneeId.trim()) {
+      throw new Error('AssigneeId darf nicht leer sein');
     }
 
     return {
@@ -148,7 +148,7 @@ Erstelle mit den gesammelten Informationen:
    - Titel: "Demo Accounts anlegen"
    - content: "## Demo-Aufgabe\\n\\nDemo-Accounts für [Unternehmensname] (${unternehmenstyp}, Status: ${status}) erstellen und konfigurieren\\n\\n### Nächste Schritte:\\n- Account anlegen\\n- Konfiguration prüfen\\n- Tests durchführen"
    - Status: "${priority}"
-   ${assigneeId ? `- AssigneeId: "${assigneeId}"` : ''}
+   ${assigneeId ? `- assigneeId: "${assigneeId}" (Name, E-Mail oder "me" wird vom Tool aufgelöst; bei mehreren Treffern find-workspace-member Tool nutzen)` : ''}
    - dueAt: +7 Tage von heute (ISO 8601 Format)
    - linkToCompanyId: [UUID des erstellten Unternehmens aus Schritt 1] (automatische Verknüpfung)
 
@@ -0,0 +1,168 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import axios, { AxiosInstance } from 'axios';
+import winston from 'winston';
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  DEFAULT_RESILIENCE_OPTIONS,
+  ResilienceOptions,
+  TokenBucket,
+  createResilientAdapter
+} from './resilience.js';
+import { IdleEvictingMap } from './idle-evicting-map.js';
+
+const logger = winston.createLogger({ silent: true });
+
+const options: ResilienceOptions = {
+  retry: { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5, maxRetryAfterMs: 200 },
+  rateLimit: { requestsPerMinute: 6000, burst: 10 },
+  circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60000 }
+};
+
+// Local stand-in for Twenty: answers with the queued responses, then 200
+let server: http.Server;
+let baseURL: string;
+let queued: Array<{ status: number; headers?: Record<string, string> }> = [];
+let hits = 0;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    hits++;
+    const { status, headers } = queued.shift() ?? { status: 200 };
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify({ status }));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/rest`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  queued = [];
+  hits = 0;
+});
+
+// State is shared per workspace key across the module, so each test uses its own keys
+let workspaceCounter = 0;
+const nextWorkspace = () => `workspace-${workspaceCounter++}`;
+
+const createClient = (workspaceKey: string, url: string = baseURL): AxiosInstance => axios.create({
+  baseURL: url,
+  adapter: createResilientAdapter(axios.getAdapter('http'), { workspaceKey, baseURL: url, options, logger })
+});
+
+const statusOf = (promise: Promise<unknown>) => promise.then(() => 200, error => error.response?.status ?? error.code);
+
+describe('createResilientAdapter', () => {
+  it('retries transient failures of idempotent requests only', async () => {
+    const client = createClient(nextWorkspace());
+
+    queued = [{ status: 503 }];
+    expect(await statusOf(client.get('/people'))).toBe(200);
+    expect(hits).toBe(2);
+
+    queued = [{ status: 503 }];
+    expect(await statusOf(client.post('/people', {}))).toBe(503);
+    expect(hits).toBe(3);
+  });
+
+  it('opens the circuit on gateway errors but not on other server errors', async () => {
+    const client = createClient(nextWorkspace());
+
+    queued = [{ status: 500 }, { status: 500 }, { status: 500 }];
+    for (let index = 0; index < 3; index++) {
+      expect(await statusOf(client.post('/people', {}))).toBe(500);
+    }
+
+    queued = [{ status: 502 }, { status: 504 }];
+    expect(await statusOf(client.post('/people', {}))).toBe(502);
+    expect(await statusOf(client.post('/people', {}))).toBe(504);
+    await expect(client.get('/people')).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(hits).toBe(5);
+  });
+
+  it('keeps the circuit of other workspaces on the same instance closed', async () => {
+    const failing = createClient(nextWorkspace());
+    const other = createClient(nextWorkspace());
+
+    queued = [{ status: 503 }, { status: 503 }];
+    expect(await statusOf(failing.post('/people', {}))).toBe(503);
+    expect(await statusOf(failing.post('/people', {}))).toBe(503);
+    await expect(failing.get('/people')).rejects.toBeInstanceOf(CircuitOpenError);
+
+    expect(await statusOf(other.get('/people'))).toBe(200);
+  });
+
+  it('opens the circuit on network errors', async () => {
+    // Nothing listens on the port of a closed server
+    const closed = http.createServer();
+    await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+    const url = `http://127.0.0.1:${(closed.address() as AddressInfo).port}/rest`;
+    await new Promise(resolve => closed.close(resolve));
+
+    const client = createClient(nextWorkspace(), url);
+    expect(await statusOf(client.post('/people', {}))).toBe('ECONNREFUSED');
+    expect(await statusOf(client.post('/people', {}))).toBe('ECONNREFUSED');
+    await expect(client.get('/people')).rejects.toBeInstanceOf(CircuitOpenError);
+  });
+
+  it('waits for a short Retry-After and retries', async () => {
+    const client = createClient(nextWorkspace());
+
+    queued = [{ status: 429, headers: { 'Retry-After': '0.05' } }];
+    const started = Date.now();
+    expect(await statusOf(client.post('/people', {}))).toBe(200);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(40);
+    expect(hits).toBe(2);
+  });
+
+  it('fails on a long Retry-After and holds the workspace back at most maxRetryAfterMs', async () => {
+    const workspaceKey = nextWorkspace();
+    const client = createClient(workspaceKey);
+
+    queued = [{ status: 429, headers: { 'Retry-After': '3600' } }];
+    expect(await statusOf(client.get('/people'))).toBe(429);
+    expect(hits).toBe(1);
+
+    const started = Date.now();
+    expect(await statusOf(createClient(workspaceKey).get('/people'))).toBe(200);
+    const waited = Date.now() - started;
+    expect(waited).toBeGreaterThanOrEqual(150);
+    expect(waited).toBeLessThan(2000);
+  });
+});
+
+describe('IdleEvictingMap', () => {
+  it('evicts idle entries once they are at rest', () => {
+    const map = new IdleEvictingMap<CircuitBreaker>({ idleMs: 1000, isAtRest: (breaker, now) => breaker.isAtRest(now), now: 0 });
+    const open = map.acquire('open', () => new CircuitBreaker('open', { failureThreshold: 1, resetTimeoutMs: 3000 }), 0);
+    open.recordFailure(0);
+    map.acquire('closed', () => new CircuitBreaker('closed', DEFAULT_RESILIENCE_OPTIONS.circuitBreaker), 0);
+    map.acquire('active', () => new CircuitBreaker('active', DEFAULT_RESILIENCE_OPTIONS.circuitBreaker), 0);
+
+    // The open breaker is kept until its reset timeout passed
+    map.acquire('active', () => { throw new Error('Not expected'); }, 900);
+    map.sweep(1500);
+    expect(map.size).toBe(2);
+    map.acquire('active', () => { throw new Error('Not expected'); }, 2400);
+    map.sweep(3000);
+    expect(map.size).toBe(1);
+    expect(map.acquire('open', () => new CircuitBreaker('open', DEFAULT_RESILIENCE_OPTIONS.circuitBreaker), 3000).currentState).toBe('closed');
+  });
+
+  it('keeps token buckets until they are refilled', async () => {
+    const bucket = new TokenBucket({ requestsPerMinute: 60, burst: 2 });
+    const now = Date.now();
+    expect(bucket.isAtRest(now)).toBe(true);
+    await bucket.take();
+    expect(bucket.isAtRest(now)).toBe(false);
+    expect(bucket.isAtRest(now + 1500)).toBe(true);
+    bucket.blockFor(5000);
+    expect(bucket.isAtRest(now + 1500)).toBe(false);
+  });
+});
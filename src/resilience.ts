@@ -0,0 +1,258 @@
+import { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig, isAxiosError } from 'axios';
+import { Logger } from 'winston';
+import { IdleEvictingMap } from './idle-evicting-map.js';
+
+export interface RetryOptions {
+  // Retries after the first attempt (0 disables retrying)
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // A longer Retry-After fails the request instead of blocking the tool call
+  maxRetryAfterMs: number;
+}
+
+export interface RateLimitOptions {
+  // Sustained rate per API key (0 disables the limiter)
+  requestsPerMinute: number;
+  // Requests that may be sent at once before the rate applies
+  burst: number;
+}
+
+export interface CircuitBreakerOptions {
+  // Consecutive transient failures that open the circuit
+  failureThreshold: number;
+  // Time until a single trial request is let through again
+  resetTimeoutMs: number;
+}
+
+export interface ResilienceOptions {
+  retry: RetryOptions;
+  rateLimit: RateLimitOptions;
+  circuitBreaker: CircuitBreakerOptions;
+}
+
+export const DEFAULT_RESILIENCE_OPTIONS: ResilienceOptions = {
+  retry: { maxRetries: 3, baseDelayMs: 250, maxDelayMs: 8000, maxRetryAfterMs: 30000 },
+  // Twenty's default API limit is 100 requests per minute per workspace
+  rateLimit: { requestsPerMinute: 100, burst: 20 },
+  circuitBreaker: { failureThreshold: 5, resetTimeoutMs: 30000 }
+};
+
+// Methods that can be repeated without changing the result (RFC 9110)
+const IDEMPOTENT_METHODS = new Set(['get', 'head', 'options', 'put', 'delete']);
+const TRANSIENT_STATUSES = new Set([502, 503, 504]);
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: unknown, now: number = Date.now()): number | undefined {
+  if (typeof header !== 'string' || !header.trim()) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay up to base * 2^attempt
+ */
+export function backoffDelay(attempt: number, options: RetryOptions, random: () => number = Math.random): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(random() * ceiling);
+}
+
+/**
+ * Token bucket; callers reserve a token and wait until it is refilled, so
+ * concurrent callers are served in order
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private blockedUntil = 0;
+  private capacity: number;
+  private refillPerMs: number;
+
+  constructor(options: RateLimitOptions) {
+    this.capacity = Math.max(1, options.burst);
+    this.refillPerMs = options.requestsPerMinute / 60000;
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  async take(): Promise<void> {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+    this.tokens -= 1;
+
+    const refillWait = this.tokens < 0 ? Math.ceil(-this.tokens / this.refillPerMs) : 0;
+    const wait = Math.max(refillWait, this.blockedUntil - now);
+    if (wait > 0) await sleep(wait);
+  }
+
+  /**
+   * Whether the bucket is full and unblocked, i.e. equal to a new one
+   */
+  isAtRest(now: number = Date.now()): boolean {
+    const tokens = this.tokens + (now - this.lastRefill) * this.refillPerMs;
+    return tokens >= this.capacity && this.blockedUntil <= now;
+  }
+
+  /**
+   * Hold back all callers, e.g. when the server answered 429 with Retry-After
+   */
+  blockFor(ms: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + ms);
+  }
+}
+
+export class CircuitOpenError extends Error {
+  retryAfterMs: number;
+
+  constructor(target: string, retryAfterMs: number) {
+    super(`Twenty CRM at ${target} is temporarily unavailable after repeated failures, retry in ${Math.ceil(retryAfterMs / 1000)}s`);
+    this.name = 'CircuitOpenError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Circuit breaker: opens after consecutive transient failures, rejects
+ * requests while open and lets a single trial request through after the
+ * reset timeout (half-open)
+ */
+export class CircuitBreaker {
+  private state: 'closed' | 'open' | 'half-open' = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private target: string;
+  private options: CircuitBreakerOptions;
+
+  constructor(target: string, options: CircuitBreakerOptions) {
+    this.target = target;
+    this.options = options;
+  }
+
+  get currentState(): 'closed' | 'open' | 'half-open' {
+    return this.state;
+  }
+
+  /**
+   * Throw a CircuitOpenError unless a request may be sent now
+   */
+  assertCanRequest(now: number = Date.now()): void {
+    if (this.state === 'open') {
+      const remaining = this.openedAt + this.options.resetTimeoutMs - now;
+      if (remaining > 0) throw new CircuitOpenError(this.target, remaining);
+      this.state = 'half-open';
+    }
+    if (this.state === 'half-open') {
+      if (this.trialInFlight) throw new CircuitOpenError(this.target, this.options.resetTimeoutMs);
+      this.trialInFlight = true;
+    }
+  }
+
+  /**
+   * Whether the breaker would let the next request through, i.e. acts like a new one
+   */
+  isAtRest(now: number = Date.now()): boolean {
+    if (this.trialInFlight) return false;
+    return this.state === 'closed' || now >= this.openedAt + this.options.resetTimeoutMs;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * End a trial request that neither succeeded nor failed (e.g. canceled)
+   */
+  releaseTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  recordFailure(now: number = Date.now()): void {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.state === 'half-open' || this.failures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = now;
+    }
+  }
+}
+
+// Shared between all clients, so sessions with the same API key share one
+// rate limit and one circuit breaker; other workspaces are not affected by
+// failures or throttling of a workspace. Idle entries are dropped once they are at rest.
+const buckets = new IdleEvictingMap<TokenBucket>({ isAtRest: (bucket, now) => bucket.isAtRest(now) });
+const breakers = new IdleEvictingMap<CircuitBreaker>({ isAtRest: (breaker, now) => breaker.isAtRest(now) });
+
+export interface ResilientAdapterOptions {
+  // Rate limit and circuit breaker key (TwentyCRMClient.workspaceKey)
+  workspaceKey: string;
+  // Twenty instance named in errors
+  baseURL: string;
+  options: ResilienceOptions;
+  logger: Logger;
+}
+
+/**
+ * Wrap an axios adapter with rate limiting, a circuit breaker and retries.
+ * Transient failures (network errors, timeouts, 502/503/504) are retried for
+ * idempotent methods only; 429 is retried for all methods since the server
+ * rejected the request without processing it.
+ */
+export function createResilientAdapter(adapter: AxiosAdapter, adapterOptions: ResilientAdapterOptions): AxiosAdapter {
+  const { workspaceKey, baseURL, options, logger } = adapterOptions;
+
+  return async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const method = (config.method || 'get').toLowerCase();
+
+    for (let attempt = 0; ; attempt++) {
+      const bucket = options.rateLimit.requestsPerMinute > 0
+        ? buckets.acquire(workspaceKey, () => new TokenBucket(options.rateLimit))
+        : undefined;
+      const breaker = breakers.acquire(workspaceKey, () => new CircuitBreaker(baseURL, options.circuitBreaker));
+      breaker.assertCanRequest();
+      await bucket?.take();
+
+      try {
+        const response = await adapter(config);
+        breaker.recordSuccess();
+        return response;
+      } catch (error) {
+        if (!isAxiosError(error) || error.code === 'ERR_CANCELED') {
+          breaker.releaseTrial();
+          throw error;
+        }
+
+        const status = error.response?.status;
+        // Only outages (network errors, gateway errors) count towards the breaker; other
+        // errors, including 500 for a single bad request, mean the instance is up
+        const transient = status === undefined || TRANSIENT_STATUSES.has(status);
+        if (transient) breaker.recordFailure();
+        else breaker.recordSuccess();
+
+        // Other sessions of the workspace back off as well, at most as long as a retry would wait
+        const retryAfterMs = parseRetryAfter(error.response?.headers?.['retry-after']);
+        if (status === 429 && retryAfterMs !== undefined) {
+          bucket?.blockFor(Math.min(retryAfterMs, options.retry.maxRetryAfterMs));
+        }
+
+        const retryable = status === 429 || (IDEMPOTENT_METHODS.has(method) && transient);
+        // Once the breaker opened there is no point in retrying
+        if (!retryable || attempt >= options.retry.maxRetries || breaker.currentState === 'open') throw error;
+        if (retryAfterMs !== undefined && retryAfterMs > options.retry.maxRetryAfterMs) throw error;
+
+        const delay = retryAfterMs ?? backoffDelay(attempt, options.retry);
+        logger.warn(`Retrying ${method.toUpperCase()} ${config.url} after ${status ?? error.code} in ${delay}ms (retry ${attempt + 1}/${options.retry.maxRetries})`);
+        await sleep(delay);
+      }
+    }
+  };
+}
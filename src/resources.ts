@@ -102,7 +102,7 @@ GET /people
 
 **Parameter:**
 - \`orderBy\` (optional): Sortierung (z.B. "createdAt", "name.lastName")
-- \`filter\` (optional): Filter-Kriterien als JSON-Objekt
+- \`filter\` (optional): Filter in Twenty-Syntax (z.B. \`status[eq]:KUNDE\`) oder als JSON-Objekt
 - \`limit\` (optional): Anzahl der Ergebnisse (max. 60)
 - \`depth\` (optional): Tiefe der verknüpften Daten (0-3)
 
@@ -378,6 +378,9 @@ BASE URL: https://crm.tools.ole.de/rest/`
         uri: "twenty://available-tools",
         text: `# Verfügbare Twenty CRM MCP Tools
 
+## 🔎 Twenty CRM: Suche
+- **search** - Objektübergreifende Suche (Personen, Unternehmen, Verkaufschancen, Notizen, Aufgaben), gerankt und ohne Duplikate. Nutzt den Twenty-Suchendpunkt, sonst \`ilike\`-Filter
+
 ## 🏢 Twenty CRM: Company Management
 - **create-company** - Neues Unternehmen erstellen
 - **get-company** - Unternehmen abrufen
@@ -434,6 +437,35 @@ BASE URL: https://crm.tools.ole.de/rest/`
 - **delete-note-target** - Verknüpfung löschen
 - **get-notes-for-entity** - Alle Notizen für Unternehmen/Person abrufen
 
+## 💰 Twenty CRM: Opportunity Management
+- **create-opportunity** - Neue Verkaufschance erstellen (Betrag in Micros)
+- **get-opportunity** - Verkaufschance abrufen
+- **list-opportunities** - Verkaufschancen auflisten/suchen
+- **update-opportunity** - Verkaufschance aktualisieren
+- **delete-opportunity** - Verkaufschance löschen
+- **batch-create-opportunities** - Mehrere Verkaufschancen erstellen
+- **find-opportunity-duplicates** - Duplikate finden
+- **move-opportunity-stage** - Verkaufschance in andere Pipeline-Phase verschieben
+- **pipeline-summary** - Pipeline-Auswertung nach Phase (Anzahl, Summen je Währung, gewichteter Forecast, Durchschnittsalter, überfällige Deals)
+
+## 🕒 Twenty CRM: Timeline
+- **get-timeline** - 360°-Ansicht einer Person, eines Unternehmens oder einer Verkaufschance: Notizen, Aufgaben, verknüpfte Personen/Verkaufschancen und Aktivitäten als chronologischer Feed mit Zusammenfassung
+
+## 👤 Twenty CRM: Workspace-Mitglieder
+- **list-workspace-members** - Alle Workspace-Mitglieder mit Name, E-Mail und ID auflisten (inkl. eigenem Mitglied, falls der API-Key einem Benutzer gehört)
+- **find-workspace-member** - Workspace-Mitglied per Name oder E-Mail finden, "me" für das eigene Mitglied (bei API-Keys nur für den Server-Key mit TWENTY_WORKSPACE_MEMBER_ID, sonst Name oder E-Mail verwenden)
+- \`assigneeId\` (Aufgaben) und \`accountOwnerId\` (Unternehmen) akzeptieren neben der UUID auch Name, E-Mail oder "me"
+
+## 🧭 Twenty CRM: Datenmodell / Metadaten
+- **describe-object** - Objekte, Felder, Feldtypen und Auswahloptionen des Workspaces anzeigen (aus der Twenty Metadata API)
+
+## 🗂️ Twenty CRM: Generische Datensätze (auch Custom Objects)
+- **list-records** - Datensätze eines beliebigen Objekts auflisten (\`objectName\`, z.B. "contract")
+- **get-record** - Datensatz abrufen
+- **create-record** - Datensatz erstellen (Validierung gegen Workspace-Metadaten)
+- **update-record** - Datensatz aktualisieren (Validierung gegen Workspace-Metadaten)
+- **delete-record** - Datensatz löschen
+
 ## 👥 Ole-App Usermanagement (PostgreSQL)
 - **list-organizations** - Alle Organisationen auflisten
 - **get-organization** - Organisation abrufen
@@ -476,6 +508,30 @@ BASE URL: https://crm.tools.ole.de/rest/`
 - Personen ohne Unternehmen: \`{"companyId":{"is":"NULL"}}\`
 - Überfällige Aufgaben: \`{"status":{"neq":"DONE"},"dueAt":{"lt":"2025-06-30T00:00:00.000Z"}}\`
 
+## 🔤 Filter-Syntax (\`filter\`):
+- Bedingung: \`feld[operator]:wert\`, verschachtelte Felder per Punkt (\`name.lastName[ilike]:"%müller%"\`)
+- Mehrere Bedingungen (UND) mit Komma: \`status[eq]:KUNDE,city[eq]:Berlin\`
+- Gruppen: \`and(...)\`, \`or(...)\`, \`not(...)\`; Listen für \`in\`: \`status[in]:[TODO,IN_PROGRESS]\`; leere Felder: \`companyId[is]:NULL\`
+- Werte mit Komma, Klammern oder Doppelpunkt in Anführungszeichen setzen
+- JSON-Objekte wie oben werden automatisch in diese Syntax umgewandelt
+
+## 🧩 Strukturierte Filter (\`where\`):
+Alle List-Tools akzeptieren zusätzlich zum rohen \`filter\`-String einen lokal validierten \`where\`-Parameter:
+- Bedingung: \`{"field":"status","operator":"eq","value":"KUNDE"}\`
+- Verschachtelte Felder: \`{"field":"name.lastName","operator":"ilike","value":"%müller%"}\`
+- Gruppen: \`{"and":[...]}\`, \`{"or":[...]}\`, \`{"not":{...}}\`
+- Operatoren: eq, neq, in, like, ilike, gt, gte, lt, lte, is, startsWith
+
+## 📄 Paginierung:
+- Standard: \`limit\` (max 60) und \`startingAfter\`/\`endingBefore\` Cursor
+- Alle Seiten automatisch laden: \`all: true\` (optional \`maxRecords\`, Standard 1000, Obergrenze 10000)
+
+## ✂️ Antwortformat (List-/Get-Tools für Personen, Unternehmen, Opportunities, Aufgaben, Notizen, Verknüpfungen und beliebige Datensätze; bei \`pipeline-summary\` für die überfälligen Deals):
+- \`fields\`: Nur diese Felder zurückgeben, verschachtelt per Punkt-Pfad (z.B. \`["id","name.firstName","emails.primaryEmail"]\`)
+- \`format\`: \`json\` (Standard), \`compact\` (ohne leere Werte und position/createdBy) oder \`markdown-table\`
+- \`maxChars\`: Maximale Antwortgröße (Standard 50000); weitere Datensätze werden mit \`moreAvailable\`-Hinweis abgeschnitten
+- \`noCache\`: Antwort nicht aus dem Cache lesen (Standard false); gelesene Daten werden bis zu 30 Sekunden zwischengespeichert und bei Änderungen am selben Objekttyp verworfen, mit verknüpften Objekten (\`depth\` > 0) bei jeder Änderung (auch bei \`twenty-crm-get-timeline\` und \`twenty-crm-search\`)
+
 ## 📊 Depth Parameter:
 - 0: Nur Basis-Objektdaten
 - 1: Erste Ebene verknüpfter Objekte (Standard)
@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { DEFAULT_RESPONSE_CACHE_OPTIONS, LruTtlCache, createCachingAdapter } from './response-cache.js';
+
+let workspaceCounter = 0;
+
+// Adapter over a stand-in Twenty; every response carries the number of calls so far
+const setup = () => {
+  const adapter = vi.fn(async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> =>
+    ({ data: `{"call":${adapter.mock.calls.length}}`, status: 200, statusText: 'OK', headers: {}, config }));
+  const cached = createCachingAdapter(adapter, {
+    workspaceKey: `workspace-${workspaceCounter++}`,
+    options: DEFAULT_RESPONSE_CACHE_OPTIONS,
+    readFromCache: true
+  });
+  const request = async (method: string, url: string, params?: Record<string, unknown>) =>
+    (await cached({ method, url, params, headers: {} } as InternalAxiosRequestConfig)).data;
+  return { adapter, request };
+};
+
+describe('createCachingAdapter', () => {
+  it('drops reads with related records on writes to any object type', async () => {
+    const { request } = setup();
+    const person = await request('get', '/people/1', { depth: 1 });
+    expect(await request('get', '/people/1', { depth: 1 })).toBe(person);
+
+    await request('patch', '/companies/2');
+    expect(await request('get', '/people/1', { depth: 1 })).not.toBe(person);
+  });
+
+  it('keeps reads without related records on writes to other object types', async () => {
+    const { request } = setup();
+    const person = await request('get', '/people/1', { depth: 0 });
+
+    await request('patch', '/companies/2');
+    expect(await request('get', '/people/1', { depth: 0 })).toBe(person);
+
+    await request('patch', '/people/1');
+    expect(await request('get', '/people/1', { depth: 0 })).not.toBe(person);
+  });
+});
+
+describe('LruTtlCache', () => {
+  it('drops expired entries when storing new ones', () => {
+    const cache = new LruTtlCache<{ expiresAt: number; objectType: string }>(10);
+    cache.set('old', { expiresAt: 1000, objectType: 'people' }, 0);
+    cache.set('new', { expiresAt: 3000, objectType: 'people' }, 2000);
+
+    expect(cache.size).toBe(1);
+    expect(cache.get('new', 2000)).toBeDefined();
+  });
+});
@@ -0,0 +1,220 @@
+import { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { z } from 'zod';
+import { IdleEvictingMap } from './idle-evicting-map.js';
+
+export interface ResponseCacheOptions {
+  // How long a response is served from the cache (0 disables caching)
+  ttlMs: number;
+  // Least recently used responses are evicted beyond this count per workspace
+  maxEntries: number;
+}
+
+export const DEFAULT_RESPONSE_CACHE_OPTIONS: ResponseCacheOptions = {
+  ttlMs: 30 * 1000,
+  maxEntries: 500
+};
+
+// Tool parameter to bypass the cache for reads that must be fresh
+export const cacheControlParams = {
+  noCache: z.boolean().optional().describe('Bypass the response cache and read fresh data from Twenty (default false)')
+};
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  invalidations: number;
+  entries: number;
+  workspaces: number;
+}
+
+interface CachedResponse {
+  objectType: string;
+  expiresAt: number;
+  data: unknown;
+  status: number;
+  statusText: string;
+  headers: AxiosResponse['headers'];
+}
+
+/**
+ * LRU cache with TTL; Map iteration order is insertion order, so re-inserting
+ * on access keeps the least recently used entry first
+ */
+export class LruTtlCache<V extends { expiresAt: number; objectType: string }> {
+  private entries = new Map<string, V>();
+  private maxEntries: number;
+
+  constructor(maxEntries: number) {
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: string, now: number = Date.now()): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (entry.expiresAt <= now) return undefined;
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  /**
+   * Store an entry, returning the number of evicted entries. Expired entries
+   * are dropped first, so they do not hold memory until they are read again.
+   */
+  set(key: string, value: V, now: number = Date.now()): number {
+    this.purgeExpired(now);
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    let evicted = 0;
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+      evicted++;
+    }
+    return evicted;
+  }
+
+  purgeExpired(now: number = Date.now()): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    }
+  }
+
+  /**
+   * Drop all entries of an object type, returning how many were dropped
+   */
+  invalidate(objectType: string): number {
+    let dropped = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.objectType === objectType) {
+        this.entries.delete(key);
+        dropped++;
+      }
+    }
+    return dropped;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+// One cache per workspace (TwentyCRMClient.workspaceKey), shared by all its sessions;
+// caches of workspaces without requests are dropped
+const workspaceCaches = new IdleEvictingMap<LruTtlCache<CachedResponse>>();
+const stats = { hits: 0, misses: 0, evictions: 0, invalidations: 0 };
+
+/**
+ * Cache counters across all workspaces
+ */
+export function getCacheStats(): CacheStats {
+  let entries = 0;
+  for (const cache of workspaceCaches.values()) entries += cache.size;
+  return { ...stats, entries, workspaces: workspaceCaches.size };
+}
+
+/**
+ * Object type of a REST path, e.g. "people" for /people/<id> and /batch/people
+ */
+export function objectTypeOf(url: string | undefined): string {
+  const segments = (url || '').split('?')[0].split('/').filter(Boolean);
+  return (segments[0] === 'batch' ? segments[1] : segments[0]) || '';
+}
+
+const stableStringify = (value: unknown): string => {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value) ?? 'undefined';
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  const entries = Object.entries(value as Record<string, unknown>).filter(([, entry]) => entry !== undefined);
+  return `{${entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+};
+
+// Object type of cached reads that may include records of any type: GraphQL
+// queries and REST reads with related records (depth > 0, Twenty's default is 1).
+// Every write drops them, e.g. an updated company is also embedded in cached people.
+const ANY_OBJECT_TYPE = '*';
+
+const isGraphQLQuery = (body: unknown): boolean => {
+  try {
+    const parsed: { query?: unknown } | null | undefined = typeof body === 'string' ? JSON.parse(body) : body;
+    const query = parsed?.query;
+    return typeof query === 'string' && /^\s*(?:query\b|\{)/.test(query);
+  } catch {
+    return false;
+  }
+};
+
+export interface CachingAdapterOptions {
+  workspaceKey: string;
+  options: ResponseCacheOptions;
+  // False bypasses cached responses; fresh responses are still stored and writes still invalidate
+  readFromCache: boolean;
+}
+
+/**
+ * Wrap an axios adapter with a read-through cache for GET requests on the
+ * REST API and GraphQL queries. Writes (POST/PATCH/PUT/DELETE, GraphQL
+ * mutations) invalidate the cached responses of the object type they target
+ * and all cached reads that may include other objects (see ANY_OBJECT_TYPE).
+ */
+export function createCachingAdapter(adapter: AxiosAdapter, adapterOptions: CachingAdapterOptions): AxiosAdapter {
+  const { workspaceKey, options, readFromCache } = adapterOptions;
+  if (options.ttlMs <= 0) return adapter;
+
+  return async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    // Looked up per request, so a client outliving an evicted cache never uses a stale one
+    const cache = workspaceCaches.acquire(workspaceKey, () => new LruTtlCache<CachedResponse>(options.maxEntries));
+    const method = (config.method || 'get').toLowerCase();
+    const graphql = /\/graphql\/?$/.test(config.url || '');
+    // Other absolute URLs are not REST object paths
+    const restObjectType = graphql || /^https?:/.test(config.url || '') ? '' : objectTypeOf(config.url);
+    const cacheable = graphql ? isGraphQLQuery(config.data) : method === 'get' && !!restObjectType;
+
+    if (!cacheable) {
+      try {
+        return await adapter(config);
+      } finally {
+        // Also after a failed write, which may have been applied (e.g. timeout)
+        if (method !== 'get' && (graphql || restObjectType)) {
+          if (restObjectType) stats.invalidations += cache.invalidate(restObjectType);
+          stats.invalidations += cache.invalidate(ANY_OBJECT_TYPE);
+        }
+      }
+    }
+
+    const objectType = graphql || Number(config.params?.depth ?? 1) > 0 ? ANY_OBJECT_TYPE : restObjectType;
+
+    const key = graphql
+      ? `${config.url}#${typeof config.data === 'string' ? config.data : stableStringify(config.data)}`
+      : `${config.url}?${stableStringify(config.params ?? {})}`;
+    const cached = readFromCache ? cache.get(key) : undefined;
+    if (cached) {
+      stats.hits++;
+      // The body is cached unparsed, so every caller gets its own parsed copy
+      return {
+        data: cached.data,
+        status: cached.status,
+        statusText: cached.statusText,
+        headers: cached.headers,
+        config,
+        request: undefined
+      };
+    }
+
+    stats.misses++;
+    const response = await adapter(config);
+    // GraphQL reports errors with status 200, those responses are not kept
+    if (graphql && (typeof response.data !== 'string' || /"errors"\s*:/.test(response.data))) {
+      return response;
+    }
+    stats.evictions += cache.set(key, {
+      objectType,
+      expiresAt: Date.now() + options.ttlMs,
+      data: response.data,
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers
+    });
+    return response;
+  };
+}
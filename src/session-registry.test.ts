@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { TwentyCRMClient } from './twenty-client.js';
+import { DEFAULT_SESSION_LIMITS, SessionRegistry } from './session-registry.js';
+
+const limits = { ...DEFAULT_SESSION_LIMITS, maxSessionsPerUser: 2 };
+
+const register = (registry: SessionRegistry, sessionId: string, ownerKey: string, closed: string[]) =>
+  registry.register({
+    sessionId,
+    // Keys of one Twenty workspace share the client id
+    userId: 'workspace-1',
+    ownerKey,
+    twentyUrl: 'https://twenty.test/rest',
+    client: {} as TwentyCRMClient,
+    transport: 'streamable-http',
+    close: async () => { closed.push(sessionId); }
+  });
+
+describe('SessionRegistry', () => {
+  it('limits sessions per owner, not per workspace', async () => {
+    const registry = new SessionRegistry();
+    const closed: string[] = [];
+    register(registry, 'alice-1', 'alice', closed);
+    register(registry, 'alice-2', 'alice', closed);
+    register(registry, 'bob-1', 'bob', closed);
+
+    expect(await registry.evictForNewSession('bob', limits)).toEqual([]);
+    register(registry, 'bob-2', 'bob', closed);
+
+    expect(await registry.evictForNewSession('bob', limits)).toEqual(['bob-1']);
+    expect(closed).toEqual(['bob-1']);
+    expect(registry.sessionsOfOwner('alice').map(session => session.sessionId)).toEqual(['alice-1', 'alice-2']);
+    expect(registry.counts()).toMatchObject({ total: 3, users: 2 });
+  });
+
+  it('evicts the least recently active sessions first', async () => {
+    const registry = new SessionRegistry();
+    const closed: string[] = [];
+    register(registry, 'first', 'alice', closed).lastActivityAt = new Date(Date.now() - 2000);
+    register(registry, 'second', 'alice', closed).lastActivityAt = new Date(Date.now() - 3000);
+
+    expect(await registry.evictForNewSession('alice', limits)).toEqual(['second']);
+  });
+});
@@ -0,0 +1,163 @@
+import { TwentyCRMClient } from './twenty-client.js';
+import { AppConfig } from './config.js';
+
+export type SessionTransport = 'streamable-http' | 'sse';
+
+export interface SessionEntry {
+  sessionId: string;
+  userId: string;
+  // Keyed hash of the session's credential; only requests with the same credential may use the session
+  ownerKey: string;
+  // Twenty instance the session's client talks to
+  twentyUrl: string;
+  client: TwentyCRMClient;
+  transport: SessionTransport;
+  createdAt: Date;
+  lastActivityAt: Date;
+  // Closes the underlying transport (used when the session expires or is evicted)
+  close?: () => Promise<void>;
+}
+
+export interface SessionLimits {
+  idleTimeoutMs: number;
+  maxLifetimeMs: number;
+  // Counted per credential (session owner), not per workspace or OAuth client
+  maxSessionsPerUser: number;
+}
+
+export const DEFAULT_SESSION_LIMITS: SessionLimits = {
+  idleTimeoutMs: 30 * 60 * 1000,
+  maxLifetimeMs: 24 * 60 * 60 * 1000,
+  maxSessionsPerUser: 10
+};
+
+/**
+ * Session limits from the configured session settings
+ */
+export function sessionLimitsFromConfig(config: AppConfig['sessions']): SessionLimits {
+  return {
+    idleTimeoutMs: config.idleTimeoutMinutes * 60 * 1000,
+    maxLifetimeMs: config.maxLifetimeHours * 60 * 60 * 1000,
+    maxSessionsPerUser: config.maxSessionsPerUser
+  };
+}
+
+// Session details safe to expose on the admin endpoint (no API key, no client)
+export interface SessionSummary {
+  sessionId: string;
+  userId: string;
+  twentyUrl: string;
+  transport: SessionTransport;
+  createdAt: string;
+  lastActivityAt: string;
+  idleSeconds: number;
+}
+
+/**
+ * Registry of active MCP sessions with their owner and Twenty client
+ */
+export class SessionRegistry {
+  private sessions = new Map<string, SessionEntry>();
+
+  register(session: Omit<SessionEntry, 'createdAt' | 'lastActivityAt'>): SessionEntry {
+    const now = new Date();
+    const entry: SessionEntry = { ...session, createdAt: now, lastActivityAt: now };
+    this.sessions.set(session.sessionId, entry);
+    return entry;
+  }
+
+  get(sessionId: string): SessionEntry | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  /**
+   * Record activity on a session
+   */
+  touch(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.lastActivityAt = new Date();
+    }
+  }
+
+  remove(sessionId: string): boolean {
+    return this.sessions.delete(sessionId);
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Session counts for health reporting
+   */
+  counts(): { total: number; byTransport: Record<SessionTransport, number>; users: number } {
+    const byTransport: Record<SessionTransport, number> = { 'streamable-http': 0, sse: 0 };
+    const users = new Set<string>();
+    for (const session of this.sessions.values()) {
+      byTransport[session.transport]++;
+      users.add(session.ownerKey);
+    }
+    return { total: this.sessions.size, byTransport, users: users.size };
+  }
+
+  /**
+   * Sessions of an owner (credential), least recently active first
+   */
+  sessionsOfOwner(ownerKey: string): SessionEntry[] {
+    return [...this.sessions.values()]
+      .filter(session => session.ownerKey === ownerKey)
+      .sort((a, b) => a.lastActivityAt.getTime() - b.lastActivityAt.getTime());
+  }
+
+  /**
+   * Close and remove a session; errors while closing are reported but the
+   * session is removed in any case
+   */
+  async close(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    this.sessions.delete(sessionId);
+    await session.close?.();
+  }
+
+  /**
+   * Close sessions that were idle longer than the idle timeout or exceeded
+   * their max lifetime. Returns the ids of the closed sessions.
+   */
+  async sweep(limits: SessionLimits, now: number = Date.now()): Promise<string[]> {
+    const expired = [...this.sessions.values()].filter(session =>
+      now - session.lastActivityAt.getTime() > limits.idleTimeoutMs ||
+      now - session.createdAt.getTime() > limits.maxLifetimeMs
+    );
+    await Promise.allSettled(expired.map(session => this.close(session.sessionId)));
+    return expired.map(session => session.sessionId);
+  }
+
+  /**
+   * Make room for a new session of the owner by closing its least recently
+   * active sessions; sessions of other keys of the same workspace are never
+   * evicted. Returns the ids of the evicted sessions.
+   */
+  async evictForNewSession(ownerKey: string, limits: SessionLimits): Promise<string[]> {
+    const existing = this.sessionsOfOwner(ownerKey);
+    const excess = existing.slice(0, Math.max(0, existing.length - limits.maxSessionsPerUser + 1));
+    await Promise.allSettled(excess.map(session => this.close(session.sessionId)));
+    return excess.map(session => session.sessionId);
+  }
+
+  list(): SessionSummary[] {
+    const now = Date.now();
+    return [...this.sessions.values()].map(session => ({
+      sessionId: session.sessionId,
+      userId: session.userId,
+      twentyUrl: session.twentyUrl,
+      transport: session.transport,
+      createdAt: session.createdAt.toISOString(),
+      lastActivityAt: session.lastActivityAt.toISOString(),
+      idleSeconds: Math.round((now - session.lastActivityAt.getTime()) / 1000)
+    }));
+  }
+}
+
+export const sessionRegistry = new SessionRegistry();
@@ -0,0 +1,149 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import winston from 'winston';
+import { TwentyCRMClient } from './twenty-client.js';
+import { InMemoryStore, RedisLikeClient, RedisStore } from './storage.js';
+import { ApiKeyOAuthProvider } from './auth/api-key-oauth-provider.js';
+
+const logger = winston.createLogger({ silent: true });
+
+/**
+ * Local stand-in for a Redis server shared by several server instances
+ */
+class FakeRedis implements RedisLikeClient {
+  entries = new Map<string, { value: string; expiresAt?: number }>();
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: string, mode?: 'PX', ttlMs?: number): Promise<unknown> {
+    this.entries.set(key, { value, expiresAt: mode === 'PX' ? Date.now() + ttlMs! : undefined });
+    return 'OK';
+  }
+
+  async del(key: string): Promise<unknown> {
+    return this.entries.delete(key) ? 1 : 0;
+  }
+
+  async quit(): Promise<unknown> {
+    return 'OK';
+  }
+}
+
+// Provider of one server instance; all instances share the Redis stand-in
+const createProvider = (redis: FakeRedis, validate = vi.fn(async () => undefined), sessionSecret = 'test-secret') =>
+  new ApiKeyOAuthProvider(logger, new RedisStore(redis), {
+    twentyUrl: 'https://twenty.test/rest',
+    allowedTwentyUrls: ['https://staging.twenty.test/rest'],
+    sessionSecret,
+    createClient: () => ({ testConnection: validate }) as unknown as TwentyCRMClient
+  });
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('RedisStore', () => {
+  it('stores JSON values under the key prefix', async () => {
+    const redis = new FakeRedis();
+    const store = new RedisStore(redis, 'test:');
+    await store.set('token', { scopes: ['read'], expiresAt: new Date(0) });
+
+    expect([...redis.entries.keys()]).toEqual(['test:token']);
+    expect(await store.get('token')).toEqual({ scopes: ['read'], expiresAt: '1970-01-01T00:00:00.000Z' });
+    await store.delete('token');
+    expect(await store.get('token')).toBeUndefined();
+  });
+
+  it('expires values after their TTL like the in-memory store', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const stores = [new RedisStore(new FakeRedis()), new InMemoryStore()];
+    for (const store of stores) {
+      await store.set('code', 'value', 1000);
+      await store.set('client', 'value');
+    }
+
+    vi.setSystemTime(Date.now() + 1001);
+    for (const store of stores) {
+      expect(await store.get('code')).toBeUndefined();
+      expect(await store.get('client')).toBe('value');
+    }
+  });
+});
+
+describe('OAuth state in a shared store', () => {
+  it('exchanges an authorization code issued by another instance exactly once', async () => {
+    const redis = new FakeRedis();
+    const issuing = createProvider(redis);
+    const exchanging = createProvider(redis);
+
+    await issuing.storeAuthorizationCode('code-1', 'api-key-1', 'https://staging.twenty.test/rest', 'client-1', 'session-1');
+    const token = await exchanging.token({ grant_type: 'authorization_code', code: 'code-1' });
+
+    expect(token).toMatchObject({ access_token: 'api-key-1', token_type: 'Bearer' });
+    await expect(issuing.token({ grant_type: 'authorization_code', code: 'code-1' })).rejects.toThrow(/Invalid or expired/);
+
+    // The token stays bound to its instance and the session link is visible everywhere
+    expect((await issuing.verifyAccessToken('api-key-1')).twentyUrl).toBe('https://staging.twenty.test/rest');
+    expect(await issuing.getApiKeyForSession('session-1')).toBe('api-key-1');
+
+    // The store holds the API key only encrypted
+    expect([...redis.entries.values()].some(entry => entry.value.includes('api-key-1'))).toBe(false);
+  });
+
+  it('expires the instance binding of a token with its grant', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const redis = new FakeRedis();
+    const provider = createProvider(redis);
+    await provider.storeAuthorizationCode('code-3', 'api-key-4', 'https://staging.twenty.test/rest', 'client-1');
+    await provider.token({ grant_type: 'authorization_code', code: 'code-3' });
+
+    const expiries = [...redis.entries.values()].map(entry => entry.expiresAt);
+    expect(expiries.every(expiresAt => expiresAt !== undefined)).toBe(true);
+
+    vi.setSystemTime(Date.now() + 24 * 60 * 60 * 1000 + 1);
+    expect((await createProvider(redis).verifyAccessToken('api-key-4')).twentyUrl).toBe('https://twenty.test/rest');
+  });
+
+  it('rejects expired authorization codes', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const redis = new FakeRedis();
+    await createProvider(redis).storeAuthorizationCode('code-2', 'api-key-2', 'https://twenty.test/rest', 'client-1');
+
+    vi.setSystemTime(Date.now() + 11 * 60 * 1000);
+    await expect(createProvider(redis).token({ grant_type: 'authorization_code', code: 'code-2' })).rejects.toThrow(/Invalid or expired/);
+  });
+
+  it('shares registered clients and validated tokens between instances', async () => {
+    const redis = new FakeRedis();
+    const validate = vi.fn(async () => undefined);
+    const first = createProvider(redis, validate);
+    const second = createProvider(redis, validate);
+
+    const client = await first.registerClient({ client_name: 'Test client', redirect_uris: ['http://localhost/callback'] });
+    expect(await second.getClient(client.client_id)).toEqual(client);
+
+    await first.verifyAccessToken('api-key-3');
+    const info = await second.verifyAccessToken('api-key-3');
+    expect(info).toMatchObject({ twentyApiKey: 'api-key-3', twentyUrl: 'https://twenty.test/rest' });
+    expect(validate).toHaveBeenCalledTimes(1);
+
+    // Raw credentials never appear in storage keys or values
+    expect([...redis.entries.keys()].some(key => key.includes('api-key-3'))).toBe(false);
+    expect([...redis.entries.values()].some(entry => entry.value.includes('api-key-3'))).toBe(false);
+  });
+
+  it('ignores stored credentials sealed with another session secret', async () => {
+    const redis = new FakeRedis();
+    await createProvider(redis).storeAuthorizationCode('code-4', 'api-key-5', 'https://twenty.test/rest', 'client-1');
+
+    const other = createProvider(redis, undefined, 'other-secret');
+    await expect(other.token({ grant_type: 'authorization_code', code: 'code-4' })).rejects.toThrow(/Invalid or expired/);
+  });
+});
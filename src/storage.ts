@@ -0,0 +1,109 @@
+import winston from 'winston';
+import { Redis } from 'ioredis';
+import { AppConfig } from './config.js';
+
+/**
+ * Key-value storage for state that must be shared between server instances
+ * (OAuth clients, authorization codes, token cache). Values are JSON-serialized.
+ */
+export interface KeyValueStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Store in process memory; state is lost on restart and not shared between instances
+ */
+export class InMemoryStore implements KeyValueStore {
+  private entries = new Map<string, { value: string; expiresAt?: number }>();
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return JSON.parse(entry.value) as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+    // Serialized like the Redis store so both behave the same (e.g. Dates become strings)
+    this.entries.set(key, {
+      value: JSON.stringify(value),
+      expiresAt: ttlMs !== undefined ? Date.now() + ttlMs : undefined
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async close(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Commands used from a Redis client; any Redis-compatible client or a local
+ * stand-in implementing these works
+ */
+export interface RedisLikeClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'PX', ttlMs: number): Promise<unknown>;
+  set(key: string, value: string): Promise<unknown>;
+  del(key: string): Promise<unknown>;
+  quit(): Promise<unknown>;
+}
+
+/**
+ * Store backed by Redis (or a compatible server like Valkey or KeyDB)
+ */
+export class RedisStore implements KeyValueStore {
+  private client: RedisLikeClient;
+  private prefix: string;
+
+  constructor(client: RedisLikeClient, prefix = 'twenty-mcp:') {
+    this.client = client;
+    this.prefix = prefix;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const value = await this.client.get(this.prefix + key);
+    return value === null ? undefined : JSON.parse(value) as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+    const serialized = JSON.stringify(value);
+    if (ttlMs !== undefined) {
+      await this.client.set(this.prefix + key, serialized, 'PX', Math.max(1, Math.ceil(ttlMs)));
+    } else {
+      await this.client.set(this.prefix + key, serialized);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+
+  async close(): Promise<void> {
+    await this.client.quit();
+  }
+}
+
+/**
+ * Create the shared store: Redis if a Redis URL is configured, in-memory otherwise
+ */
+export function createKeyValueStore(config: AppConfig['redis'], logger: winston.Logger): KeyValueStore {
+  if (config.url) {
+    const client = new Redis(config.url, { lazyConnect: false, maxRetriesPerRequest: 3 });
+    client.on('error', error => logger.error('Redis connection error:', error));
+    logger.info('Using Redis for shared state');
+    return new RedisStore(client, config.keyPrefix);
+  }
+
+  logger.info('Using in-memory storage for shared state');
+  return new InMemoryStore();
+}
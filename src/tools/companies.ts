@@ -1,14 +1,35 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { TwentyCRMClient } from '../twenty-client.js';
+import { MAX_PAGINATED_RECORDS } from '../twenty-client.js';
 import { z } from 'zod';
+import { resolveFilter, whereParamSchema } from '../filters.js';
 import { Logger } from 'winston';
+import { GetClient } from '../auth/request-context.js';
+import { formatResponse, responseShapeParams } from '../formatting.js';
+import { cacheControlParams } from '../response-cache.js';
+import { WorkspaceMetadata, findObjectMetadata, buildCustomFieldSchemas, pickCustomFieldValues } from '../metadata.js';
+import { toolErrorResult } from '../twenty-errors.js';
+import { createWorkspaceMemberResolver } from '../workspace-members.js';
+
+// Custom fields of the default workspace, used when workspace metadata is unavailable
+const DEFAULT_COMPANY_CUSTOM_FIELDS: Record<string, z.ZodTypeAny> = {
+  status: z.enum(['INTERESSE', 'TRIAL', 'KUNDE', 'VERLOREN']).optional().describe('Company status'),
+  unternehmenstyp: z.enum(['HANDWERKSUNTERNEHMEN', 'PARTNER', 'DIENSTLEISTER']).optional().describe('Company type'),
+  source: z.string().optional().describe('Source information (text field)'),
+  demoerstellung: z.string().optional().describe('Demo creation date and time in ISO 8601 format (e.g. "2025-06-30T18:40:51.452Z")')
+};
 
 export function registerCompanyTools(
   server: McpServer,
-  getClient: (sessionId?: string) => TwentyCRMClient,
-  logger: Logger
+  getClient: GetClient,
+  logger: Logger,
+  metadata?: WorkspaceMetadata
 ): void {
 
+  // Custom field schemas are generated from the workspace metadata when available
+  const companyMetadata = metadata && findObjectMetadata(metadata, 'company');
+  const customFields = buildCustomFieldSchemas(companyMetadata) ?? DEFAULT_COMPANY_CUSTOM_FIELDS;
+  const customUpdateFields = buildCustomFieldSchemas(companyMetadata, { partial: true }) ?? DEFAULT_COMPANY_CUSTOM_FIELDS;
+
   // 1. List Companies Tool
   server.registerTool(
     'twenty-crm-list-companies',
@@ -16,51 +37,46 @@ export function registerCompanyTools(
       description: 'Twenty CRM: List and search companies/organizations in Twenty CRM with advanced filtering and pagination',
       inputSchema: {
         orderBy: z.string().optional().describe('Sort order (e.g. "createdAt", "name", "employees")'),
-        filter: z.string().optional().describe('Filter criteria as JSON string (e.g. \'{"status":{"eq":"KUNDE"}}\')'),
+        filter: z.string().optional().describe('Filter in Twenty syntax (e.g. "status[eq]:KUNDE") or as JSON object (e.g. \'{"status":{"eq":"KUNDE"}}\')'),
+        where: whereParamSchema,
         limit: z.number().min(1).max(60).optional().describe('Number of results to return (max 60, default 20)'),
         depth: z.number().min(0).max(3).optional().describe('Depth of related data to include (0-3, default 1)'),
         startingAfter: z.string().optional().describe('Cursor for pagination - start after this ID'),
-        endingBefore: z.string().optional().describe('Cursor for pagination - end before this ID')
+        endingBefore: z.string().optional().describe('Cursor for pagination - end before this ID'),
+        all: z.boolean().optional().describe('Fetch all pages automatically by following the pagination cursor (ignores limit and endingBefore)'),
+        maxRecords: z.number().min(1).max(MAX_PAGINATED_RECORDS).optional().describe(`Maximum number of records to fetch when all is true (default 1000, max ${MAX_PAGINATED_RECORDS})`),
+        ...responseShapeParams,
+        ...cacheControlParams
       }
     },
-    async ({ orderBy, filter, limit = 20, depth = 1, startingAfter, endingBefore }, extra) => {
+    async ({ orderBy, filter, where, limit = 20, depth = 1, startingAfter, endingBefore, all = false, maxRecords = 1000, fields, format, maxChars, noCache }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra).withCache(!noCache);
         
-        logger.info(`Listing companies with params:`, { orderBy, filter, limit, depth });
+        logger.info(`Listing companies with params:`, { orderBy, filter, where, limit, depth, all, maxRecords });
         
-        const queryParams = new URLSearchParams();
-        if (orderBy) queryParams.append('orderBy', orderBy);
-        if (filter) queryParams.append('filter', filter);
-        queryParams.append('limit', limit.toString());
-        queryParams.append('depth', depth.toString());
-        if (startingAfter) queryParams.append('startingAfter', startingAfter);
-        if (endingBefore) queryParams.append('endingBefore', endingBefore);
+        const resolvedFilter = resolveFilter(filter, where);
         
-        const response = await client.makeRequest('GET', `/companies?${queryParams.toString()}`);
+        const response = all
+          ? await client.fetchAll('/companies', 'companies', { orderBy, filter: resolvedFilter, depth, startingAfter }, { maxRecords })
+          : await client.findManyCompanies({ orderBy, filter: resolvedFilter, limit, depth, startingAfter, endingBefore });
         
         return {
           content: [{
             type: 'text',
-            text: JSON.stringify({
+            text: formatResponse({
               companies: response.data?.companies || [],
               pageInfo: response.pageInfo || {},
               totalCount: response.totalCount || 0,
-              query: { orderBy, filter, limit, depth, startingAfter, endingBefore }
-            }, null, 2)
+              ...('truncated' in response && { truncated: response.truncated }),
+              query: { orderBy, filter: resolvedFilter, limit, depth, startingAfter, endingBefore, all, maxRecords }
+            }, 'companies', { fields, format, maxChars })
           }]
         };
         
       } catch (error) {
         logger.error('Error listing companies:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error listing companies: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error listing companies', error);
       }
     }
   );
@@ -72,39 +88,31 @@ export function registerCompanyTools(
       description: 'Twenty CRM: Get detailed information about a specific company by ID',
       inputSchema: {
         id: z.string().describe('UUID of the company to retrieve'),
-        depth: z.number().min(0).max(3).optional().describe('Depth of related data to include (0-3, default 1)')
+        depth: z.number().min(0).max(3).optional().describe('Depth of related data to include (0-3, default 1)'),
+        ...responseShapeParams,
+        ...cacheControlParams
       }
     },
-    async ({ id, depth = 1 }, extra) => {
+    async ({ id, depth = 1, fields, format, maxChars, noCache }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra).withCache(!noCache);
         
         logger.info(`Getting company ${id} with depth ${depth}`);
         
-        const queryParams = new URLSearchParams();
-        queryParams.append('depth', depth.toString());
-        
-        const response = await client.makeRequest('GET', `/companies/${id}?${queryParams.toString()}`);
+        const company = await client.findOneCompany(id, depth);
         
         return {
           content: [{
             type: 'text',
-            text: JSON.stringify({
-              company: response.data?.company || null
-            }, null, 2)
+            text: formatResponse({
+              company
+            }, 'company', { fields, format, maxChars })
           }]
         };
         
       } catch (error) {
         logger.error('Error getting company:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error getting company: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error getting company', error);
       }
     }
   );
@@ -136,18 +144,14 @@ export function registerCompanyTools(
         annualRevenueCurrency: z.string().optional().describe('Currency code (e.g. "EUR", "USD")'),
         position: z.number().optional().describe('Position/order for sorting'),
         idealCustomerProfile: z.boolean().optional().describe('Mark as ideal customer profile'),
-        accountOwnerId: z.string().optional().describe('UUID of the account owner'),
-        status: z.enum(['INTERESSE', 'TRIAL', 'KUNDE', 'VERLOREN']).optional().describe('Company status'),
-        unternehmenstyp: z.enum(['HANDWERKSUNTERNEHMEN', 'PARTNER', 'DIENSTLEISTER']).optional().describe('Company type'),
-        source: z.string().optional().describe('Source information (text field)'),
-        demoerstellung: z.string().optional().describe('Demo creation date and time in ISO 8601 format (e.g. "2025-06-30T18:40:51.452Z")'),
+        accountOwnerId: z.string().optional().describe('Workspace member owning the account: UUID, name, email or "me" for the owner of the API key'),
+        ...customFields,
         createdBySource: z.enum(['EMAIL', 'CALENDAR', 'WORKFLOW', 'API', 'IMPORT', 'MANUAL', 'SYSTEM', 'WEBHOOK']).optional().describe('Source of creation')
       }
     },
     async (params, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Creating company: ${params.name}`);
         
@@ -181,11 +185,10 @@ export function registerCompanyTools(
         if (params.employees !== undefined) companyData.employees = params.employees;
         if (params.position !== undefined) companyData.position = params.position;
         if (params.idealCustomerProfile !== undefined) companyData.idealCustomerProfile = params.idealCustomerProfile;
-        if (params.accountOwnerId) companyData.accountOwnerId = params.accountOwnerId;
-        if (params.status) companyData.status = params.status;
-        if (params.unternehmenstyp) companyData.unternehmenstyp = params.unternehmenstyp;
-        if (params.source) companyData.source = params.source;
-        if (params.demoerstellung) companyData.demoerstellung = params.demoerstellung;
+        if (params.accountOwnerId) companyData.accountOwnerId = await createWorkspaceMemberResolver(client)(params.accountOwnerId);
+
+        // Add workspace custom fields
+        Object.assign(companyData, pickCustomFieldValues(params, customFields));
 
         // Add LinkedIn link if provided
         if (params.linkedinUrl) {
@@ -218,14 +221,14 @@ export function registerCompanyTools(
           };
         }
         
-        const response = await client.makeRequest('POST', '/companies', companyData);
+        const company = await client.createOneCompany(companyData);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              company: response.data?.createCompany || null,
+              company,
               message: 'Company created successfully'
             }, null, 2)
           }]
@@ -233,13 +236,7 @@ export function registerCompanyTools(
         
       } catch (error) {
         logger.error('Error creating company:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error creating company: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error creating company', error);
       }
     }
   );
@@ -272,18 +269,14 @@ export function registerCompanyTools(
         annualRevenueCurrency: z.string().optional().describe('Currency code (e.g. "EUR", "USD")'),
         position: z.number().optional().describe('Position/order for sorting'),
         idealCustomerProfile: z.boolean().optional().describe('Mark as ideal customer profile'),
-        accountOwnerId: z.string().nullable().optional().describe('UUID of the account owner (null to remove)'),
-        status: z.enum(['INTERESSE', 'TRIAL', 'KUNDE', 'VERLOREN']).optional().describe('Company status'),
-        unternehmenstyp: z.enum(['HANDWERKSUNTERNEHMEN', 'PARTNER', 'DIENSTLEISTER']).optional().describe('Company type'),
-        source: z.string().optional().describe('Source information (text field)'),
-        demoerstellung: z.string().optional().describe('Demo creation date and time in ISO 8601 format (e.g. "2025-06-30T18:40:51.452Z")'),
+        accountOwnerId: z.string().nullable().optional().describe('Workspace member owning the account: UUID, name, email or "me" (null to remove)'),
+        ...customUpdateFields,
         depth: z.number().min(0).max(3).optional().describe('Depth of related data to include in response (0-3, default 1)')
       }
     },
     async (params, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Updating company ${params.id}`);
         
@@ -321,11 +314,12 @@ export function registerCompanyTools(
         if (params.employees !== undefined) updateData.employees = params.employees;
         if (params.position !== undefined) updateData.position = params.position;
         if (params.idealCustomerProfile !== undefined) updateData.idealCustomerProfile = params.idealCustomerProfile;
-        if (params.accountOwnerId !== undefined) updateData.accountOwnerId = params.accountOwnerId;
-        if (params.status !== undefined) updateData.status = params.status;
-        if (params.unternehmenstyp !== undefined) updateData.unternehmenstyp = params.unternehmenstyp;
-        if (params.source !== undefined) updateData.source = params.source;
-        if (params.demoerstellung !== undefined) updateData.demoerstellung = params.demoerstellung;
+        if (params.accountOwnerId !== undefined) {
+          updateData.accountOwnerId = params.accountOwnerId && await createWorkspaceMemberResolver(client)(params.accountOwnerId);
+        }
+
+        // Update workspace custom fields
+        Object.assign(updateData, pickCustomFieldValues(params, customUpdateFields));
 
         // Update LinkedIn link if provided
         if (params.linkedinUrl !== undefined) {
@@ -351,19 +345,14 @@ export function registerCompanyTools(
           };
         }
 
-        const queryParams = new URLSearchParams();
-        if (params.depth !== undefined) {
-          queryParams.append('depth', params.depth.toString());
-        }
-        
-        const response = await client.makeRequest('PATCH', `/companies/${params.id}?${queryParams.toString()}`, updateData);
+        const company = await client.updateOneCompany(params.id, updateData, params.depth);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              company: response.data?.updateCompany || null,
+              company,
               message: 'Company updated successfully'
             }, null, 2)
           }]
@@ -371,13 +360,7 @@ export function registerCompanyTools(
         
       } catch (error) {
         logger.error('Error updating company:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error updating company: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error updating company', error);
       }
     }
   );
@@ -393,19 +376,18 @@ export function registerCompanyTools(
     },
     async ({ id }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Deleting company ${id}`);
         
-        const response = await client.makeRequest('DELETE', `/companies/${id}`);
+        const deleted = await client.deleteOneCompany(id);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              deletedId: response.data?.deleteCompany?.id || id,
+              deletedId: deleted.id,
               message: 'Company deleted successfully'
             }, null, 2)
           }]
@@ -413,13 +395,7 @@ export function registerCompanyTools(
         
       } catch (error) {
         logger.error('Error deleting company:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error deleting company: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error deleting company', error);
       }
     }
   );
@@ -436,16 +412,14 @@ export function registerCompanyTools(
           addressCity: z.string().optional(),
           addressCountry: z.string().optional(),
           employees: z.number().int().optional(),
-          status: z.enum(['INTERESSE', 'TRIAL', 'KUNDE', 'VERLOREN']).optional(),
-          unternehmenstyp: z.enum(['HANDWERKSUNTERNEHMEN', 'PARTNER', 'DIENSTLEISTER']).optional(),
-          idealCustomerProfile: z.boolean().optional()
+          idealCustomerProfile: z.boolean().optional(),
+          ...customFields
         })).describe('Array of companies to create')
       }
     },
     async ({ companies }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Batch creating ${companies.length} companies`);
         
@@ -464,19 +438,18 @@ export function registerCompanyTools(
             }
           },
           ...(company.employees !== undefined && { employees: company.employees }),
-          ...(company.status && { status: company.status }),
-          ...(company.unternehmenstyp && { unternehmenstyp: company.unternehmenstyp }),
-          ...(company.idealCustomerProfile !== undefined && { idealCustomerProfile: company.idealCustomerProfile })
+          ...(company.idealCustomerProfile !== undefined && { idealCustomerProfile: company.idealCustomerProfile }),
+          ...pickCustomFieldValues(company, customFields)
         }));
         
-        const response = await client.makeRequest('POST', '/batch/companies', companiesData);
+        const created = await client.createManyCompanies(companiesData);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              companies: response.data?.createCompanies || [],
+              companies: created,
               message: `${companies.length} companies created successfully`
             }, null, 2)
           }]
@@ -484,13 +457,7 @@ export function registerCompanyTools(
         
       } catch (error) {
         logger.error('Error batch creating companies:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error batch creating companies: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error batch creating companies', error);
       }
     }
   );
@@ -510,8 +477,7 @@ export function registerCompanyTools(
     },
     async ({ data, ids }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Finding company duplicates`);
         
@@ -531,13 +497,13 @@ export function registerCompanyTools(
           requestBody.ids = ids;
         }
         
-        const response = await client.makeRequest('POST', '/companies/duplicates', requestBody);
+        const duplicates = await client.findCompanyDuplicates(requestBody);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
-              duplicates: response.data || [],
+              duplicates,
               message: 'Duplicate search completed'
             }, null, 2)
           }]
@@ -545,13 +511,7 @@ export function registerCompanyTools(
         
       } catch (error) {
         logger.error('Error finding company duplicates:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error finding company duplicates: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error finding company duplicates', error);
       }
     }
   );
@@ -0,0 +1,102 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { Logger } from 'winston';
+import { GetClient } from '../auth/request-context.js';
+import { loadWorkspaceMetadata, findObjectMetadata } from '../metadata.js';
+import { toolErrorResult } from '../twenty-errors.js';
+
+export function registerMetadataTools(
+  server: McpServer,
+  getClient: GetClient,
+  logger: Logger
+): void {
+
+  // 1. Describe Object Tool
+  server.registerTool(
+    'twenty-crm-describe-object',
+    {
+      description: 'Twenty CRM: Describe the workspace data model from Twenty metadata. Without objectName, lists all objects; with objectName, returns real field names, types, required flags and select options (use this before filtering or creating records with custom fields)',
+      inputSchema: {
+        objectName: z.string().optional().describe('Singular or plural API name of the object (e.g. "person", "companies", "opportunity")'),
+        includeSystemFields: z.boolean().optional().describe('Include system fields like id, createdAt, position (default false)'),
+        includeInactive: z.boolean().optional().describe('Include inactive objects/fields (default false)'),
+        refresh: z.boolean().optional().describe('Reload metadata from Twenty instead of using the cache (default false)')
+      }
+    },
+    async ({ objectName, includeSystemFields = false, includeInactive = false, refresh = false }, extra) => {
+      try {
+        // A refresh must not be answered from the response cache either
+        const client = getClient(extra).withCache(!refresh);
+
+        logger.info(`Describing object metadata`, { objectName, includeSystemFields, refresh });
+
+        const metadata = await loadWorkspaceMetadata(client, logger, { refresh });
+
+        if (!objectName) {
+          const objects = metadata.objects
+            .filter(object => includeInactive || object.isActive !== false)
+            .filter(object => includeSystemFields || !object.isSystem)
+            .map(object => ({
+              nameSingular: object.nameSingular,
+              namePlural: object.namePlural,
+              label: object.labelSingular,
+              isCustom: !!object.isCustom,
+              fieldCount: object.fields.length
+            }));
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                objects,
+                totalCount: objects.length,
+                loadedAt: metadata.loadedAt.toISOString()
+              }, null, 2)
+            }]
+          };
+        }
+
+        const object = findObjectMetadata(metadata, objectName);
+        if (!object) {
+          throw new Error(`Unknown object "${objectName}". Available objects: ${metadata.objects.map(o => o.nameSingular).join(', ')}`);
+        }
+
+        const fields = object.fields
+          .filter(field => includeInactive || field.isActive !== false)
+          .filter(field => includeSystemFields || !field.isSystem)
+          .map(field => ({
+            name: field.name,
+            label: field.label,
+            type: field.type,
+            required: field.isNullable === false && field.defaultValue == null,
+            isCustom: !!field.isCustom,
+            ...(field.description && { description: field.description }),
+            ...(field.options && { options: field.options.map(option => ({ value: option.value, label: option.label })) }),
+            ...(field.relation && { relation: field.relation })
+          }));
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              object: {
+                nameSingular: object.nameSingular,
+                namePlural: object.namePlural,
+                label: object.labelSingular,
+                description: object.description,
+                isCustom: !!object.isCustom
+              },
+              fields,
+              fieldCount: fields.length,
+              loadedAt: metadata.loadedAt.toISOString()
+            }, null, 2)
+          }]
+        };
+
+      } catch (error) {
+        logger.error('Error describing object:', error);
+        return toolErrorResult('Error describing object', error);
+      }
+    }
+  );
+}
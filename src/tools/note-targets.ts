@@ -1,11 +1,18 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { TwentyCRMClient } from '../twenty-client.js';
+import { MAX_PAGINATED_RECORDS } from '../twenty-client.js';
 import { z } from 'zod';
+import { resolveFilter, whereParamSchema } from '../filters.js';
 import { Logger } from 'winston';
+import { GetClient } from '../auth/request-context.js';
+import { formatResponse, responseShapeParams } from '../formatting.js';
+import { cacheControlParams } from '../response-cache.js';
+import { toolErrorResult } from '../twenty-errors.js';
+import { tryLoadWorkspaceMetadata } from '../metadata.js';
+import { GRAPHQL_PAGE_SIZE, buildLinkedActivitiesQuery, nodesOf } from '../graphql.js';
 
 export function registerNoteTargetTools(
   server: McpServer,
-  getClient: (sessionId?: string) => TwentyCRMClient,
+  getClient: GetClient,
   logger: Logger
 ): void {
 
@@ -16,51 +23,46 @@ export function registerNoteTargetTools(
       description: 'Twenty CRM: List and search note targets (note-entity relationships) in Twenty CRM',
       inputSchema: {
         orderBy: z.string().optional().describe('Sort order (e.g. "createdAt", "noteId")'),
-        filter: z.string().optional().describe('Filter criteria as JSON string (e.g. \'{"companyId":{"eq":"uuid"}}\''),
+        filter: z.string().optional().describe('Filter in Twenty syntax (e.g. "companyId[eq]:uuid") or as JSON object (e.g. \'{"companyId":{"eq":"uuid"}}\''),
+        where: whereParamSchema,
         limit: z.number().min(1).max(60).optional().describe('Number of results to return (max 60, default 20)'),
         depth: z.number().min(0).max(3).optional().describe('Depth of related data to include (0-3, default 1)'),
         startingAfter: z.string().optional().describe('Cursor for pagination - start after this ID'),
-        endingBefore: z.string().optional().describe('Cursor for pagination - end before this ID')
+        endingBefore: z.string().optional().describe('Cursor for pagination - end before this ID'),
+        all: z.boolean().optional().describe('Fetch all pages automatically by following the pagination cursor (ignores limit and endingBefore)'),
+        maxRecords: z.number().min(1).max(MAX_PAGINATED_RECORDS).optional().describe(`Maximum number of records to fetch when all is true (default 1000, max ${MAX_PAGINATED_RECORDS})`),
+        ...responseShapeParams,
+        ...cacheControlParams
       }
     },
-    async ({ orderBy, filter, limit = 20, depth = 1, startingAfter, endingBefore }, extra) => {
+    async ({ orderBy, filter, where, limit = 20, depth = 1, startingAfter, endingBefore, all = false, maxRecords = 1000, fields, format, maxChars, noCache }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra).withCache(!noCache);
         
-        logger.info(`Listing note targets with params:`, { orderBy, filter, limit, depth });
+        logger.info(`Listing note targets with params:`, { orderBy, filter, where, limit, depth, all, maxRecords });
         
-        const queryParams = new URLSearchParams();
-        if (orderBy) queryParams.append('orderBy', orderBy);
-        if (filter) queryParams.append('filter', filter);
-        queryParams.append('limit', limit.toString());
-        queryParams.append('depth', depth.toString());
-        if (startingAfter) queryParams.append('startingAfter', startingAfter);
-        if (endingBefore) queryParams.append('endingBefore', endingBefore);
+        const resolvedFilter = resolveFilter(filter, where);
         
-        const response = await client.makeRequest('GET', `/noteTargets?${queryParams.toString()}`);
+        const response = all
+          ? await client.fetchAll('/noteTargets', 'noteTargets', { orderBy, filter: resolvedFilter, depth, startingAfter }, { maxRecords })
+          : await client.findManyNoteTargets({ orderBy, filter: resolvedFilter, limit, depth, startingAfter, endingBefore });
         
         return {
           content: [{
             type: 'text',
-            text: JSON.stringify({
+            text: formatResponse({
               noteTargets: response.data?.noteTargets || [],
               pageInfo: response.pageInfo || {},
               totalCount: response.totalCount || 0,
-              query: { orderBy, filter, limit, depth, startingAfter, endingBefore }
-            }, null, 2)
+              ...('truncated' in response && { truncated: response.truncated }),
+              query: { orderBy, filter: resolvedFilter, limit, depth, startingAfter, endingBefore, all, maxRecords }
+            }, 'noteTargets', { fields, format, maxChars })
           }]
         };
         
       } catch (error) {
         logger.error('Error listing note targets:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error listing note targets: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error listing note targets', error);
       }
     }
   );
@@ -72,39 +74,31 @@ export function registerNoteTargetTools(
       description: 'Twenty CRM: Get detailed information about a specific note target by ID',
       inputSchema: {
         id: z.string().describe('UUID of the note target to retrieve'),
-        depth: z.number().min(0).max(3).optional().describe('Depth of related data to include (0-3, default 1)')
+        depth: z.number().min(0).max(3).optional().describe('Depth of related data to include (0-3, default 1)'),
+        ...responseShapeParams,
+        ...cacheControlParams
       }
     },
-    async ({ id, depth = 1 }, extra) => {
+    async ({ id, depth = 1, fields, format, maxChars, noCache }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra).withCache(!noCache);
         
         logger.info(`Getting note target ${id} with depth ${depth}`);
         
-        const queryParams = new URLSearchParams();
-        queryParams.append('depth', depth.toString());
-        
-        const response = await client.makeRequest('GET', `/noteTargets/${id}?${queryParams.toString()}`);
+        const noteTarget = await client.findOneNoteTarget(id, depth);
         
         return {
           content: [{
             type: 'text',
-            text: JSON.stringify({
-              noteTarget: response.data?.noteTarget || null
-            }, null, 2)
+            text: formatResponse({
+              noteTarget
+            }, 'noteTarget', { fields, format, maxChars })
           }]
         };
         
       } catch (error) {
         logger.error('Error getting note target:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error getting note target: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error getting note target', error);
       }
     }
   );
@@ -124,8 +118,7 @@ export function registerNoteTargetTools(
     },
     async (params, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Creating note target for note ${params.noteId}`);
         
@@ -145,14 +138,14 @@ export function registerNoteTargetTools(
           throw new Error('At least one target ID (personId, companyId, opportunityId, or neusDatenmodelId) must be provided');
         }
         
-        const response = await client.makeRequest('POST', '/noteTargets', noteTargetData);
+        const noteTarget = await client.createOneNoteTarget(noteTargetData);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              noteTarget: response.data?.createNoteTarget || null,
+              noteTarget,
               message: 'Note target created successfully'
             }, null, 2)
           }]
@@ -160,13 +153,7 @@ export function registerNoteTargetTools(
         
       } catch (error) {
         logger.error('Error creating note target:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error creating note target: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error creating note target', error);
       }
     }
   );
@@ -188,8 +175,7 @@ export function registerNoteTargetTools(
     },
     async (params, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Updating note target ${params.id}`);
         
@@ -202,19 +188,14 @@ export function registerNoteTargetTools(
         if (params.opportunityId !== undefined) updateData.opportunityId = params.opportunityId;
         if (params.neusDatenmodelId !== undefined) updateData.neusDatenmodelId = params.neusDatenmodelId;
 
-        const queryParams = new URLSearchParams();
-        if (params.depth !== undefined) {
-          queryParams.append('depth', params.depth.toString());
-        }
-        
-        const response = await client.makeRequest('PATCH', `/noteTargets/${params.id}?${queryParams.toString()}`, updateData);
+        const noteTarget = await client.updateOneNoteTarget(params.id, updateData, params.depth);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              noteTarget: response.data?.updateNoteTarget || null,
+              noteTarget,
               message: 'Note target updated successfully'
             }, null, 2)
           }]
@@ -222,13 +203,7 @@ export function registerNoteTargetTools(
         
       } catch (error) {
         logger.error('Error updating note target:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error updating note target: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error updating note target', error);
       }
     }
   );
@@ -244,19 +219,18 @@ export function registerNoteTargetTools(
     },
     async ({ id }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Deleting note target ${id}`);
         
-        const response = await client.makeRequest('DELETE', `/noteTargets/${id}`);
+        const deleted = await client.deleteOneNoteTarget(id);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              deletedId: response.data?.deleteNoteTarget?.id || id,
+              deletedId: deleted.id,
               message: 'Note target deleted successfully'
             }, null, 2)
           }]
@@ -264,13 +238,7 @@ export function registerNoteTargetTools(
         
       } catch (error) {
         logger.error('Error deleting note target:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error deleting note target: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error deleting note target', error);
       }
     }
   );
@@ -292,8 +260,7 @@ export function registerNoteTargetTools(
     },
     async ({ noteTargets }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Batch creating ${noteTargets.length} note targets`);
         
@@ -310,14 +277,14 @@ export function registerNoteTargetTools(
           return data;
         });
         
-        const response = await client.makeRequest('POST', '/batch/noteTargets', noteTargetsData);
+        const created = await client.createManyNoteTargets(noteTargetsData);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              noteTargets: response.data?.createNoteTargets || [],
+              noteTargets: created,
               message: `${noteTargets.length} note targets created successfully`
             }, null, 2)
           }]
@@ -325,13 +292,7 @@ export function registerNoteTargetTools(
         
       } catch (error) {
         logger.error('Error batch creating note targets:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error batch creating note targets: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error batch creating note targets', error);
       }
     }
   );
@@ -344,13 +305,14 @@ export function registerNoteTargetTools(
       inputSchema: {
         companyId: z.string().optional().describe('UUID of the company to get notes for'),
         personId: z.string().optional().describe('UUID of the person to get notes for'),
-        depth: z.number().min(0).max(3).optional().describe('Depth of related data to include (0-3, default 2)')
+        depth: z.number().min(0).max(3).optional().describe('Related data per note: 0 for the note only, 1 or more to also list all records it is linked to (default 2)'),
+        ...responseShapeParams,
+        ...cacheControlParams
       }
     },
-    async ({ companyId, personId, depth = 2 }, extra) => {
+    async ({ companyId, personId, depth = 2, fields, format, maxChars, noCache }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra).withCache(!noCache);
         
         if (!companyId && !personId) {
           throw new Error('Either companyId or personId must be provided');
@@ -361,44 +323,36 @@ export function registerNoteTargetTools(
         
         logger.info(`Getting notes for ${entityType} ${entityId}`);
         
-        // Build filter for the specific entity
-        const filter = companyId 
-          ? `{"companyId":{"eq":"${companyId}"}}`
-          : `{"personId":{"eq":"${personId}"}}`;
-        
-        const queryParams = new URLSearchParams();
-        queryParams.append('filter', filter);
-        queryParams.append('depth', depth.toString());
+        // Targets and their notes in a single GraphQL query instead of REST with nested depth;
+        // without metadata only standard note fields are selected
+        const metadata = await tryLoadWorkspaceMetadata(client, logger);
+        const data = await client.graphql(
+          buildLinkedActivitiesQuery('note', `${entityType}Id`, { first: GRAPHQL_PAGE_SIZE, depth, metadata }),
+          { id: entityId }
+        );
         
-        const response = await client.makeRequest('GET', `/noteTargets?${queryParams.toString()}`);
-        
-        // Extract notes from the noteTargets
-        const noteTargets = response.data?.noteTargets || [];
-        const notes = noteTargets.map((target: any) => target.note).filter(Boolean);
+        const noteTargets = nodesOf<any>(data?.noteTargets);
+        const notes = noteTargets.map(target => target.note).filter(Boolean)
+          .map(note => note.noteTargets ? { ...note, noteTargets: nodesOf(note.noteTargets) } : note);
         
         return {
           content: [{
             type: 'text',
-            text: JSON.stringify({
+            text: formatResponse({
               entityType,
               entityId,
               notesCount: notes.length,
               notes: notes,
-              noteTargets: noteTargets, // Include full targets for reference
+              // Targets for reference, only in unshaped output to keep shaped responses small
+              ...(!fields && (format ?? 'json') === 'json' && { noteTargets: noteTargets.map(({ note, ...target }) => target) }),
               message: `Found ${notes.length} notes for ${entityType} ${entityId}`
-            }, null, 2)
+            }, 'notes', { fields, format, maxChars })
           }]
         };
         
       } catch (error) {
         logger.error('Error getting notes for entity:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error getting notes for entity: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error getting notes for entity', error);
       }
     }
   );
@@ -1,11 +1,16 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { TwentyCRMClient } from '../twenty-client.js';
+import { MAX_PAGINATED_RECORDS } from '../twenty-client.js';
 import { z } from 'zod';
+import { resolveFilter, whereParamSchema } from '../filters.js';
 import { Logger } from 'winston';
+import { GetClient } from '../auth/request-context.js';
+import { formatResponse, responseShapeParams } from '../formatting.js';
+import { cacheControlParams } from '../response-cache.js';
+import { toolErrorResult } from '../twenty-errors.js';
 
 export function registerNotesTools(
   server: McpServer,
-  getClient: (sessionId?: string) => TwentyCRMClient,
+  getClient: GetClient,
   logger: Logger
 ): void {
 
@@ -16,51 +21,46 @@ export function registerNotesTools(
       description: 'Twenty CRM: List and search notes in Twenty CRM with advanced filtering and pagination',
       inputSchema: {
         orderBy: z.string().optional().describe('Sort order (e.g. "createdAt", "title", "updatedAt")'),
-        filter: z.string().optional().describe('Filter criteria as JSON string (e.g. \'{"title":{"ilike":"*demo*"}}\''),
+        filter: z.string().optional().describe('Filter in Twenty syntax (e.g. "title[ilike]:*demo*") or as JSON object (e.g. \'{"title":{"ilike":"*demo*"}}\''),
+        where: whereParamSchema,
         limit: z.number().min(1).max(60).optional().describe('Number of results to return (max 60, default 20)'),
         depth: z.number().min(0).max(3).optional().describe('Depth of related data to include (0-3, default 1)'),
         startingAfter: z.string().optional().describe('Cursor for pagination - start after this ID'),
-        endingBefore: z.string().optional().describe('Cursor for pagination - end before this ID')
+        endingBefore: z.string().optional().describe('Cursor for pagination - end before this ID'),
+        all: z.boolean().optional().describe('Fetch all pages automatically by following the pagination cursor (ignores limit and endingBefore)'),
+        maxRecords: z.number().min(1).max(MAX_PAGINATED_RECORDS).optional().describe(`Maximum number of records to fetch when all is true (default 1000, max ${MAX_PAGINATED_RECORDS})`),
+        ...responseShapeParams,
+        ...cacheControlParams
       }
     },
-    async ({ orderBy, filter, limit = 20, depth = 1, startingAfter, endingBefore }, extra) => {
+    async ({ orderBy, filter, where, limit = 20, depth = 1, startingAfter, endingBefore, all = false, maxRecords = 1000, fields, format, maxChars, noCache }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra).withCache(!noCache);
         
-        logger.info(`Listing notes with params:`, { orderBy, filter, limit, depth });
+        logger.info(`Listing notes with params:`, { orderBy, filter, where, limit, depth, all, maxRecords });
         
-        const queryParams = new URLSearchParams();
-        if (orderBy) queryParams.append('orderBy', orderBy);
-        if (filter) queryParams.append('filter', filter);
-        queryParams.append('limit', limit.toString());
-        queryParams.append('depth', depth.toString());
-        if (startingAfter) queryParams.append('startingAfter', startingAfter);
-        if (endingBefore) queryParams.append('endingBefore', endingBefore);
+        const resolvedFilter = resolveFilter(filter, where);
         
-        const response = await client.makeRequest('GET', `/notes?${queryParams.toString()}`);
+        const response = all
+          ? await client.fetchAll('/notes', 'notes', { orderBy, filter: resolvedFilter, depth, startingAfter }, { maxRecords })
+          : await client.findManyNotes({ orderBy, filter: resolvedFilter, limit, depth, startingAfter, endingBefore });
         
         return {
           content: [{
             type: 'text',
-            text: JSON.stringify({
+            text: formatResponse({
               notes: response.data?.notes || [],
               pageInfo: response.pageInfo || {},
               totalCount: response.totalCount || 0,
-              query: { orderBy, filter, limit, depth, startingAfter, endingBefore }
-            }, null, 2)
+              ...('truncated' in response && { truncated: response.truncated }),
+              query: { orderBy, filter: resolvedFilter, limit, depth, startingAfter, endingBefore, all, maxRecords }
+            }, 'notes', { fields, format, maxChars })
           }]
         };
         
       } catch (error) {
         logger.error('Error listing notes:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error listing notes: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error listing notes', error);
       }
     }
   );
@@ -72,39 +72,31 @@ export function registerNotesTools(
       description: 'Twenty CRM: Get detailed information about a specific note by ID',
       inputSchema: {
         id: z.string().describe('UUID of the note to retrieve'),
-        depth: z.number().min(0).max(3).optional().describe('Depth of related data to include (0-3, default 1)')
+        depth: z.number().min(0).max(3).optional().describe('Depth of related data to include (0-3, default 1)'),
+        ...responseShapeParams,
+        ...cacheControlParams
       }
     },
-    async ({ id, depth = 1 }, extra) => {
+    async ({ id, depth = 1, fields, format, maxChars, noCache }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra).withCache(!noCache);
         
         logger.info(`Getting note ${id} with depth ${depth}`);
         
-        const queryParams = new URLSearchParams();
-        queryParams.append('depth', depth.toString());
-        
-        const response = await client.makeRequest('GET', `/notes/${id}?${queryParams.toString()}`);
+        const note = await client.findOneNote(id, depth);
         
         return {
           content: [{
             type: 'text',
-            text: JSON.stringify({
-              note: response.data?.note || null
-            }, null, 2)
+            text: formatResponse({
+              note
+            }, 'note', { fields, format, maxChars })
           }]
         };
         
       } catch (error) {
         logger.error('Error getting note:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error getting note: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error getting note', error);
       }
     }
   );
@@ -125,8 +117,7 @@ export function registerNotesTools(
     },
     async (params, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Creating note: ${params.title}`);
         
@@ -157,12 +148,7 @@ export function registerNotesTools(
         
         logger.debug('Final noteData being sent to API:', noteData);
         
-        const response = await client.makeRequest('POST', '/notes', noteData);
-        const createdNote = response.data?.createNote;
-        
-        if (!createdNote?.id) {
-          throw new Error('Note creation failed - no note ID returned');
-        }
+        const createdNote = await client.createOneNote(noteData);
 
         const results: any = {
           success: true,
@@ -175,14 +161,14 @@ export function registerNotesTools(
         if (params.linkToCompanyId) {
           try {
             logger.info(`Creating NoteTarget for note ${createdNote.id} -> company ${params.linkToCompanyId}`);
-            const targetResponse = await client.makeRequest('POST', '/noteTargets', {
+            const noteTarget = await client.createOneNoteTarget({
               noteId: createdNote.id,
               companyId: params.linkToCompanyId
             });
             results.linkedTargets.push({
               type: 'company',
               targetId: params.linkToCompanyId,
-              noteTarget: targetResponse.data?.createNoteTarget || null
+              noteTarget
             });
             logger.info(`NoteTarget created successfully: note -> company`);
           } catch (linkError) {
@@ -200,14 +186,14 @@ export function registerNotesTools(
         if (params.linkToPersonId) {
           try {
             logger.info(`Creating NoteTarget for note ${createdNote.id} -> person ${params.linkToPersonId}`);
-            const targetResponse = await client.makeRequest('POST', '/noteTargets', {
+            const noteTarget = await client.createOneNoteTarget({
               noteId: createdNote.id,
               personId: params.linkToPersonId
             });
             results.linkedTargets.push({
               type: 'person',
               targetId: params.linkToPersonId,
-              noteTarget: targetResponse.data?.createNoteTarget || null
+              noteTarget
             });
             logger.info(`NoteTarget created successfully: note -> person`);
           } catch (linkError) {
@@ -230,13 +216,7 @@ export function registerNotesTools(
         
       } catch (error) {
         logger.error('Error creating note:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error creating note: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error creating note', error);
       }
     }
   );
@@ -256,8 +236,7 @@ export function registerNotesTools(
     },
     async (params, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Updating note ${params.id}`);
         
@@ -275,19 +254,14 @@ export function registerNotesTools(
           };
         }
 
-        const queryParams = new URLSearchParams();
-        if (params.depth !== undefined) {
-          queryParams.append('depth', params.depth.toString());
-        }
-        
-        const response = await client.makeRequest('PATCH', `/notes/${params.id}?${queryParams.toString()}`, updateData);
+        const note = await client.updateOneNote(params.id, updateData, params.depth);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              note: response.data?.updateNote || null,
+              note,
               message: 'Note updated successfully'
             }, null, 2)
           }]
@@ -295,13 +269,7 @@ export function registerNotesTools(
         
       } catch (error) {
         logger.error('Error updating note:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error updating note: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error updating note', error);
       }
     }
   );
@@ -317,19 +285,18 @@ export function registerNotesTools(
     },
     async ({ id }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Deleting note ${id}`);
         
-        const response = await client.makeRequest('DELETE', `/notes/${id}`);
+        const deleted = await client.deleteOneNote(id);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              deletedId: response.data?.deleteNote?.id || id,
+              deletedId: deleted.id,
               message: 'Note deleted successfully'
             }, null, 2)
           }]
@@ -337,13 +304,7 @@ export function registerNotesTools(
         
       } catch (error) {
         logger.error('Error deleting note:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error deleting note: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error deleting note', error);
       }
     }
   );
@@ -363,8 +324,7 @@ export function registerNotesTools(
     },
     async ({ notes }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Batch creating ${notes.length} notes`);
         
@@ -384,14 +344,14 @@ export function registerNotesTools(
           return noteData;
         });
         
-        const response = await client.makeRequest('POST', '/batch/notes', notesData);
+        const created = await client.createManyNotes(notesData);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              notes: response.data?.createNotes || [],
+              notes: created,
               message: `${notes.length} notes created successfully`
             }, null, 2)
           }]
@@ -399,13 +359,7 @@ export function registerNotesTools(
         
       } catch (error) {
         logger.error('Error batch creating notes:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error batch creating notes: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error batch creating notes', error);
       }
     }
   );
@@ -425,8 +379,7 @@ export function registerNotesTools(
     },
     async ({ data, ids }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Finding note duplicates`);
         
@@ -441,13 +394,13 @@ export function registerNotesTools(
           requestBody.ids = ids;
         }
         
-        const response = await client.makeRequest('POST', '/notes/duplicates', requestBody);
+        const duplicates = await client.findNoteDuplicates(requestBody);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
-              duplicates: response.data || [],
+              duplicates,
               message: 'Duplicate search completed'
             }, null, 2)
           }]
@@ -455,13 +408,7 @@ export function registerNotesTools(
         
       } catch (error) {
         logger.error('Error finding note duplicates:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error finding note duplicates: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error finding note duplicates', error);
       }
     }
   );
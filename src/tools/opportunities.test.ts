@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest';
+import winston from 'winston';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { Opportunity, TwentyCRMClient } from '../twenty-client.js';
+import { registerOpportunityTools } from './opportunities.js';
+
+const logger = winston.createLogger({ silent: true });
+
+type ToolHandler = (params: Record<string, unknown>, extra: object) => Promise<CallToolResult>;
+
+// Registers the tools on a stand-in server and calls them with a stand-in client
+const setup = (current: Opportunity | null) => {
+  const tools = new Map<string, ToolHandler>();
+  const server = { registerTool: (name: string, _config: unknown, handler: ToolHandler) => tools.set(name, handler) };
+  const client = {
+    findOneOpportunity: vi.fn(async () => current),
+    findManyOpportunities: vi.fn(async () => ({ data: { opportunities: current ? [current] : [] }, totalCount: current ? 1 : 0 })),
+    updateOneOpportunity: vi.fn(async (id: string, data: Partial<Opportunity>) => ({ id, ...data })),
+    withCache: () => client
+  };
+  registerOpportunityTools(server as unknown as McpServer, () => client as unknown as TwentyCRMClient, logger);
+  const update = (params: Record<string, unknown>) => tools.get('twenty-crm-update-opportunity')!({ id: 'opportunity-1', ...params }, {});
+  const list = (params: Record<string, unknown>) => tools.get('twenty-crm-list-opportunities')!(params, {});
+  return { client, update, list };
+};
+
+describe('twenty-crm-update-opportunity', () => {
+  const current: Opportunity = { id: 'opportunity-1', amount: { amountMicros: 5_000_000_000, currencyCode: 'USD' } };
+
+  it('keeps the current currency when only the amount changes', async () => {
+    const { client, update } = setup(current);
+    await update({ amount: 7_000_000_000 });
+
+    expect(client.updateOneOpportunity).toHaveBeenCalledWith('opportunity-1', {
+      amount: { amountMicros: 7_000_000_000, currencyCode: 'USD' }
+    }, undefined);
+  });
+
+  it('keeps the current amount when only the currency changes', async () => {
+    const { client, update } = setup(current);
+    await update({ amountCurrency: 'EUR' });
+
+    expect(client.updateOneOpportunity).toHaveBeenCalledWith('opportunity-1', {
+      amount: { amountMicros: 5_000_000_000, currencyCode: 'EUR' }
+    }, undefined);
+  });
+
+  it('sends both parts without reading the record when both are given', async () => {
+    const { client, update } = setup(current);
+    await update({ amount: 1_000_000, amountCurrency: 'GBP' });
+
+    expect(client.findOneOpportunity).not.toHaveBeenCalled();
+    expect(client.updateOneOpportunity).toHaveBeenCalledWith('opportunity-1', {
+      amount: { amountMicros: 1_000_000, currencyCode: 'GBP' }
+    }, undefined);
+  });
+
+  it('leaves the amount alone when neither part is given', async () => {
+    const { client, update } = setup(current);
+    await update({ name: 'Renamed' });
+
+    expect(client.findOneOpportunity).not.toHaveBeenCalled();
+    expect(client.updateOneOpportunity).toHaveBeenCalledWith('opportunity-1', { name: 'Renamed' }, undefined);
+  });
+});
+
+describe('twenty-crm-list-opportunities', () => {
+  it('shapes the records like the other read tools', async () => {
+    const { list } = setup({ id: 'opportunity-1', name: 'Deal', stage: 'NEW', amount: { amountMicros: 1, currencyCode: 'EUR' } });
+    const result = await list({ fields: ['id', 'amount.currencyCode'], format: 'compact' });
+    const text = result.content[0].type === 'text' ? result.content[0].text : '';
+
+    expect(JSON.parse(text).opportunities).toEqual([{ id: 'opportunity-1', amount: { currencyCode: 'EUR' } }]);
+  });
+});
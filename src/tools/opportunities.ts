@@ -0,0 +1,567 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Opportunity, OpportunityStage, MAX_PAGINATED_RECORDS } from '../twenty-client.js';
+import { z } from 'zod';
+import { resolveFilter, whereParamSchema } from '../filters.js';
+import { Logger } from 'winston';
+import { GetClient } from '../auth/request-context.js';
+import { toolErrorResult } from '../twenty-errors.js';
+import { formatResponse, responseShapeParams } from '../formatting.js';
+import { cacheControlParams } from '../response-cache.js';
+
+const PIPELINE_STAGES: OpportunityStage[] = ['NEW', 'SCREENING', 'MEETING', 'PROPOSAL', 'CUSTOMER'];
+
+// Default win probability per stage for the weighted forecast
+const DEFAULT_STAGE_WEIGHTS: Record<OpportunityStage, number> = {
+  NEW: 0.1,
+  SCREENING: 0.2,
+  MEETING: 0.4,
+  PROPOSAL: 0.6,
+  CUSTOMER: 1
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Amounts are stored in micros, summaries report both micros and major units
+const toAmountTotals = (micros: Record<string, number>) =>
+  Object.fromEntries(Object.entries(micros).map(([currency, amountMicros]) => [
+    currency,
+    { amountMicros, amount: amountMicros / 1_000_000 }
+  ]));
+
+// Aggregate opportunities into per-stage counts, amounts, forecast, age and overdue deals
+function summarizePipeline(opportunities: Opportunity[], weights: Record<OpportunityStage, number>) {
+  const now = Date.now();
+  const stages = new Map<string, { count: number; amounts: Record<string, number>; weighted: Record<string, number>; ageDaysTotal: number; ageCount: number }>();
+  const totals: Record<string, number> = {};
+  const forecast: Record<string, number> = {};
+  const overdue: any[] = [];
+
+  for (const stage of PIPELINE_STAGES) {
+    stages.set(stage, { count: 0, amounts: {}, weighted: {}, ageDaysTotal: 0, ageCount: 0 });
+  }
+
+  for (const opportunity of opportunities) {
+    const stage = opportunity.stage || 'UNKNOWN';
+    if (!stages.has(stage)) {
+      stages.set(stage, { count: 0, amounts: {}, weighted: {}, ageDaysTotal: 0, ageCount: 0 });
+    }
+    const bucket = stages.get(stage)!;
+    bucket.count++;
+
+    const amountMicros = Number(opportunity.amount?.amountMicros);
+    if (Number.isFinite(amountMicros) && amountMicros !== 0) {
+      const currency = opportunity.amount?.currencyCode || 'UNKNOWN';
+      const weight = weights[stage as OpportunityStage] ?? 0;
+      bucket.amounts[currency] = (bucket.amounts[currency] || 0) + amountMicros;
+      bucket.weighted[currency] = (bucket.weighted[currency] || 0) + amountMicros * weight;
+      totals[currency] = (totals[currency] || 0) + amountMicros;
+      forecast[currency] = (forecast[currency] || 0) + amountMicros * weight;
+    }
+
+    if (opportunity.createdAt) {
+      const createdAt = new Date(opportunity.createdAt).getTime();
+      if (!Number.isNaN(createdAt)) {
+        bucket.ageDaysTotal += (now - createdAt) / DAY_MS;
+        bucket.ageCount++;
+      }
+    }
+
+    if (opportunity.closeDate && stage !== 'CUSTOMER') {
+      const closeDate = new Date(opportunity.closeDate).getTime();
+      if (!Number.isNaN(closeDate) && closeDate < now) {
+        overdue.push({
+          id: opportunity.id,
+          name: opportunity.name,
+          stage,
+          closeDate: opportunity.closeDate,
+          daysOverdue: Math.floor((now - closeDate) / DAY_MS),
+          amount: opportunity.amount || null
+        });
+      }
+    }
+  }
+
+  overdue.sort((a, b) => b.daysOverdue - a.daysOverdue);
+
+  return {
+    totalOpportunities: opportunities.length,
+    stages: Array.from(stages.entries()).map(([stage, bucket]) => ({
+      stage,
+      count: bucket.count,
+      weight: weights[stage as OpportunityStage] ?? 0,
+      amounts: toAmountTotals(bucket.amounts),
+      weightedAmounts: toAmountTotals(bucket.weighted),
+      averageAgeDays: bucket.ageCount > 0 ? Math.round(bucket.ageDaysTotal / bucket.ageCount * 10) / 10 : null
+    })),
+    totals: toAmountTotals(totals),
+    weightedForecast: toAmountTotals(forecast),
+    overdueCount: overdue.length,
+    overdueDeals: overdue
+  };
+}
+
+export function registerOpportunityTools(
+  server: McpServer,
+  getClient: GetClient,
+  logger: Logger
+): void {
+
+  // 1. List Opportunities Tool
+  server.registerTool(
+    'twenty-crm-list-opportunities',
+    {
+      description: 'Twenty CRM: List and search opportunities/deals in Twenty CRM with advanced filtering and pagination',
+      inputSchema: {
+        orderBy: z.string().optional().describe('Sort order (e.g. "createdAt", "closeDate", "amount.amountMicros", "stage")'),
+        filter: z.string().optional().describe('Filter in Twenty syntax (e.g. "stage[eq]:PROPOSAL") or as JSON object (e.g. \'{"stage":{"eq":"PROPOSAL"}}\')'),
+        where: whereParamSchema,
+        limit: z.number().min(1).max(60).optional().describe('Number of results to return (max 60, default 20)'),
+        depth: z.number().min(0).max(3).optional().describe('Depth of related data to include (0-3, default 1)'),
+        startingAfter: z.string().optional().describe('Cursor for pagination - start after this ID'),
+        endingBefore: z.string().optional().describe('Cursor for pagination - end before this ID'),
+        all: z.boolean().optional().describe('Fetch all pages automatically by following the pagination cursor (ignores limit and endingBefore)'),
+        maxRecords: z.number().min(1).max(MAX_PAGINATED_RECORDS).optional().describe(`Maximum number of records to fetch when all is true (default 1000, max ${MAX_PAGINATED_RECORDS})`),
+        ...responseShapeParams,
+        ...cacheControlParams
+      }
+    },
+    async ({ orderBy, filter, where, limit = 20, depth = 1, startingAfter, endingBefore, all = false, maxRecords = 1000, fields, format, maxChars, noCache }, extra) => {
+      try {
+        const client = getClient(extra).withCache(!noCache);
+
+        logger.info(`Listing opportunities with params:`, { orderBy, filter, where, limit, depth, all, maxRecords });
+
+        const resolvedFilter = resolveFilter(filter, where);
+
+        const response = all
+          ? await client.fetchAll('/opportunities', 'opportunities', { orderBy, filter: resolvedFilter, depth, startingAfter }, { maxRecords })
+          : await client.findManyOpportunities({ orderBy, filter: resolvedFilter, limit, depth, startingAfter, endingBefore });
+
+        return {
+          content: [{
+            type: 'text',
+            text: formatResponse({
+              opportunities: response.data?.opportunities || [],
+              pageInfo: response.pageInfo || {},
+              totalCount: response.totalCount || 0,
+              ...('truncated' in response && { truncated: response.truncated }),
+              query: { orderBy, filter: resolvedFilter, limit, depth, startingAfter, endingBefore, all, maxRecords }
+            }, 'opportunities', { fields, format, maxChars })
+          }]
+        };
+
+      } catch (error) {
+        logger.error('Error listing opportunities:', error);
+        return toolErrorResult('Error listing opportunities', error);
+      }
+    }
+  );
+
+  // 2. Get Opportunity Tool
+  server.registerTool(
+    'twenty-crm-get-opportunity',
+    {
+      description: 'Twenty CRM: Get detailed information about a specific opportunity by ID',
+      inputSchema: {
+        id: z.string().describe('UUID of the opportunity to retrieve'),
+        depth: z.number().min(0).max(3).optional().describe('Depth of related data to include (0-3, default 1)'),
+        ...responseShapeParams,
+        ...cacheControlParams
+      }
+    },
+    async ({ id, depth = 1, fields, format, maxChars, noCache }, extra) => {
+      try {
+        const client = getClient(extra).withCache(!noCache);
+
+        logger.info(`Getting opportunity ${id} with depth ${depth}`);
+
+        const opportunity = await client.findOneOpportunity(id, depth);
+
+        return {
+          content: [{
+            type: 'text',
+            text: formatResponse({
+              opportunity
+            }, 'opportunity', { fields, format, maxChars })
+          }]
+        };
+
+      } catch (error) {
+        logger.error('Error getting opportunity:', error);
+        return toolErrorResult('Error getting opportunity', error);
+      }
+    }
+  );
+
+  // 3. Create Opportunity Tool
+  server.registerTool(
+    'twenty-crm-create-opportunity',
+    {
+      description: 'Twenty CRM: Create a new opportunity/deal in Twenty CRM',
+      inputSchema: {
+        name: z.string().describe('Opportunity name'),
+        amount: z.number().optional().describe('Deal amount (in micros, e.g. 5000 EUR = 5000000000)'),
+        amountCurrency: z.string().optional().describe('Currency code (e.g. "EUR", "USD")'),
+        stage: z.enum(['NEW', 'SCREENING', 'MEETING', 'PROPOSAL', 'CUSTOMER']).optional().describe('Pipeline stage (default: NEW)'),
+        closeDate: z.string().optional().describe('Expected close date in ISO 8601 format (e.g. "2025-09-30T00:00:00.000Z")'),
+        companyId: z.string().optional().describe('UUID of the company this opportunity belongs to'),
+        pointOfContactId: z.string().optional().describe('UUID of the person who is the point of contact'),
+        position: z.number().optional().describe('Position/order for sorting'),
+        createdBySource: z.enum(['EMAIL', 'CALENDAR', 'WORKFLOW', 'API', 'IMPORT', 'MANUAL', 'SYSTEM', 'WEBHOOK']).optional().describe('Source of creation')
+      }
+    },
+    async (params, extra) => {
+      try {
+        const client = getClient(extra);
+
+        logger.info(`Creating opportunity: ${params.name}`);
+
+        const opportunityData: any = {
+          name: params.name
+        };
+
+        // Add amount if provided
+        if (params.amount !== undefined) {
+          opportunityData.amount = {
+            amountMicros: params.amount,
+            currencyCode: params.amountCurrency || 'EUR'
+          };
+        }
+
+        // Add optional fields
+        if (params.stage) opportunityData.stage = params.stage;
+        if (params.closeDate) opportunityData.closeDate = params.closeDate;
+        if (params.companyId) opportunityData.companyId = params.companyId;
+        if (params.pointOfContactId) opportunityData.pointOfContactId = params.pointOfContactId;
+        if (params.position !== undefined) opportunityData.position = params.position;
+
+        // Add creation source if provided
+        if (params.createdBySource) {
+          opportunityData.createdBy = {
+            source: params.createdBySource
+          };
+        }
+
+        const opportunity = await client.createOneOpportunity(opportunityData);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              opportunity,
+              message: 'Opportunity created successfully',
+              linkedToCompany: !!params.companyId
+            }, null, 2)
+          }]
+        };
+
+      } catch (error) {
+        logger.error('Error creating opportunity:', error);
+        return toolErrorResult('Error creating opportunity', error);
+      }
+    }
+  );
+
+  // 4. Update Opportunity Tool
+  server.registerTool(
+    'twenty-crm-update-opportunity',
+    {
+      description: 'Twenty CRM: Update an existing opportunity/deal in Twenty CRM',
+      inputSchema: {
+        id: z.string().describe('UUID of the opportunity to update'),
+        name: z.string().optional().describe('Opportunity name'),
+        amount: z.number().optional().describe('Deal amount (in micros, e.g. 5000 EUR = 5000000000)'),
+        amountCurrency: z.string().optional().describe('Currency code (e.g. "EUR", "USD"); amount and currency can each be changed alone, the other keeps its current value'),
+        stage: z.enum(['NEW', 'SCREENING', 'MEETING', 'PROPOSAL', 'CUSTOMER']).optional().describe('Pipeline stage'),
+        closeDate: z.string().nullable().optional().describe('Expected close date in ISO 8601 format (null to remove)'),
+        companyId: z.string().nullable().optional().describe('UUID of the company (null to remove)'),
+        pointOfContactId: z.string().nullable().optional().describe('UUID of the point of contact (null to remove)'),
+        position: z.number().optional().describe('Position/order for sorting'),
+        depth: z.number().min(0).max(3).optional().describe('Depth of related data to include in response (0-3, default 1)')
+      }
+    },
+    async (params, extra) => {
+      try {
+        const client = getClient(extra);
+
+        logger.info(`Updating opportunity ${params.id}`);
+
+        const updateData: any = {};
+
+        // Update basic fields
+        if (params.name !== undefined) updateData.name = params.name;
+        if (params.stage !== undefined) updateData.stage = params.stage;
+        if (params.closeDate !== undefined) updateData.closeDate = params.closeDate;
+        if (params.companyId !== undefined) updateData.companyId = params.companyId;
+        if (params.pointOfContactId !== undefined) updateData.pointOfContactId = params.pointOfContactId;
+        if (params.position !== undefined) updateData.position = params.position;
+
+        // Update amount and/or currency; Twenty writes composite fields as a whole,
+        // so the part that is not given is taken from the current record
+        if (params.amount !== undefined || params.amountCurrency) {
+          const current = params.amount === undefined || !params.amountCurrency
+            ? (await client.findOneOpportunity(params.id, 0))?.amount
+            : undefined;
+          updateData.amount = {
+            amountMicros: params.amount ?? current?.amountMicros ?? null,
+            currencyCode: params.amountCurrency || current?.currencyCode || 'EUR'
+          };
+        }
+
+        const opportunity = await client.updateOneOpportunity(params.id, updateData, params.depth);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              opportunity,
+              message: 'Opportunity updated successfully'
+            }, null, 2)
+          }]
+        };
+
+      } catch (error) {
+        logger.error('Error updating opportunity:', error);
+        return toolErrorResult('Error updating opportunity', error);
+      }
+    }
+  );
+
+  // 5. Delete Opportunity Tool
+  server.registerTool(
+    'twenty-crm-delete-opportunity',
+    {
+      description: 'Twenty CRM: Delete an opportunity/deal from Twenty CRM',
+      inputSchema: {
+        id: z.string().describe('UUID of the opportunity to delete')
+      }
+    },
+    async ({ id }, extra) => {
+      try {
+        const client = getClient(extra);
+
+        logger.info(`Deleting opportunity ${id}`);
+
+        const deleted = await client.deleteOneOpportunity(id);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              deletedId: deleted.id,
+              message: 'Opportunity deleted successfully'
+            }, null, 2)
+          }]
+        };
+
+      } catch (error) {
+        logger.error('Error deleting opportunity:', error);
+        return toolErrorResult('Error deleting opportunity', error);
+      }
+    }
+  );
+
+  // 6. Batch Create Opportunities Tool
+  server.registerTool(
+    'twenty-crm-batch-create-opportunities',
+    {
+      description: 'Twenty CRM: Create multiple opportunities/deals at once in Twenty CRM',
+      inputSchema: {
+        opportunities: z.array(z.object({
+          name: z.string(),
+          amount: z.number().optional(),
+          amountCurrency: z.string().optional(),
+          stage: z.enum(['NEW', 'SCREENING', 'MEETING', 'PROPOSAL', 'CUSTOMER']).optional(),
+          closeDate: z.string().optional(),
+          companyId: z.string().optional(),
+          pointOfContactId: z.string().optional()
+        })).describe('Array of opportunities to create (amount in micros)')
+      }
+    },
+    async ({ opportunities }, extra) => {
+      try {
+        const client = getClient(extra);
+
+        logger.info(`Batch creating ${opportunities.length} opportunities`);
+
+        const opportunitiesData = opportunities.map(opportunity => ({
+          name: opportunity.name,
+          ...(opportunity.amount !== undefined && {
+            amount: {
+              amountMicros: opportunity.amount,
+              currencyCode: opportunity.amountCurrency || 'EUR'
+            }
+          }),
+          ...(opportunity.stage && { stage: opportunity.stage }),
+          ...(opportunity.closeDate && { closeDate: opportunity.closeDate }),
+          ...(opportunity.companyId && { companyId: opportunity.companyId }),
+          ...(opportunity.pointOfContactId && { pointOfContactId: opportunity.pointOfContactId })
+        }));
+
+        const created = await client.createManyOpportunities(opportunitiesData);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              opportunities: created,
+              message: `${opportunities.length} opportunities created successfully`
+            }, null, 2)
+          }]
+        };
+
+      } catch (error) {
+        logger.error('Error batch creating opportunities:', error);
+        return toolErrorResult('Error batch creating opportunities', error);
+      }
+    }
+  );
+
+  // 7. Find Opportunity Duplicates Tool
+  server.registerTool(
+    'twenty-crm-find-opportunity-duplicates',
+    {
+      description: 'Twenty CRM: Find duplicate opportunities in Twenty CRM based on provided data or IDs',
+      inputSchema: {
+        data: z.array(z.object({
+          name: z.string(),
+          companyId: z.string().optional()
+        })).optional().describe('Array of opportunity data to check for duplicates'),
+        ids: z.array(z.string()).optional().describe('Array of opportunity IDs to check for duplicates')
+      }
+    },
+    async ({ data, ids }, extra) => {
+      try {
+        const client = getClient(extra);
+
+        logger.info(`Finding opportunity duplicates`);
+
+        const requestBody: any = {};
+        if (data) {
+          requestBody.data = data.map(opportunity => ({
+            name: opportunity.name,
+            ...(opportunity.companyId && { companyId: opportunity.companyId })
+          }));
+        }
+        if (ids) {
+          requestBody.ids = ids;
+        }
+
+        const duplicates = await client.findOpportunityDuplicates(requestBody);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              duplicates,
+              message: 'Duplicate search completed'
+            }, null, 2)
+          }]
+        };
+
+      } catch (error) {
+        logger.error('Error finding opportunity duplicates:', error);
+        return toolErrorResult('Error finding opportunity duplicates', error);
+      }
+    }
+  );
+
+  // 8. Move Opportunity Stage Tool (Convenience function)
+  server.registerTool(
+    'twenty-crm-move-opportunity-stage',
+    {
+      description: 'Twenty CRM: Move an opportunity to another pipeline stage (convenience function that only updates the stage)',
+      inputSchema: {
+        id: z.string().describe('UUID of the opportunity to move'),
+        stage: z.enum(['NEW', 'SCREENING', 'MEETING', 'PROPOSAL', 'CUSTOMER']).describe('Target pipeline stage'),
+        depth: z.number().min(0).max(3).optional().describe('Depth of related data to include in response (0-3, default 1)')
+      }
+    },
+    async ({ id, stage, depth = 1 }, extra) => {
+      try {
+        const client = getClient(extra);
+
+        logger.info(`Moving opportunity ${id} to stage ${stage}`);
+
+        const updateData = {
+          stage
+        };
+
+        const opportunity = await client.updateOneOpportunity(id, updateData, depth);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              opportunity,
+              message: `Opportunity moved to stage ${stage}`
+            }, null, 2)
+          }]
+        };
+
+      } catch (error) {
+        logger.error('Error moving opportunity stage:', error);
+        return toolErrorResult('Error moving opportunity stage', error);
+      }
+    }
+  );
+
+  // 9. Pipeline Summary Tool (Analytics)
+  server.registerTool(
+    'twenty-crm-pipeline-summary',
+    {
+      description: 'Twenty CRM: Summarize the opportunity pipeline by stage (counts, amounts per currency, weighted forecast, average age, overdue deals). Pages through all opportunities server-side.',
+      inputSchema: {
+        filter: z.string().optional().describe('Optional filter to restrict the opportunities, in Twenty syntax (e.g. "companyId[eq]:uuid") or as JSON object (e.g. \'{"companyId":{"eq":"uuid"}}\')'),
+        where: whereParamSchema,
+        stageWeights: z.object({
+          NEW: z.number().min(0).max(1).optional(),
+          SCREENING: z.number().min(0).max(1).optional(),
+          MEETING: z.number().min(0).max(1).optional(),
+          PROPOSAL: z.number().min(0).max(1).optional(),
+          CUSTOMER: z.number().min(0).max(1).optional()
+        }).optional().describe('Win probability per stage used for the weighted forecast (0-1, defaults: NEW 0.1, SCREENING 0.2, MEETING 0.4, PROPOSAL 0.6, CUSTOMER 1)'),
+        maxRecords: z.number().min(1).max(MAX_PAGINATED_RECORDS).optional().describe(`Maximum number of opportunities to analyze (default 5000, max ${MAX_PAGINATED_RECORDS})`),
+        // fields, format and maxChars apply to the overdue deals
+        ...responseShapeParams,
+        ...cacheControlParams
+      }
+    },
+    async ({ filter, where, stageWeights, maxRecords = 5000, fields, format, maxChars, noCache }, extra) => {
+      try {
+        const client = getClient(extra).withCache(!noCache);
+
+        logger.info(`Building pipeline summary`, { filter, where, maxRecords });
+
+        const resolvedFilter = resolveFilter(filter, where);
+
+        const response = await client.fetchAll<Opportunity>('/opportunities', 'opportunities', { filter: resolvedFilter, depth: 0 }, { maxRecords });
+        const opportunities = response.data.opportunities;
+        const truncated = response.truncated;
+
+        const summary = summarizePipeline(opportunities, { ...DEFAULT_STAGE_WEIGHTS, ...stageWeights });
+
+        return {
+          content: [{
+            type: 'text',
+            text: formatResponse({
+              ...summary,
+              truncated,
+              query: { filter: resolvedFilter, maxRecords },
+              message: `Analyzed ${opportunities.length} opportunities${truncated ? ' (truncated, increase maxRecords for full coverage)' : ''}`
+            }, 'overdueDeals', { fields, format, maxChars })
+          }]
+        };
+
+      } catch (error) {
+        logger.error('Error building pipeline summary:', error);
+        return toolErrorResult('Error building pipeline summary', error);
+      }
+    }
+  );
+}
@@ -1,14 +1,31 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { TwentyCRMClient } from '../twenty-client.js';
+import { MAX_PAGINATED_RECORDS } from '../twenty-client.js';
 import { z } from 'zod';
+import { resolveFilter, whereParamSchema } from '../filters.js';
 import { Logger } from 'winston';
+import { GetClient } from '../auth/request-context.js';
+import { formatResponse, responseShapeParams } from '../formatting.js';
+import { cacheControlParams } from '../response-cache.js';
+import { WorkspaceMetadata, findObjectMetadata, buildCustomFieldSchemas, pickCustomFieldValues } from '../metadata.js';
+import { toolErrorResult } from '../twenty-errors.js';
+
+// Custom fields of the default workspace, used when workspace metadata is unavailable
+const DEFAULT_PERSON_CUSTOM_FIELDS: Record<string, z.ZodTypeAny> = {
+  katgeorie: z.enum(['KUNDE', 'VERBÄNDE', 'PARTNER', 'DIENSTLEISTER']).optional().describe('Person category')
+};
 
 export function registerPeopleTools(
   server: McpServer,
-  getClient: (sessionId?: string) => TwentyCRMClient,
-  logger: Logger
+  getClient: GetClient,
+  logger: Logger,
+  metadata?: WorkspaceMetadata
 ): void {
 
+  // Custom field schemas are generated from the workspace metadata when available
+  const personMetadata = metadata && findObjectMetadata(metadata, 'person');
+  const customFields = buildCustomFieldSchemas(personMetadata) ?? DEFAULT_PERSON_CUSTOM_FIELDS;
+  const customUpdateFields = buildCustomFieldSchemas(personMetadata, { partial: true }) ?? DEFAULT_PERSON_CUSTOM_FIELDS;
+
   // 1. List People Tool
   server.registerTool(
     'twenty-crm-list-people',
@@ -16,51 +33,46 @@ export function registerPeopleTools(
       description: 'Twenty CRM: List and search people/contacts in Twenty CRM with advanced filtering and pagination',
       inputSchema: {
         orderBy: z.string().optional().describe('Sort order (e.g. "createdAt", "name.lastName", "name.firstName")'),
-        filter: z.string().optional().describe('Filter criteria as JSON string (e.g. \'{"katgeorie":{"eq":"KUNDE"}}\')'),
+        filter: z.string().optional().describe('Filter in Twenty syntax (e.g. "katgeorie[eq]:KUNDE") or as JSON object (e.g. \'{"katgeorie":{"eq":"KUNDE"}}\')'),
+        where: whereParamSchema,
         limit: z.number().min(1).max(60).optional().describe('Number of results to return (max 60, default 20)'),
         depth: z.number().min(0).max(3).optional().describe('Depth of related data to include (0-3, default 1)'),
         startingAfter: z.string().optional().describe('Cursor for pagination - start after this ID'),
-        endingBefore: z.string().optional().describe('Cursor for pagination - end before this ID')
+        endingBefore: z.string().optional().describe('Cursor for pagination - end before this ID'),
+        all: z.boolean().optional().describe('Fetch all pages automatically by following the pagination cursor (ignores limit and endingBefore)'),
+        maxRecords: z.number().min(1).max(MAX_PAGINATED_RECORDS).optional().describe(`Maximum number of records to fetch when all is true (default 1000, max ${MAX_PAGINATED_RECORDS})`),
+        ...responseShapeParams,
+        ...cacheControlParams
       }
     },
-    async ({ orderBy, filter, limit = 20, depth = 1, startingAfter, endingBefore }, extra) => {
+    async ({ orderBy, filter, where, limit = 20, depth = 1, startingAfter, endingBefore, all = false, maxRecords = 1000, fields, format, maxChars, noCache }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra).withCache(!noCache);
         
-        logger.info(`Listing people with params:`, { orderBy, filter, limit, depth });
+        logger.info(`Listing people with params:`, { orderBy, filter, where, limit, depth, all, maxRecords });
         
-        const queryParams = new URLSearchParams();
-        if (orderBy) queryParams.append('orderBy', orderBy);
-        if (filter) queryParams.append('filter', filter);
-        queryParams.append('limit', limit.toString());
-        queryParams.append('depth', depth.toString());
-        if (startingAfter) queryParams.append('startingAfter', startingAfter);
-        if (endingBefore) queryParams.append('endingBefore', endingBefore);
+        const resolvedFilter = resolveFilter(filter, where);
         
-        const response = await client.makeRequest('GET', `/people?${queryParams.toString()}`);
+        const response = all
+          ? await client.fetchAll('/people', 'people', { orderBy, filter: resolvedFilter, depth, startingAfter }, { maxRecords })
+          : await client.findManyPeople({ orderBy, filter: resolvedFilter, limit, depth, startingAfter, endingBefore });
         
         return {
           content: [{
             type: 'text',
-            text: JSON.stringify({
+            text: formatResponse({
               people: response.data?.people || [],
               pageInfo: response.pageInfo || {},
               totalCount: response.totalCount || 0,
-              query: { orderBy, filter, limit, depth, startingAfter, endingBefore }
-            }, null, 2)
+              ...('truncated' in response && { truncated: response.truncated }),
+              query: { orderBy, filter: resolvedFilter, limit, depth, startingAfter, endingBefore, all, maxRecords }
+            }, 'people', { fields, format, maxChars })
           }]
         };
         
       } catch (error) {
         logger.error('Error listing people:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error listing people: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error listing people', error);
       }
     }
   );
@@ -72,39 +84,31 @@ export function registerPeopleTools(
       description: 'Twenty CRM: Get detailed information about a specific person by ID',
       inputSchema: {
         id: z.string().describe('UUID of the person to retrieve'),
-        depth: z.number().min(0).max(3).optional().describe('Depth of related data to include (0-3, default 1)')
+        depth: z.number().min(0).max(3).optional().describe('Depth of related data to include (0-3, default 1)'),
+        ...responseShapeParams,
+        ...cacheControlParams
       }
     },
-    async ({ id, depth = 1 }, extra) => {
+    async ({ id, depth = 1, fields, format, maxChars, noCache }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra).withCache(!noCache);
         
         logger.info(`Getting person ${id} with depth ${depth}`);
         
-        const queryParams = new URLSearchParams();
-        queryParams.append('depth', depth.toString());
-        
-        const response = await client.makeRequest('GET', `/people/${id}?${queryParams.toString()}`);
+        const person = await client.findOnePerson(id, depth);
         
         return {
           content: [{
             type: 'text',
-            text: JSON.stringify({
-              person: response.data?.person || null
-            }, null, 2)
+            text: formatResponse({
+              person
+            }, 'person', { fields, format, maxChars })
           }]
         };
         
       } catch (error) {
         logger.error('Error getting person:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error getting person: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error getting person', error);
       }
     }
   );
@@ -128,7 +132,7 @@ export function registerPeopleTools(
         city: z.string().optional().describe('City where the person is located'),
         avatarUrl: z.string().url().optional().describe('URL to avatar image'),
         position: z.number().optional().describe('Position/order for sorting'),
-        katgeorie: z.enum(['KUNDE', 'VERBÄNDE', 'PARTNER', 'DIENSTLEISTER']).optional().describe('Person category'),
+        ...customFields,
         linkedinUrl: z.string().url().optional().describe('LinkedIn profile URL'),
         linkedinLabel: z.string().optional().describe('LinkedIn link label'),
         xUrl: z.string().url().optional().describe('X/Twitter profile URL'),
@@ -138,8 +142,7 @@ export function registerPeopleTools(
     },
     async (params, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Creating person: ${params.firstName} ${params.lastName}`);
         
@@ -184,7 +187,9 @@ export function registerPeopleTools(
         if (params.city) personData.city = params.city;
         if (params.avatarUrl) personData.avatarUrl = params.avatarUrl;
         if (params.position !== undefined) personData.position = params.position;
-        if (params.katgeorie) personData.katgeorie = params.katgeorie;
+
+        // Add workspace custom fields
+        Object.assign(personData, pickCustomFieldValues(params, customFields));
 
         // Add LinkedIn link if provided
         if (params.linkedinUrl) {
@@ -209,14 +214,14 @@ export function registerPeopleTools(
           };
         }
         
-        const response = await client.makeRequest('POST', '/people', personData);
+        const person = await client.createOnePerson(personData);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              person: response.data?.createPerson || null,
+              person,
               message: 'Person created successfully',
               linkedToCompany: !!params.companyId
             }, null, 2)
@@ -225,13 +230,7 @@ export function registerPeopleTools(
         
       } catch (error) {
         logger.error('Error creating person:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error creating person: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error creating person', error);
       }
     }
   );
@@ -256,7 +255,7 @@ export function registerPeopleTools(
         city: z.string().optional().describe('City where the person is located'),
         avatarUrl: z.string().url().optional().describe('URL to avatar image'),
         position: z.number().optional().describe('Position/order for sorting'),
-        katgeorie: z.enum(['KUNDE', 'VERBÄNDE', 'PARTNER', 'DIENSTLEISTER']).optional().describe('Person category'),
+        ...customUpdateFields,
         linkedinUrl: z.string().url().optional().describe('LinkedIn profile URL'),
         linkedinLabel: z.string().optional().describe('LinkedIn link label'),
         xUrl: z.string().url().optional().describe('X/Twitter profile URL'),
@@ -266,8 +265,7 @@ export function registerPeopleTools(
     },
     async (params, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Updating person ${params.id}`);
         
@@ -314,7 +312,9 @@ export function registerPeopleTools(
         if (params.city !== undefined) updateData.city = params.city;
         if (params.avatarUrl !== undefined) updateData.avatarUrl = params.avatarUrl;
         if (params.position !== undefined) updateData.position = params.position;
-        if (params.katgeorie !== undefined) updateData.katgeorie = params.katgeorie;
+
+        // Update workspace custom fields
+        Object.assign(updateData, pickCustomFieldValues(params, customUpdateFields));
 
         // Update LinkedIn link if provided
         if (params.linkedinUrl !== undefined) {
@@ -332,19 +332,14 @@ export function registerPeopleTools(
           };
         }
 
-        const queryParams = new URLSearchParams();
-        if (params.depth !== undefined) {
-          queryParams.append('depth', params.depth.toString());
-        }
-        
-        const response = await client.makeRequest('PATCH', `/people/${params.id}?${queryParams.toString()}`, updateData);
+        const person = await client.updateOnePerson(params.id, updateData, params.depth);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              person: response.data?.updatePerson || null,
+              person,
               message: 'Person updated successfully'
             }, null, 2)
           }]
@@ -352,13 +347,7 @@ export function registerPeopleTools(
         
       } catch (error) {
         logger.error('Error updating person:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error updating person: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error updating person', error);
       }
     }
   );
@@ -374,19 +363,18 @@ export function registerPeopleTools(
     },
     async ({ id }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Deleting person ${id}`);
         
-        const response = await client.makeRequest('DELETE', `/people/${id}`);
+        const deleted = await client.deleteOnePerson(id);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              deletedId: response.data?.deletePerson?.id || id,
+              deletedId: deleted.id,
               message: 'Person deleted successfully'
             }, null, 2)
           }]
@@ -394,13 +382,7 @@ export function registerPeopleTools(
         
       } catch (error) {
         logger.error('Error deleting person:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error deleting person: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error deleting person', error);
       }
     }
   );
@@ -419,14 +401,13 @@ export function registerPeopleTools(
           companyId: z.string().optional(),
           jobTitle: z.string().optional(),
           city: z.string().optional(),
-          katgeorie: z.enum(['KUNDE', 'VERBÄNDE', 'PARTNER', 'DIENSTLEISTER']).optional()
+          ...customFields
         })).describe('Array of people to create')
       }
     },
     async ({ people }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Batch creating ${people.length} people`);
         
@@ -444,17 +425,17 @@ export function registerPeopleTools(
           ...(person.companyId && { companyId: person.companyId }),
           ...(person.jobTitle && { jobTitle: person.jobTitle }),
           ...(person.city && { city: person.city }),
-          ...(person.katgeorie && { katgeorie: person.katgeorie })
+          ...pickCustomFieldValues(person, customFields)
         }));
         
-        const response = await client.makeRequest('POST', '/batch/people', peopleData);
+        const created = await client.createManyPeople(peopleData);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              people: response.data?.createPeople || [],
+              people: created,
               message: `${people.length} people created successfully`
             }, null, 2)
           }]
@@ -462,13 +443,7 @@ export function registerPeopleTools(
         
       } catch (error) {
         logger.error('Error batch creating people:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error batch creating people: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error batch creating people', error);
       }
     }
   );
@@ -489,8 +464,7 @@ export function registerPeopleTools(
     },
     async ({ data, ids }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Finding people duplicates`);
         
@@ -510,13 +484,13 @@ export function registerPeopleTools(
           requestBody.ids = ids;
         }
         
-        const response = await client.makeRequest('POST', '/people/duplicates', requestBody);
+        const duplicates = await client.findPersonDuplicates(requestBody);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
-              duplicates: response.data || [],
+              duplicates,
               message: 'Duplicate search completed'
             }, null, 2)
           }]
@@ -524,13 +498,7 @@ export function registerPeopleTools(
         
       } catch (error) {
         logger.error('Error finding people duplicates:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error finding people duplicates: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error finding people duplicates', error);
       }
     }
   );
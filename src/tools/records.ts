@@ -0,0 +1,288 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { TwentyCRMClient, MAX_PAGINATED_RECORDS } from '../twenty-client.js';
+import { z } from 'zod';
+import { resolveFilter, whereParamSchema } from '../filters.js';
+import { Logger } from 'winston';
+import { GetClient } from '../auth/request-context.js';
+import {
+  ObjectMetadata,
+  loadWorkspaceMetadata,
+  findObjectMetadata,
+  getRecordResponseKeys,
+  validateRecordData
+} from '../metadata.js';
+import { toolErrorResult } from '../twenty-errors.js';
+import { formatResponse, responseShapeParams } from '../formatting.js';
+import { cacheControlParams } from '../response-cache.js';
+
+export function registerRecordTools(
+  server: McpServer,
+  getClient: GetClient,
+  logger: Logger
+): void {
+
+  // Resolve an object name against the workspace metadata
+  const resolveObject = async (client: TwentyCRMClient, objectName: string): Promise<ObjectMetadata> => {
+    const metadata = await loadWorkspaceMetadata(client, logger);
+    const object = findObjectMetadata(metadata, objectName);
+    if (!object) {
+      throw new Error(`Unknown object "${objectName}". Use twenty-crm-describe-object to list available objects`);
+    }
+    if (object.isActive === false) {
+      throw new Error(`Object "${objectName}" is inactive in this workspace`);
+    }
+    return object;
+  };
+
+  // Validate a payload and throw a single error listing all problems
+  const assertValidData = (object: ObjectMetadata, data: Record<string, any>, partial: boolean) => {
+    const errors = validateRecordData(object, data, { partial });
+    if (errors.length > 0) {
+      throw new Error(`Invalid ${object.nameSingular} data:\n- ${errors.join('\n- ')}`);
+    }
+  };
+
+  const objectNameSchema = z.string().describe('Singular or plural API name of the object, including custom objects (e.g. "contract", "demos", "opportunity")');
+
+  // 1. List Records Tool
+  server.registerTool(
+    'twenty-crm-list-records',
+    {
+      description: 'Twenty CRM: List records of any object (including custom objects) with filtering and pagination',
+      inputSchema: {
+        objectName: objectNameSchema,
+        orderBy: z.string().optional().describe('Sort order (e.g. "createdAt", "name")'),
+        filter: z.string().optional().describe('Filter in Twenty syntax (e.g. "status[eq]:ACTIVE") or as JSON object (e.g. \'{"status":{"eq":"ACTIVE"}}\')'),
+        where: whereParamSchema,
+        limit: z.number().min(1).max(60).optional().describe('Number of results to return (max 60, default 20)'),
+        depth: z.number().min(0).max(3).optional().describe('Depth of related data to include (0-3, default 1)'),
+        startingAfter: z.string().optional().describe('Cursor for pagination - start after this ID'),
+        endingBefore: z.string().optional().describe('Cursor for pagination - end before this ID'),
+        all: z.boolean().optional().describe('Fetch all pages automatically by following the pagination cursor (ignores limit and endingBefore)'),
+        maxRecords: z.number().min(1).max(MAX_PAGINATED_RECORDS).optional().describe(`Maximum number of records to fetch when all is true (default 1000, max ${MAX_PAGINATED_RECORDS})`),
+        ...responseShapeParams,
+        ...cacheControlParams
+      }
+    },
+    async ({ objectName, orderBy, filter, where, limit = 20, depth = 1, startingAfter, endingBefore, all = false, maxRecords = 1000, fields, format, maxChars, noCache }, extra) => {
+      try {
+        const client = getClient(extra).withCache(!noCache);
+
+        logger.info(`Listing ${objectName} records with params:`, { orderBy, filter, where, limit, depth, all, maxRecords });
+
+        const object = await resolveObject(client, objectName);
+        const keys = getRecordResponseKeys(object);
+        const resolvedFilter = resolveFilter(filter, where);
+
+        const queryParams = new URLSearchParams();
+        if (orderBy) queryParams.append('orderBy', orderBy);
+        if (resolvedFilter) queryParams.append('filter', resolvedFilter);
+        queryParams.append('limit', limit.toString());
+        queryParams.append('depth', depth.toString());
+        if (startingAfter) queryParams.append('startingAfter', startingAfter);
+        if (endingBefore) queryParams.append('endingBefore', endingBefore);
+
+        const response = all
+          ? await client.fetchAll(`/${object.namePlural}`, keys.list, { orderBy, filter: resolvedFilter, depth, startingAfter }, { maxRecords })
+          : await client.makeRequest('GET', `/${object.namePlural}?${queryParams.toString()}`);
+
+        return {
+          content: [{
+            type: 'text',
+            text: formatResponse({
+              objectName: object.nameSingular,
+              records: response.data?.[keys.list] || [],
+              pageInfo: response.pageInfo || {},
+              totalCount: response.totalCount || 0,
+              ...(all && { truncated: response.truncated }),
+              query: { orderBy, filter: resolvedFilter, limit, depth, startingAfter, endingBefore, all, maxRecords }
+            }, 'records', { fields, format, maxChars })
+          }]
+        };
+
+      } catch (error) {
+        logger.error('Error listing records:', error);
+        return toolErrorResult('Error listing records', error);
+      }
+    }
+  );
+
+  // 2. Get Record Tool
+  server.registerTool(
+    'twenty-crm-get-record',
+    {
+      description: 'Twenty CRM: Get a single record of any object (including custom objects) by ID',
+      inputSchema: {
+        objectName: objectNameSchema,
+        id: z.string().describe('UUID of the record to retrieve'),
+        depth: z.number().min(0).max(3).optional().describe('Depth of related data to include (0-3, default 1)'),
+        ...responseShapeParams,
+        ...cacheControlParams
+      }
+    },
+    async ({ objectName, id, depth = 1, fields, format, maxChars, noCache }, extra) => {
+      try {
+        const client = getClient(extra).withCache(!noCache);
+
+        logger.info(`Getting ${objectName} record ${id} with depth ${depth}`);
+
+        const object = await resolveObject(client, objectName);
+        const keys = getRecordResponseKeys(object);
+
+        const queryParams = new URLSearchParams();
+        queryParams.append('depth', depth.toString());
+
+        const response = await client.makeRequest('GET', `/${object.namePlural}/${id}?${queryParams.toString()}`);
+
+        return {
+          content: [{
+            type: 'text',
+            text: formatResponse({
+              objectName: object.nameSingular,
+              record: response.data?.[keys.get] || null
+            }, 'record', { fields, format, maxChars })
+          }]
+        };
+
+      } catch (error) {
+        logger.error('Error getting record:', error);
+        return toolErrorResult('Error getting record', error);
+      }
+    }
+  );
+
+  // 3. Create Record Tool
+  server.registerTool(
+    'twenty-crm-create-record',
+    {
+      description: 'Twenty CRM: Create a record of any object (including custom objects). The payload is validated against the workspace metadata (field names, types, select options, required fields)',
+      inputSchema: {
+        objectName: objectNameSchema,
+        data: z.record(z.any()).describe('Field values keyed by API field name (see twenty-crm-describe-object), relations as <relation>Id'),
+        depth: z.number().min(0).max(3).optional().describe('Depth of related data to include in response (0-3, default 1)')
+      }
+    },
+    async ({ objectName, data, depth }, extra) => {
+      try {
+        const client = getClient(extra);
+
+        logger.info(`Creating ${objectName} record`);
+
+        const object = await resolveObject(client, objectName);
+        const keys = getRecordResponseKeys(object);
+        assertValidData(object, data, false);
+
+        const queryParams = new URLSearchParams();
+        if (depth !== undefined) {
+          queryParams.append('depth', depth.toString());
+        }
+
+        const response = await client.makeRequest('POST', `/${object.namePlural}?${queryParams.toString()}`, data);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              objectName: object.nameSingular,
+              record: response.data?.[keys.create] || null,
+              message: `${object.labelSingular} created successfully`
+            }, null, 2)
+          }]
+        };
+
+      } catch (error) {
+        logger.error('Error creating record:', error);
+        return toolErrorResult('Error creating record', error);
+      }
+    }
+  );
+
+  // 4. Update Record Tool
+  server.registerTool(
+    'twenty-crm-update-record',
+    {
+      description: 'Twenty CRM: Update a record of any object (including custom objects). Only provided fields are changed; values are validated against the workspace metadata',
+      inputSchema: {
+        objectName: objectNameSchema,
+        id: z.string().describe('UUID of the record to update'),
+        data: z.record(z.any()).describe('Field values to change keyed by API field name (null to clear a nullable field)'),
+        depth: z.number().min(0).max(3).optional().describe('Depth of related data to include in response (0-3, default 1)')
+      }
+    },
+    async ({ objectName, id, data, depth }, extra) => {
+      try {
+        const client = getClient(extra);
+
+        logger.info(`Updating ${objectName} record ${id}`);
+
+        const object = await resolveObject(client, objectName);
+        const keys = getRecordResponseKeys(object);
+        assertValidData(object, data, true);
+
+        const queryParams = new URLSearchParams();
+        if (depth !== undefined) {
+          queryParams.append('depth', depth.toString());
+        }
+
+        const response = await client.makeRequest('PATCH', `/${object.namePlural}/${id}?${queryParams.toString()}`, data);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              objectName: object.nameSingular,
+              record: response.data?.[keys.update] || null,
+              message: `${object.labelSingular} updated successfully`
+            }, null, 2)
+          }]
+        };
+
+      } catch (error) {
+        logger.error('Error updating record:', error);
+        return toolErrorResult('Error updating record', error);
+      }
+    }
+  );
+
+  // 5. Delete Record Tool
+  server.registerTool(
+    'twenty-crm-delete-record',
+    {
+      description: 'Twenty CRM: Delete a record of any object (including custom objects)',
+      inputSchema: {
+        objectName: objectNameSchema,
+        id: z.string().describe('UUID of the record to delete')
+      }
+    },
+    async ({ objectName, id }, extra) => {
+      try {
+        const client = getClient(extra);
+
+        logger.info(`Deleting ${objectName} record ${id}`);
+
+        const object = await resolveObject(client, objectName);
+        const keys = getRecordResponseKeys(object);
+
+        const response = await client.makeRequest('DELETE', `/${object.namePlural}/${id}`);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              objectName: object.nameSingular,
+              deletedId: response.data?.[keys.delete]?.id || id,
+              message: `${object.labelSingular} deleted successfully`
+            }, null, 2)
+          }]
+        };
+
+      } catch (error) {
+        logger.error('Error deleting record:', error);
+        return toolErrorResult('Error deleting record', error);
+      }
+    }
+  );
+}
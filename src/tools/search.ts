@@ -0,0 +1,282 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ListResponse, QueryParams, TwentyCRMClient } from '../twenty-client.js';
+import { z } from 'zod';
+import { Logger } from 'winston';
+import { GetClient } from '../auth/request-context.js';
+import { StructuredFilter, serializeFilter } from '../filters.js';
+import { toolErrorResult } from '../twenty-errors.js';
+import { cacheControlParams } from '../response-cache.js';
+
+const SEARCH_OBJECT_TYPES = ['person', 'company', 'opportunity', 'note', 'task'] as const;
+
+type SearchObjectType = typeof SEARCH_OBJECT_TYPES[number];
+
+interface SearchResult {
+  objectType: SearchObjectType;
+  id: string;
+  label: string;
+  subtitle?: string;
+  score: number;
+}
+
+interface SearchTarget {
+  findMany: (client: TwentyCRMClient, params: QueryParams) => Promise<ListResponse<any>>;
+  objectKey: string;
+  // Fields matched with ilike in the fallback search
+  fields: string[];
+  label: (record: any) => string;
+  subtitle: (record: any) => string | undefined;
+  // Values used to rank a record against the query
+  matchValues: (record: any) => Array<string | undefined>;
+}
+
+const fullName = (record: any) => [record.name?.firstName, record.name?.lastName].filter(Boolean).join(' ');
+
+const SEARCH_TARGETS: Record<SearchObjectType, SearchTarget> = {
+  person: {
+    findMany: (client, params) => client.findManyPeople(params),
+    objectKey: 'people',
+    fields: ['name.firstName', 'name.lastName', 'emails.primaryEmail', 'phones.primaryPhoneNumber'],
+    label: record => fullName(record) || record.emails?.primaryEmail || record.id,
+    subtitle: record => [record.jobTitle, record.emails?.primaryEmail].filter(Boolean).join(' · ') || undefined,
+    matchValues: record => [fullName(record), record.name?.firstName, record.name?.lastName, record.emails?.primaryEmail, record.phones?.primaryPhoneNumber]
+  },
+  company: {
+    findMany: (client, params) => client.findManyCompanies(params),
+    objectKey: 'companies',
+    fields: ['name', 'domainName.primaryLinkUrl'],
+    label: record => record.name || record.id,
+    subtitle: record => record.domainName?.primaryLinkUrl || undefined,
+    matchValues: record => [record.name, record.domainName?.primaryLinkUrl]
+  },
+  opportunity: {
+    findMany: (client, params) => client.findManyOpportunities(params),
+    objectKey: 'opportunities',
+    fields: ['name'],
+    label: record => record.name || record.id,
+    subtitle: record => record.stage || undefined,
+    matchValues: record => [record.name]
+  },
+  note: {
+    findMany: (client, params) => client.findManyNotes(params),
+    objectKey: 'notes',
+    fields: ['title'],
+    label: record => record.title || record.id,
+    subtitle: () => undefined,
+    matchValues: record => [record.title]
+  },
+  task: {
+    findMany: (client, params) => client.findManyTasks(params),
+    objectKey: 'tasks',
+    fields: ['title'],
+    label: record => record.title || record.id,
+    subtitle: record => record.status || undefined,
+    matchValues: record => [record.title]
+  }
+};
+
+const normalize = (value: string) => value.normalize('NFC').toLowerCase().trim();
+
+/**
+ * Score how well a set of values matches the query (0-100):
+ * exact > prefix > word prefix > substring > all terms contained
+ */
+function scoreMatch(values: Array<string | undefined>, query: string): number {
+  const needle = normalize(query);
+  const terms = needle.split(/\s+/).filter(Boolean);
+  let best = 0;
+
+  for (const raw of values) {
+    if (!raw) continue;
+    const value = normalize(raw);
+    let score = 0;
+    if (value === needle) score = 100;
+    else if (value.startsWith(needle)) score = 80;
+    else if (value.split(/[\s@.\-_]+/).some(word => word.startsWith(needle))) score = 65;
+    else if (value.includes(needle)) score = 50;
+    else if (terms.length > 1 && terms.every(term => value.includes(term))) score = 40;
+    best = Math.max(best, score);
+  }
+
+  return best;
+}
+
+/**
+ * Build the ilike fallback filter for an object type. Multi-word queries on
+ * people additionally match "first last" across the name fields.
+ */
+function buildFallbackFilter(objectType: SearchObjectType, query: string): string {
+  const conditions: StructuredFilter[] = SEARCH_TARGETS[objectType].fields.map(field => ({
+    field,
+    operator: 'ilike',
+    value: `%${query}%`
+  }));
+
+  const terms = query.split(/\s+/).filter(Boolean);
+  if (objectType === 'person' && terms.length > 1) {
+    conditions.push({
+      and: terms.map(term => ({
+        or: [
+          { field: 'name.firstName', operator: 'ilike', value: `%${term}%` },
+          { field: 'name.lastName', operator: 'ilike', value: `%${term}%` }
+        ]
+      }))
+    });
+  }
+
+  return serializeFilter({ or: conditions });
+}
+
+/**
+ * Merge results of the same record, keeping the best score
+ */
+function dedupeResults(results: SearchResult[]): SearchResult[] {
+  const byKey = new Map<string, SearchResult>();
+  for (const result of results) {
+    const key = `${result.objectType}:${result.id}`;
+    const existing = byKey.get(key);
+    if (!existing || result.score > existing.score) {
+      byKey.set(key, { ...existing, ...result, subtitle: result.subtitle ?? existing?.subtitle });
+    }
+  }
+  return [...byKey.values()];
+}
+
+export function registerSearchTools(
+  server: McpServer,
+  getClient: GetClient,
+  logger: Logger
+): void {
+
+  // Search via Twenty's search endpoint (tsvector based ranking)
+  const searchWithEndpoint = async (
+    client: TwentyCRMClient,
+    query: string,
+    objectTypes: SearchObjectType[],
+    limit: number
+  ): Promise<SearchResult[]> => {
+    const records = await client.search(query, { limit: limit * objectTypes.length, objectNames: objectTypes });
+
+    return records
+      .filter(record => (objectTypes as string[]).includes(record.objectNameSingular))
+      .map(record => ({
+        objectType: record.objectNameSingular as SearchObjectType,
+        id: record.recordId,
+        label: record.label,
+        // Endpoint hits always matched; the text rank breaks ties between equal label scores
+        score: Math.max(scoreMatch([record.label], query), 30) + Math.min(record.tsRankCD ?? record.tsRank ?? 0, 1)
+      }));
+  };
+
+  // Search via ilike filters on the list endpoints, one request per object type in parallel
+  const searchWithFilters = async (
+    client: TwentyCRMClient,
+    query: string,
+    objectTypes: SearchObjectType[],
+    limit: number
+  ): Promise<{ results: SearchResult[]; errors: string[] }> => {
+    const settled = await Promise.allSettled(objectTypes.map(async objectType => {
+      const target = SEARCH_TARGETS[objectType];
+      const response = await target.findMany(client, {
+        filter: buildFallbackFilter(objectType, query),
+        limit,
+        depth: 0
+      });
+      const records: any[] = response.data?.[target.objectKey] || [];
+      return records.map(record => ({
+        objectType,
+        id: record.id,
+        label: target.label(record),
+        subtitle: target.subtitle(record),
+        // The API matched the record, so even a weak local match ranks above zero
+        score: Math.max(scoreMatch(target.matchValues(record), query), 20)
+      }));
+    }));
+
+    const results: SearchResult[] = [];
+    const errors: string[] = [];
+    settled.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        results.push(...outcome.value);
+      } else {
+        const reason = outcome.reason instanceof Error ? outcome.reason.message : 'Unknown error';
+        errors.push(`${objectTypes[index]}: ${reason}`);
+      }
+    });
+
+    return { results, errors };
+  };
+
+  // 1. Unified Search Tool
+  server.registerTool(
+    'twenty-crm-search',
+    {
+      description: 'Twenty CRM: Fuzzy search across people (name, emails, phones), companies (name, domain), opportunities, notes and tasks at once. Returns a ranked, de-duplicated list with object type and id - use the matching get tool for details',
+      inputSchema: {
+        query: z.string().min(1).describe('Search text (e.g. "Müller", "acme.de", "Max Mustermann")'),
+        objectTypes: z.array(z.enum(SEARCH_OBJECT_TYPES)).min(1).optional().describe('Object types to search (default: all of person, company, opportunity, note, task)'),
+        limit: z.number().min(1).max(60).optional().describe('Maximum number of results per object type (max 60, default 10)'),
+        useSearchEndpoint: z.boolean().optional().describe('Use Twenty\'s search endpoint if available, otherwise ilike filters (default true)'),
+        ...cacheControlParams
+      }
+    },
+    async ({ query, objectTypes = [...SEARCH_OBJECT_TYPES], limit = 10, useSearchEndpoint = true, noCache }, extra) => {
+      try {
+        const client = getClient(extra).withCache(!noCache);
+        const searchText = query.trim();
+        const types = [...new Set(objectTypes)];
+
+        logger.info(`Searching CRM for "${searchText}"`, { objectTypes: types, limit, useSearchEndpoint });
+
+        let results: SearchResult[] | undefined;
+        let errors: string[] = [];
+        let source: 'search-endpoint' | 'filter-fallback' = 'filter-fallback';
+
+        if (useSearchEndpoint) {
+          try {
+            results = await searchWithEndpoint(client, searchText, types, limit);
+            source = 'search-endpoint';
+          } catch (error) {
+            logger.warn('Search endpoint unavailable, falling back to ilike filters:', error);
+          }
+        }
+
+        if (!results) {
+          ({ results, errors } = await searchWithFilters(client, searchText, types, limit));
+          if (results.length === 0 && errors.length === types.length) {
+            throw new Error(`All searches failed: ${errors.join('; ')}`);
+          }
+        }
+
+        // Rank by score, then keep at most `limit` results per object type
+        const perType = new Map<SearchObjectType, number>();
+        const ranked = dedupeResults(results)
+          .sort((a, b) => b.score - a.score || a.label.localeCompare(b.label))
+          .filter(result => {
+            const count = perType.get(result.objectType) || 0;
+            perType.set(result.objectType, count + 1);
+            return count < limit;
+          })
+          .map(result => ({ ...result, score: Math.round(result.score * 100) / 100 }));
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              query: searchText,
+              source,
+              results: ranked,
+              totalCount: ranked.length,
+              countsByType: Object.fromEntries(types.map(type => [type, perType.has(type) ? Math.min(perType.get(type)!, limit) : 0])),
+              ...(errors.length > 0 && { errors })
+            }, null, 2)
+          }]
+        };
+
+      } catch (error) {
+        logger.error('Error searching CRM:', error);
+        return toolErrorResult('Error searching CRM', error);
+      }
+    }
+  );
+}
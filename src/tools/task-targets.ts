@@ -1,11 +1,18 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { TwentyCRMClient } from '../twenty-client.js';
+import { MAX_PAGINATED_RECORDS } from '../twenty-client.js';
 import { z } from 'zod';
+import { resolveFilter, whereParamSchema } from '../filters.js';
 import { Logger } from 'winston';
+import { GetClient } from '../auth/request-context.js';
+import { formatResponse, responseShapeParams } from '../formatting.js';
+import { cacheControlParams } from '../response-cache.js';
+import { toolErrorResult } from '../twenty-errors.js';
+import { tryLoadWorkspaceMetadata } from '../metadata.js';
+import { buildLinkedActivitiesQuery, nodesOf } from '../graphql.js';
 
 export function registerTaskTargetTools(
   server: McpServer,
-  getClient: (sessionId?: string) => TwentyCRMClient,
+  getClient: GetClient,
   logger: Logger
 ): void {
 
@@ -16,51 +23,46 @@ export function registerTaskTargetTools(
       description: 'Twenty CRM: List task-target relationships (links between tasks and people/companies/opportunities)',
       inputSchema: {
         orderBy: z.string().optional().describe('Sort order (e.g. "createdAt", "taskId")'),
-        filter: z.string().optional().describe('Filter criteria as JSON string (e.g. \'{"personId":{"eq":"uuid"}}\')'),
+        filter: z.string().optional().describe('Filter in Twenty syntax (e.g. "personId[eq]:uuid") or as JSON object (e.g. \'{"personId":{"eq":"uuid"}}\')'),
+        where: whereParamSchema,
         limit: z.number().min(1).max(60).optional().describe('Number of results to return (max 60, default 20)'),
         depth: z.number().min(0).max(3).optional().describe('Depth of related data to include (0-3, default 1)'),
         startingAfter: z.string().optional().describe('Cursor for pagination - start after this ID'),
-        endingBefore: z.string().optional().describe('Cursor for pagination - end before this ID')
+        endingBefore: z.string().optional().describe('Cursor for pagination - end before this ID'),
+        all: z.boolean().optional().describe('Fetch all pages automatically by following the pagination cursor (ignores limit and endingBefore)'),
+        maxRecords: z.number().min(1).max(MAX_PAGINATED_RECORDS).optional().describe(`Maximum number of records to fetch when all is true (default 1000, max ${MAX_PAGINATED_RECORDS})`),
+        ...responseShapeParams,
+        ...cacheControlParams
       }
     },
-    async ({ orderBy, filter, limit = 20, depth = 1, startingAfter, endingBefore }, extra) => {
+    async ({ orderBy, filter, where, limit = 20, depth = 1, startingAfter, endingBefore, all = false, maxRecords = 1000, fields, format, maxChars, noCache }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra).withCache(!noCache);
         
-        logger.info(`Listing task targets with params:`, { orderBy, filter, limit, depth });
+        logger.info(`Listing task targets with params:`, { orderBy, filter, where, limit, depth, all, maxRecords });
         
-        const queryParams = new URLSearchParams();
-        if (orderBy) queryParams.append('orderBy', orderBy);
-        if (filter) queryParams.append('filter', filter);
-        queryParams.append('limit', limit.toString());
-        queryParams.append('depth', depth.toString());
-        if (startingAfter) queryParams.append('startingAfter', startingAfter);
-        if (endingBefore) queryParams.append('endingBefore', endingBefore);
+        const resolvedFilter = resolveFilter(filter, where);
         
-        const response = await client.makeRequest('GET', `/taskTargets?${queryParams.toString()}`);
+        const response = all
+          ? await client.fetchAll('/taskTargets', 'taskTargets', { orderBy, filter: resolvedFilter, depth, startingAfter }, { maxRecords })
+          : await client.findManyTaskTargets({ orderBy, filter: resolvedFilter, limit, depth, startingAfter, endingBefore });
         
         return {
           content: [{
             type: 'text',
-            text: JSON.stringify({
+            text: formatResponse({
               taskTargets: response.data?.taskTargets || [],
               pageInfo: response.pageInfo || {},
               totalCount: response.totalCount || 0,
-              query: { orderBy, filter, limit, depth, startingAfter, endingBefore }
-            }, null, 2)
+              ...('truncated' in response && { truncated: response.truncated }),
+              query: { orderBy, filter: resolvedFilter, limit, depth, startingAfter, endingBefore, all, maxRecords }
+            }, 'taskTargets', { fields, format, maxChars })
           }]
         };
         
       } catch (error) {
         logger.error('Error listing task targets:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error listing task targets: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error listing task targets', error);
       }
     }
   );
@@ -72,39 +74,31 @@ export function registerTaskTargetTools(
       description: 'Twenty CRM: Get detailed information about a specific task target relationship by ID',
       inputSchema: {
         id: z.string().describe('UUID of the task target to retrieve'),
-        depth: z.number().min(0).max(3).optional().describe('Depth of related data to include (0-3, default 1)')
+        depth: z.number().min(0).max(3).optional().describe('Depth of related data to include (0-3, default 1)'),
+        ...responseShapeParams,
+        ...cacheControlParams
       }
     },
-    async ({ id, depth = 1 }, extra) => {
+    async ({ id, depth = 1, fields, format, maxChars, noCache }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra).withCache(!noCache);
         
         logger.info(`Getting task target ${id} with depth ${depth}`);
         
-        const queryParams = new URLSearchParams();
-        queryParams.append('depth', depth.toString());
-        
-        const response = await client.makeRequest('GET', `/taskTargets/${id}?${queryParams.toString()}`);
+        const taskTarget = await client.findOneTaskTarget(id, depth);
         
         return {
           content: [{
             type: 'text',
-            text: JSON.stringify({
-              taskTarget: response.data?.taskTarget || null
-            }, null, 2)
+            text: formatResponse({
+              taskTarget
+            }, 'taskTarget', { fields, format, maxChars })
           }]
         };
         
       } catch (error) {
         logger.error('Error getting task target:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error getting task target: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error getting task target', error);
       }
     }
   );
@@ -124,8 +118,7 @@ export function registerTaskTargetTools(
     },
     async (params, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         // Validate that at least one target is provided
         if (!params.personId && !params.companyId && !params.opportunityId && !params.neusDatenmodelId) {
@@ -144,14 +137,14 @@ export function registerTaskTargetTools(
         if (params.opportunityId) taskTargetData.opportunityId = params.opportunityId;
         if (params.neusDatenmodelId) taskTargetData.neusDatenmodelId = params.neusDatenmodelId;
         
-        const response = await client.makeRequest('POST', '/taskTargets', taskTargetData);
+        const taskTarget = await client.createOneTaskTarget(taskTargetData);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              taskTarget: response.data?.createTaskTarget || null,
+              taskTarget,
               message: 'Task target relationship created successfully'
             }, null, 2)
           }]
@@ -159,13 +152,7 @@ export function registerTaskTargetTools(
         
       } catch (error) {
         logger.error('Error creating task target:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error creating task target: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error creating task target', error);
       }
     }
   );
@@ -187,8 +174,7 @@ export function registerTaskTargetTools(
     },
     async (params, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Updating task target ${params.id}`);
         
@@ -201,19 +187,14 @@ export function registerTaskTargetTools(
         if (params.opportunityId !== undefined) updateData.opportunityId = params.opportunityId;
         if (params.neusDatenmodelId !== undefined) updateData.neusDatenmodelId = params.neusDatenmodelId;
 
-        const queryParams = new URLSearchParams();
-        if (params.depth !== undefined) {
-          queryParams.append('depth', params.depth.toString());
-        }
-        
-        const response = await client.makeRequest('PATCH', `/taskTargets/${params.id}?${queryParams.toString()}`, updateData);
+        const taskTarget = await client.updateOneTaskTarget(params.id, updateData, params.depth);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              taskTarget: response.data?.updateTaskTarget || null,
+              taskTarget,
               message: 'Task target relationship updated successfully'
             }, null, 2)
           }]
@@ -221,13 +202,7 @@ export function registerTaskTargetTools(
         
       } catch (error) {
         logger.error('Error updating task target:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error updating task target: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error updating task target', error);
       }
     }
   );
@@ -243,19 +218,18 @@ export function registerTaskTargetTools(
     },
     async ({ id }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Deleting task target ${id}`);
         
-        const response = await client.makeRequest('DELETE', `/taskTargets/${id}`);
+        const deleted = await client.deleteOneTaskTarget(id);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              deletedId: response.data?.deleteTaskTarget?.id || id,
+              deletedId: deleted.id,
               message: 'Task target relationship deleted successfully'
             }, null, 2)
           }]
@@ -263,13 +237,7 @@ export function registerTaskTargetTools(
         
       } catch (error) {
         logger.error('Error deleting task target:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error deleting task target: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error deleting task target', error);
       }
     }
   );
@@ -286,8 +254,7 @@ export function registerTaskTargetTools(
     },
     async ({ taskId, personId }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Linking task ${taskId} to person ${personId}`);
         
@@ -296,14 +263,14 @@ export function registerTaskTargetTools(
           personId
         };
         
-        const response = await client.makeRequest('POST', '/taskTargets', taskTargetData);
+        const taskTarget = await client.createOneTaskTarget(taskTargetData);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              taskTarget: response.data?.createTaskTarget || null,
+              taskTarget,
               message: `Task successfully linked to person`
             }, null, 2)
           }]
@@ -311,13 +278,7 @@ export function registerTaskTargetTools(
         
       } catch (error) {
         logger.error('Error linking task to person:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error linking task to person: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error linking task to person', error);
       }
     }
   );
@@ -334,8 +295,7 @@ export function registerTaskTargetTools(
     },
     async ({ taskId, companyId }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Linking task ${taskId} to company ${companyId}`);
         
@@ -344,14 +304,14 @@ export function registerTaskTargetTools(
           companyId
         };
         
-        const response = await client.makeRequest('POST', '/taskTargets', taskTargetData);
+        const taskTarget = await client.createOneTaskTarget(taskTargetData);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              taskTarget: response.data?.createTaskTarget || null,
+              taskTarget,
               message: `Task successfully linked to company`
             }, null, 2)
           }]
@@ -359,13 +319,7 @@ export function registerTaskTargetTools(
         
       } catch (error) {
         logger.error('Error linking task to company:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error linking task to company: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error linking task to company', error);
       }
     }
   );
@@ -379,27 +333,27 @@ export function registerTaskTargetTools(
         personId: z.string().describe('UUID of the person'),
         status: z.enum(['TODO', 'IN_PROGRESS', 'DONE']).optional().describe('Filter by task status'),
         limit: z.number().min(1).max(60).optional().describe('Number of results to return (max 60, default 20)'),
-        depth: z.number().min(0).max(3).optional().describe('Depth of related data to include (0-3, default 2)')
+        depth: z.number().min(0).max(3).optional().describe('Related data per task: 0 for the task only, 1 or more to also include its assignee and all records it is linked to (default 2)'),
+        ...responseShapeParams,
+        ...cacheControlParams
       }
     },
-    async ({ personId, status, limit = 20, depth = 2 }, extra) => {
+    async ({ personId, status, limit = 20, depth = 2, fields, format, maxChars, noCache }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra).withCache(!noCache);
         
         logger.info(`Getting tasks for person ${personId}`);
         
-        // Build filter for person tasks
-        let filter = `{"personId":{"eq":"${personId}"}}`;
+        // Targets and their tasks in a single GraphQL query instead of REST with nested depth;
+        // without metadata only standard task fields are selected
+        const metadata = await tryLoadWorkspaceMetadata(client, logger);
+        const data = await client.graphql(
+          buildLinkedActivitiesQuery('task', 'personId', { first: limit, depth, metadata }),
+          { id: personId }
+        );
         
-        const queryParams = new URLSearchParams();
-        queryParams.append('filter', filter);
-        queryParams.append('limit', limit.toString());
-        queryParams.append('depth', depth.toString());
-        
-        const response = await client.makeRequest('GET', `/taskTargets?${queryParams.toString()}`);
-        
-        let tasks = (response.data?.taskTargets || []).map((target: any) => target.task).filter(Boolean);
+        let tasks = nodesOf<any>(data?.taskTargets).map(target => target.task).filter(Boolean)
+          .map(task => task.taskTargets ? { ...task, taskTargets: nodesOf(task.taskTargets) } : task);
         
         // Filter by status if provided
         if (status) {
@@ -409,25 +363,19 @@ export function registerTaskTargetTools(
         return {
           content: [{
             type: 'text',
-            text: JSON.stringify({
+            text: formatResponse({
               tasks,
               totalFound: tasks.length,
               personId,
               filter: { status },
               message: `Found ${tasks.length} tasks for person`
-            }, null, 2)
+            }, 'tasks', { fields, format, maxChars })
           }]
         };
         
       } catch (error) {
         logger.error('Error getting tasks for person:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error getting tasks for person: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error getting tasks for person', error);
       }
     }
   );
@@ -441,27 +389,27 @@ export function registerTaskTargetTools(
         companyId: z.string().describe('UUID of the company'),
         status: z.enum(['TODO', 'IN_PROGRESS', 'DONE']).optional().describe('Filter by task status'),
         limit: z.number().min(1).max(60).optional().describe('Number of results to return (max 60, default 20)'),
-        depth: z.number().min(0).max(3).optional().describe('Depth of related data to include (0-3, default 2)')
+        depth: z.number().min(0).max(3).optional().describe('Related data per task: 0 for the task only, 1 or more to also include its assignee and all records it is linked to (default 2)'),
+        ...responseShapeParams,
+        ...cacheControlParams
       }
     },
-    async ({ companyId, status, limit = 20, depth = 2 }, extra) => {
+    async ({ companyId, status, limit = 20, depth = 2, fields, format, maxChars, noCache }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra).withCache(!noCache);
         
         logger.info(`Getting tasks for company ${companyId}`);
         
-        // Build filter for company tasks
-        let filter = `{"companyId":{"eq":"${companyId}"}}`;
-        
-        const queryParams = new URLSearchParams();
-        queryParams.append('filter', filter);
-        queryParams.append('limit', limit.toString());
-        queryParams.append('depth', depth.toString());
-        
-        const response = await client.makeRequest('GET', `/taskTargets?${queryParams.toString()}`);
+        // Targets and their tasks in a single GraphQL query instead of REST with nested depth;
+        // without metadata only standard task fields are selected
+        const metadata = await tryLoadWorkspaceMetadata(client, logger);
+        const data = await client.graphql(
+          buildLinkedActivitiesQuery('task', 'companyId', { first: limit, depth, metadata }),
+          { id: companyId }
+        );
         
-        let tasks = (response.data?.taskTargets || []).map((target: any) => target.task).filter(Boolean);
+        let tasks = nodesOf<any>(data?.taskTargets).map(target => target.task).filter(Boolean)
+          .map(task => task.taskTargets ? { ...task, taskTargets: nodesOf(task.taskTargets) } : task);
         
         // Filter by status if provided
         if (status) {
@@ -471,25 +419,19 @@ export function registerTaskTargetTools(
         return {
           content: [{
             type: 'text',
-            text: JSON.stringify({
+            text: formatResponse({
               tasks,
               totalFound: tasks.length,
               companyId,
               filter: { status },
               message: `Found ${tasks.length} tasks for company`
-            }, null, 2)
+            }, 'tasks', { fields, format, maxChars })
           }]
         };
         
       } catch (error) {
         logger.error('Error getting tasks for company:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error getting tasks for company: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error getting tasks for company', error);
       }
     }
   );
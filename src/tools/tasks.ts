@@ -1,11 +1,17 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { TwentyCRMClient } from '../twenty-client.js';
+import { MAX_PAGINATED_RECORDS } from '../twenty-client.js';
 import { z } from 'zod';
+import { resolveFilter, whereParamSchema } from '../filters.js';
 import { Logger } from 'winston';
+import { GetClient } from '../auth/request-context.js';
+import { formatResponse, responseShapeParams } from '../formatting.js';
+import { cacheControlParams } from '../response-cache.js';
+import { toolErrorResult } from '../twenty-errors.js';
+import { createWorkspaceMemberResolver } from '../workspace-members.js';
 
 export function registerTaskTools(
   server: McpServer,
-  getClient: (sessionId?: string) => TwentyCRMClient,
+  getClient: GetClient,
   logger: Logger
 ): void {
 
@@ -16,51 +22,46 @@ export function registerTaskTools(
       description: 'Twenty CRM: List and search tasks in Twenty CRM with advanced filtering and pagination',
       inputSchema: {
         orderBy: z.string().optional().describe('Sort order (e.g. "createdAt", "dueAt", "status", "title")'),
-        filter: z.string().optional().describe('Filter criteria as JSON string (e.g. \'{"status":{"eq":"TODO"}}\')'),
+        filter: z.string().optional().describe('Filter in Twenty syntax (e.g. "status[eq]:TODO") or as JSON object (e.g. \'{"status":{"eq":"TODO"}}\')'),
+        where: whereParamSchema,
         limit: z.number().min(1).max(60).optional().describe('Number of results to return (max 60, default 20)'),
         depth: z.number().min(0).max(3).optional().describe('Depth of related data to include (0-3, default 1)'),
         startingAfter: z.string().optional().describe('Cursor for pagination - start after this ID'),
-        endingBefore: z.string().optional().describe('Cursor for pagination - end before this ID')
+        endingBefore: z.string().optional().describe('Cursor for pagination - end before this ID'),
+        all: z.boolean().optional().describe('Fetch all pages automatically by following the pagination cursor (ignores limit and endingBefore)'),
+        maxRecords: z.number().min(1).max(MAX_PAGINATED_RECORDS).optional().describe(`Maximum number of records to fetch when all is true (default 1000, max ${MAX_PAGINATED_RECORDS})`),
+        ...responseShapeParams,
+        ...cacheControlParams
       }
     },
-    async ({ orderBy, filter, limit = 20, depth = 1, startingAfter, endingBefore }, extra) => {
+    async ({ orderBy, filter, where, limit = 20, depth = 1, startingAfter, endingBefore, all = false, maxRecords = 1000, fields, format, maxChars, noCache }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra).withCache(!noCache);
         
-        logger.info(`Listing tasks with params:`, { orderBy, filter, limit, depth });
+        logger.info(`Listing tasks with params:`, { orderBy, filter, where, limit, depth, all, maxRecords });
         
-        const queryParams = new URLSearchParams();
-        if (orderBy) queryParams.append('orderBy', orderBy);
-        if (filter) queryParams.append('filter', filter);
-        queryParams.append('limit', limit.toString());
-        queryParams.append('depth', depth.toString());
-        if (startingAfter) queryParams.append('startingAfter', startingAfter);
-        if (endingBefore) queryParams.append('endingBefore', endingBefore);
+        const resolvedFilter = resolveFilter(filter, where);
         
-        const response = await client.makeRequest('GET', `/tasks?${queryParams.toString()}`);
+        const response = all
+          ? await client.fetchAll('/tasks', 'tasks', { orderBy, filter: resolvedFilter, depth, startingAfter }, { maxRecords })
+          : await client.findManyTasks({ orderBy, filter: resolvedFilter, limit, depth, startingAfter, endingBefore });
         
         return {
           content: [{
             type: 'text',
-            text: JSON.stringify({
+            text: formatResponse({
               tasks: response.data?.tasks || [],
               pageInfo: response.pageInfo || {},
               totalCount: response.totalCount || 0,
-              query: { orderBy, filter, limit, depth, startingAfter, endingBefore }
-            }, null, 2)
+              ...('truncated' in response && { truncated: response.truncated }),
+              query: { orderBy, filter: resolvedFilter, limit, depth, startingAfter, endingBefore, all, maxRecords }
+            }, 'tasks', { fields, format, maxChars })
           }]
         };
         
       } catch (error) {
         logger.error('Error listing tasks:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error listing tasks: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error listing tasks', error);
       }
     }
   );
@@ -72,39 +73,31 @@ export function registerTaskTools(
       description: 'Twenty CRM: Get detailed information about a specific task by ID',
       inputSchema: {
         id: z.string().describe('UUID of the task to retrieve'),
-        depth: z.number().min(0).max(3).optional().describe('Depth of related data to include (0-3, default 1)')
+        depth: z.number().min(0).max(3).optional().describe('Depth of related data to include (0-3, default 1)'),
+        ...responseShapeParams,
+        ...cacheControlParams
       }
     },
-    async ({ id, depth = 1 }, extra) => {
+    async ({ id, depth = 1, fields, format, maxChars, noCache }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra).withCache(!noCache);
         
         logger.info(`Getting task ${id} with depth ${depth}`);
         
-        const queryParams = new URLSearchParams();
-        queryParams.append('depth', depth.toString());
-        
-        const response = await client.makeRequest('GET', `/tasks/${id}?${queryParams.toString()}`);
+        const task = await client.findOneTask(id, depth);
         
         return {
           content: [{
             type: 'text',
-            text: JSON.stringify({
-              task: response.data?.task || null
-            }, null, 2)
+            text: formatResponse({
+              task
+            }, 'task', { fields, format, maxChars })
           }]
         };
         
       } catch (error) {
         logger.error('Error getting task:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error getting task: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error getting task', error);
       }
     }
   );
@@ -119,7 +112,7 @@ export function registerTaskTools(
         content: z.string().optional().describe('Task content/description (will be converted to markdown format automatically)'),
         status: z.enum(['TODO', 'IN_PROGRESS', 'DONE']).optional().describe('Task status (default: TODO)'),
         dueAt: z.string().optional().describe('Due date in ISO 8601 format (e.g. "2025-06-30T23:59:00.000Z")'),
-        assigneeId: z.string().optional().describe('UUID of the user assigned to this task'),
+        assigneeId: z.string().optional().describe('Workspace member assigned to this task: UUID, name, email or "me" for the owner of the API key'),
         position: z.number().optional().describe('Position/order for sorting'),
         createdBySource: z.enum(['EMAIL', 'CALENDAR', 'WORKFLOW', 'API', 'IMPORT', 'MANUAL', 'SYSTEM', 'WEBHOOK']).optional().describe('Source of creation'),
         linkToCompanyId: z.string().optional().describe('UUID of company to link this task to (creates TaskTarget automatically)'),
@@ -128,8 +121,7 @@ export function registerTaskTools(
     },
     async (params, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Creating task: ${params.title}`);
         
@@ -152,7 +144,7 @@ export function registerTaskTools(
 
         // Add optional fields
         if (params.dueAt) taskData.dueAt = params.dueAt;
-        if (params.assigneeId) taskData.assigneeId = params.assigneeId;
+        if (params.assigneeId) taskData.assigneeId = await createWorkspaceMemberResolver(client)(params.assigneeId);
         if (params.position !== undefined) taskData.position = params.position;
 
         // Add creation source if provided (correct structure)
@@ -164,12 +156,7 @@ export function registerTaskTools(
         
         logger.debug('Final taskData being sent to API:', taskData);
         
-        const response = await client.makeRequest('POST', '/tasks', taskData);
-        const createdTask = response.data?.createTask;
-        
-        if (!createdTask?.id) {
-          throw new Error('Task creation failed - no task ID returned');
-        }
+        const createdTask = await client.createOneTask(taskData);
 
         const results: any = {
           success: true,
@@ -182,14 +169,14 @@ export function registerTaskTools(
         if (params.linkToCompanyId) {
           try {
             logger.info(`Creating TaskTarget for task ${createdTask.id} -> company ${params.linkToCompanyId}`);
-            const targetResponse = await client.makeRequest('POST', '/taskTargets', {
+            const taskTarget = await client.createOneTaskTarget({
               taskId: createdTask.id,
               companyId: params.linkToCompanyId
             });
             results.linkedTargets.push({
               type: 'company',
               targetId: params.linkToCompanyId,
-              taskTarget: targetResponse.data?.createTaskTarget || null
+              taskTarget
             });
             logger.info(`TaskTarget created successfully: task -> company`);
           } catch (linkError) {
@@ -207,14 +194,14 @@ export function registerTaskTools(
         if (params.linkToPersonId) {
           try {
             logger.info(`Creating TaskTarget for task ${createdTask.id} -> person ${params.linkToPersonId}`);
-            const targetResponse = await client.makeRequest('POST', '/taskTargets', {
+            const taskTarget = await client.createOneTaskTarget({
               taskId: createdTask.id,
               personId: params.linkToPersonId
             });
             results.linkedTargets.push({
               type: 'person',
               targetId: params.linkToPersonId,
-              taskTarget: targetResponse.data?.createTaskTarget || null
+              taskTarget
             });
             logger.info(`TaskTarget created successfully: task -> person`);
           } catch (linkError) {
@@ -237,13 +224,7 @@ export function registerTaskTools(
         
       } catch (error) {
         logger.error('Error creating task:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error creating task: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error creating task', error);
       }
     }
   );
@@ -259,15 +240,14 @@ export function registerTaskTools(
         content: z.string().optional().describe('Task content/description (will be converted to markdown format automatically)'),
         status: z.enum(['TODO', 'IN_PROGRESS', 'DONE']).optional().describe('Task status'),
         dueAt: z.string().nullable().optional().describe('Due date in ISO 8601 format (null to remove)'),
-        assigneeId: z.string().nullable().optional().describe('UUID of the user assigned to this task (null to remove)'),
+        assigneeId: z.string().nullable().optional().describe('Workspace member assigned to this task: UUID, name, email or "me" (null to remove)'),
         position: z.number().optional().describe('Position/order for sorting'),
         depth: z.number().min(0).max(3).optional().describe('Depth of related data to include in response (0-3, default 1)')
       }
     },
     async (params, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Updating task ${params.id}`);
         
@@ -277,7 +257,9 @@ export function registerTaskTools(
         if (params.title !== undefined) updateData.title = params.title;
         if (params.status !== undefined) updateData.status = params.status;
         if (params.dueAt !== undefined) updateData.dueAt = params.dueAt;
-        if (params.assigneeId !== undefined) updateData.assigneeId = params.assigneeId;
+        if (params.assigneeId !== undefined) {
+          updateData.assigneeId = params.assigneeId && await createWorkspaceMemberResolver(client)(params.assigneeId);
+        }
         if (params.position !== undefined) updateData.position = params.position;
 
         // Update content if provided (automatically converted to bodyV2.markdown)
@@ -288,19 +270,14 @@ export function registerTaskTools(
           };
         }
 
-        const queryParams = new URLSearchParams();
-        if (params.depth !== undefined) {
-          queryParams.append('depth', params.depth.toString());
-        }
-        
-        const response = await client.makeRequest('PATCH', `/tasks/${params.id}?${queryParams.toString()}`, updateData);
+        const task = await client.updateOneTask(params.id, updateData, params.depth);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              task: response.data?.updateTask || null,
+              task,
               message: 'Task updated successfully'
             }, null, 2)
           }]
@@ -308,13 +285,7 @@ export function registerTaskTools(
         
       } catch (error) {
         logger.error('Error updating task:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error updating task: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error updating task', error);
       }
     }
   );
@@ -330,19 +301,18 @@ export function registerTaskTools(
     },
     async ({ id }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Deleting task ${id}`);
         
-        const response = await client.makeRequest('DELETE', `/tasks/${id}`);
+        const deleted = await client.deleteOneTask(id);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              deletedId: response.data?.deleteTask?.id || id,
+              deletedId: deleted.id,
               message: 'Task deleted successfully'
             }, null, 2)
           }]
@@ -350,13 +320,7 @@ export function registerTaskTools(
         
       } catch (error) {
         logger.error('Error deleting task:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error deleting task: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error deleting task', error);
       }
     }
   );
@@ -372,18 +336,18 @@ export function registerTaskTools(
           content: z.string().optional(),
           status: z.enum(['TODO', 'IN_PROGRESS', 'DONE']).optional(),
           dueAt: z.string().optional(),
-          assigneeId: z.string().optional()
+          assigneeId: z.string().optional().describe('Workspace member: UUID, name, email or "me"')
         })).describe('Array of tasks to create')
       }
     },
     async ({ tasks }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Batch creating ${tasks.length} tasks`);
         
-        const tasksData = tasks.map(task => {
+        const resolveMember = createWorkspaceMemberResolver(client);
+        const tasksData = await Promise.all(tasks.map(async task => {
           const taskData: any = {
             title: task.title,
             status: task.status || 'TODO'
@@ -395,18 +359,18 @@ export function registerTaskTools(
             };
           }
           if (task.dueAt) taskData.dueAt = task.dueAt;
-          if (task.assigneeId) taskData.assigneeId = task.assigneeId;
+          if (task.assigneeId) taskData.assigneeId = await resolveMember(task.assigneeId);
           return taskData;
-        });
+        }));
         
-        const response = await client.makeRequest('POST', '/batch/tasks', tasksData);
+        const created = await client.createManyTasks(tasksData);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              tasks: response.data?.createTasks || [],
+              tasks: created,
               message: `${tasks.length} tasks created successfully`
             }, null, 2)
           }]
@@ -414,13 +378,7 @@ export function registerTaskTools(
         
       } catch (error) {
         logger.error('Error batch creating tasks:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error batch creating tasks: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error batch creating tasks', error);
       }
     }
   );
@@ -433,36 +391,36 @@ export function registerTaskTools(
       inputSchema: {
         data: z.array(z.object({
           title: z.string(),
-          assigneeId: z.string().optional()
+          assigneeId: z.string().optional().describe('Workspace member: UUID, name, email or "me"')
         })).optional().describe('Array of task data to check for duplicates'),
         ids: z.array(z.string()).optional().describe('Array of task IDs to check for duplicates')
       }
     },
     async ({ data, ids }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Finding task duplicates`);
         
         const requestBody: any = {};
         if (data) {
-          requestBody.data = data.map(task => ({
+          const resolveMember = createWorkspaceMemberResolver(client);
+          requestBody.data = await Promise.all(data.map(async task => ({
             title: task.title,
-            ...(task.assigneeId && { assigneeId: task.assigneeId })
-          }));
+            ...(task.assigneeId && { assigneeId: await resolveMember(task.assigneeId) })
+          })));
         }
         if (ids) {
           requestBody.ids = ids;
         }
         
-        const response = await client.makeRequest('POST', '/tasks/duplicates', requestBody);
+        const duplicates = await client.findTaskDuplicates(requestBody);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
-              duplicates: response.data || [],
+              duplicates,
               message: 'Duplicate search completed'
             }, null, 2)
           }]
@@ -470,13 +428,7 @@ export function registerTaskTools(
         
       } catch (error) {
         logger.error('Error finding task duplicates:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error finding task duplicates: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error finding task duplicates', error);
       }
     }
   );
@@ -493,8 +445,7 @@ export function registerTaskTools(
     },
     async ({ id, depth = 1 }, extra) => {
       try {
-        const sessionId = String(extra?.requestId || 'default');
-        const client = getClient(sessionId);
+        const client = getClient(extra);
         
         logger.info(`Completing task ${id}`);
         
@@ -502,17 +453,14 @@ export function registerTaskTools(
           status: 'DONE' as const
         };
 
-        const queryParams = new URLSearchParams();
-        queryParams.append('depth', depth.toString());
-        
-        const response = await client.makeRequest('PATCH', `/tasks/${id}?${queryParams.toString()}`, updateData);
+        const task = await client.updateOneTask(id, updateData, depth);
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              task: response.data?.updateTask || null,
+              task,
               message: 'Task completed successfully'
             }, null, 2)
           }]
@@ -520,13 +468,7 @@ export function registerTaskTools(
         
       } catch (error) {
         logger.error('Error completing task:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error completing task: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error completing task', error);
       }
     }
   );
@@ -0,0 +1,275 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { Logger } from 'winston';
+import { GetClient } from '../auth/request-context.js';
+import { cacheControlParams } from '../response-cache.js';
+import { TwentyApiError, toolErrorResult } from '../twenty-errors.js';
+import {
+  GRAPHQL_PAGE_SIZE,
+  GRAPHQL_PLURALS,
+  GraphQLObject,
+  RECORD_SELECTIONS,
+  buildQuery,
+  connectionField,
+  eqFilter,
+  recordField
+} from '../graphql.js';
+
+const TIMELINE_SECTIONS = ['notes', 'tasks', 'people', 'opportunities', 'activities'] as const;
+
+type TimelineSection = typeof TIMELINE_SECTIONS[number];
+type TimelineEntityType = 'person' | 'company' | 'opportunity';
+
+interface TimelineItem {
+  type: 'note' | 'task' | 'person' | 'opportunity' | 'activity';
+  id: string;
+  date?: string;
+  title: string;
+  detail?: string;
+  [key: string]: any;
+}
+
+interface SectionQuery {
+  object: GraphQLObject;
+  selection: string;
+  filter: string;
+}
+
+// The opportunity's point of contact is loaded with the entity instead of a people section
+const ENTITY_SELECTIONS: Record<TimelineEntityType, string> = {
+  person: RECORD_SELECTIONS.person,
+  company: RECORD_SELECTIONS.company,
+  opportunity: `${RECORD_SELECTIONS.opportunity} pointOfContact { ${RECORD_SELECTIONS.person} }`
+};
+
+/**
+ * Collection queried for a section of the entity's timeline, if it has one
+ */
+const sectionQuery = (section: TimelineSection, entityType: TimelineEntityType): SectionQuery | undefined => {
+  const byEntity = eqFilter(`${entityType}Id`);
+  switch (section) {
+    case 'notes':
+      return { object: 'noteTarget', selection: `id note { ${RECORD_SELECTIONS.note} }`, filter: byEntity };
+    case 'tasks':
+      return { object: 'taskTarget', selection: `id task { ${RECORD_SELECTIONS.task} }`, filter: byEntity };
+    case 'people':
+      return entityType === 'company' ? { object: 'person', selection: RECORD_SELECTIONS.person, filter: eqFilter('companyId') } : undefined;
+    case 'opportunities':
+      if (entityType === 'opportunity') return undefined;
+      return {
+        object: 'opportunity',
+        selection: RECORD_SELECTIONS.opportunity,
+        filter: eqFilter(entityType === 'company' ? 'companyId' : 'pointOfContactId')
+      };
+    case 'activities':
+      return { object: 'timelineActivity', selection: RECORD_SELECTIONS.timelineActivity, filter: byEntity };
+  }
+};
+
+// Upper bound of records loaded per section; the feed itself is limited separately
+const MAX_SECTION_RECORDS = 500;
+
+const fullName = (person: any) => [person?.name?.firstName, person?.name?.lastName].filter(Boolean).join(' ');
+
+const preview = (text: string | undefined, length: number) => {
+  if (!text) return undefined;
+  const compact = text.replace(/\s+/g, ' ').trim();
+  return compact.length > length ? `${compact.substring(0, length)}…` : compact || undefined;
+};
+
+const formatAmount = (amount: any) =>
+  amount?.amountMicros != null ? `${(Number(amount.amountMicros) / 1_000_000).toFixed(2)} ${amount.currencyCode || ''}`.trim() : undefined;
+
+const entityLabel = (entityType: TimelineEntityType, entity: any) =>
+  (entityType === 'person' ? fullName(entity) : entity?.name) || entity?.id;
+
+export function registerTimelineTools(
+  server: McpServer,
+  getClient: GetClient,
+  logger: Logger
+): void {
+
+  // 1. Get Timeline Tool
+  server.registerTool(
+    'twenty-crm-get-timeline',
+    {
+      description: 'Twenty CRM: 360° view of a person, company or opportunity - linked notes, tasks, related people/opportunities and timeline activities as one chronologically sorted feed (newest first) with a summary header',
+      inputSchema: {
+        entityType: z.enum(['person', 'company', 'opportunity']).describe('Type of the entity'),
+        entityId: z.string().describe('UUID of the person, company or opportunity'),
+        include: z.array(z.enum(TIMELINE_SECTIONS)).min(1).optional().describe('Sections to include (default: notes, tasks, people, opportunities, activities)'),
+        since: z.string().optional().describe('Only include items on or after this date (ISO 8601)'),
+        limit: z.number().min(1).max(200).optional().describe('Maximum number of feed items (max 200, default 50)'),
+        previewLength: z.number().min(0).max(2000).optional().describe('Maximum characters of note/task bodies in the feed (default 200, 0 to omit)'),
+        ...cacheControlParams
+      }
+    },
+    async ({ entityType, entityId, include = [...TIMELINE_SECTIONS], since, limit = 50, previewLength = 200, noCache }, extra) => {
+      try {
+        const client = getClient(extra).withCache(!noCache);
+
+        if (since && Number.isNaN(Date.parse(since))) {
+          throw new Error('since must be an ISO 8601 date string');
+        }
+
+        logger.info(`Building timeline for ${entityType} ${entityId}`, { include, since, limit });
+
+        const sections = TIMELINE_SECTIONS.filter(section => include.includes(section));
+        const queries = new Map<TimelineSection, SectionQuery>();
+        for (const section of sections) {
+          const found = sectionQuery(section, entityType);
+          if (found) queries.set(section, found);
+        }
+
+        // Entity and the first page of every section in one request
+        const query = buildQuery('Timeline', { id: 'UUID!' }, [
+          recordField(entityType, ENTITY_SELECTIONS[entityType], 'id', 'entity'),
+          ...[...queries.values()].map(({ object, selection, filter }) =>
+            connectionField(GRAPHQL_PLURALS[object], selection, { filter, first: GRAPHQL_PAGE_SIZE }))
+        ]);
+        const response = await client.graphqlRequest(query, { id: entityId });
+        const errors = response.errors || [];
+        const errorsOf = (field: string) => errors.filter((error: any) => Array.isArray(error?.path) && error.path[0] === field);
+
+        // Errors outside a section (e.g. an invalid query) leave nothing to show
+        if (!response.data || errorsOf('entity').length > 0 || errors.some((error: any) => !Array.isArray(error?.path))) {
+          throw TwentyApiError.fromGraphQLErrors(errors.length > 0 ? errors : [{ message: 'Empty GraphQL response' }], { method: 'POST', path: '/graphql' });
+        }
+        const entity = response.data.entity;
+        if (!entity) {
+          throw new Error(`${entityType} ${entityId} not found`);
+        }
+
+        const toItems = (section: TimelineSection, records: any[]): TimelineItem[] => {
+          switch (section) {
+            case 'notes':
+              return records
+                .map(target => target.note)
+                .filter(Boolean)
+                .map(note => ({
+                  type: 'note' as const,
+                  id: note.id,
+                  date: note.createdAt,
+                  title: note.title || '(untitled note)',
+                  ...(previewLength > 0 && { detail: preview(note.bodyV2?.markdown, previewLength) })
+                }));
+            case 'tasks':
+              return records
+                .map(target => target.task)
+                .filter(Boolean)
+                .map(task => ({
+                  type: 'task' as const,
+                  id: task.id,
+                  date: task.createdAt,
+                  title: task.title || '(untitled task)',
+                  status: task.status,
+                  ...(task.dueAt && { dueAt: task.dueAt }),
+                  ...(previewLength > 0 && { detail: preview(task.bodyV2?.markdown, previewLength) })
+                }));
+            case 'people':
+              return records.map(person => ({
+                type: 'person' as const,
+                id: person.id,
+                date: person.createdAt,
+                title: fullName(person) || person.emails?.primaryEmail || person.id,
+                detail: [person.jobTitle, person.emails?.primaryEmail].filter(Boolean).join(' · ') || undefined
+              }));
+            case 'opportunities':
+              return records.map(opportunity => ({
+                type: 'opportunity' as const,
+                id: opportunity.id,
+                date: opportunity.createdAt,
+                title: opportunity.name || opportunity.id,
+                stage: opportunity.stage,
+                ...(opportunity.closeDate && { closeDate: opportunity.closeDate }),
+                detail: formatAmount(opportunity.amount)
+              }));
+            case 'activities':
+              return records.map(activity => ({
+                type: 'activity' as const,
+                id: activity.id,
+                date: activity.happensAt || activity.createdAt,
+                title: activity.name,
+                detail: activity.linkedRecordCachedName || undefined
+              }));
+          }
+        };
+
+        // Sections with more than one page continue in parallel; a failing section is reported instead of failing the whole timeline
+        // truncated: the section has more than MAX_SECTION_RECORDS records, only the first ones were loaded
+        const loadSection = async (section: TimelineSection): Promise<{ items: TimelineItem[]; truncated: boolean }> => {
+          if (section === 'people' && entityType === 'opportunity') {
+            return { items: toItems(section, entity.pointOfContact ? [entity.pointOfContact] : []), truncated: false };
+          }
+          const page = queries.get(section);
+          if (!page) return { items: [], truncated: false };
+          const field = GRAPHQL_PLURALS[page.object];
+          if (errorsOf(field).length > 0) {
+            throw TwentyApiError.fromGraphQLErrors(errorsOf(field));
+          }
+          const { records, truncated } = await client.collectConnection(response.data[field], { ...page, id: entityId }, MAX_SECTION_RECORDS);
+          return { items: toItems(section, records), truncated };
+        };
+
+        const settled = await Promise.allSettled(sections.map(loadSection));
+
+        const items: TimelineItem[] = [];
+        const warnings: string[] = [];
+        const truncatedSections: TimelineSection[] = [];
+        settled.forEach((outcome, index) => {
+          if (outcome.status === 'fulfilled') {
+            items.push(...outcome.value.items);
+            if (outcome.value.truncated) {
+              truncatedSections.push(sections[index]);
+              warnings.push(`${sections[index]}: only the first ${MAX_SECTION_RECORDS} records were loaded, counts and feed are incomplete`);
+            }
+          } else {
+            const reason = outcome.reason instanceof Error ? outcome.reason.message : 'Unknown error';
+            warnings.push(`${sections[index]}: ${reason}`);
+          }
+        });
+
+        const sinceTime = since ? Date.parse(since) : undefined;
+        const sorted = items
+          .filter(item => sinceTime === undefined || (item.date !== undefined && Date.parse(item.date) >= sinceTime))
+          .sort((a, b) => (b.date ? Date.parse(b.date) : 0) - (a.date ? Date.parse(a.date) : 0));
+
+        const now = Date.now();
+        const tasks = sorted.filter(item => item.type === 'task');
+        const openTasks = tasks.filter(task => task.status !== 'DONE');
+        const countsByType = sorted.reduce<Record<string, number>>((counts, item) => {
+          counts[item.type] = (counts[item.type] || 0) + 1;
+          return counts;
+        }, {});
+
+        const summary = {
+          entityType,
+          entityId,
+          label: entityLabel(entityType, entity),
+          countsByType,
+          openTasks: openTasks.length,
+          overdueTasks: openTasks.filter(task => task.dueAt && Date.parse(task.dueAt) < now).length,
+          lastActivityAt: sorted.find(item => item.date)?.date,
+          totalItems: sorted.length,
+          truncated: sorted.length > limit,
+          ...(truncatedSections.length > 0 && { truncatedSections })
+        };
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              summary,
+              feed: sorted.slice(0, limit),
+              ...(warnings.length > 0 && { warnings })
+            }, null, 2)
+          }]
+        };
+
+      } catch (error) {
+        logger.error('Error building timeline:', error);
+        return toolErrorResult('Error building timeline', error);
+      }
+    }
+  );
+}
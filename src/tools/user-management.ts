@@ -3,6 +3,7 @@ import { PostgresClient } from '../postgres-client.js';
 import { z } from 'zod';
 import { Logger } from 'winston';
 import axios from 'axios';
+import { toolErrorResult } from '../twenty-errors.js';
 
 // Generate a random password
 function generateRandomPassword(length: number = 12): string {
@@ -20,13 +21,13 @@ async function sendInvitationEmail(
   recipientName: string, 
   password: string,
   logger: Logger,
+  mailersendApiKey: string | undefined,
   bccEmail?: string
 ): Promise<any> {
-  const MAILERSEND_API_KEY = process.env.MAILERSEND_API_KEY;
   const TEMPLATE_ID = 'o65qngkv76jlwr12';
   const FROM_EMAIL = 'aljoscha@ole.de';
   
-  if (!MAILERSEND_API_KEY) {
+  if (!mailersendApiKey) {
     throw new Error('MAILERSEND_API_KEY not configured');
   }
 
@@ -69,7 +70,7 @@ async function sendInvitationEmail(
         headers: {
           'Content-Type': 'application/json',
           'X-Requested-With': 'XMLHttpRequest',
-          'Authorization': `Bearer ${MAILERSEND_API_KEY}`
+          'Authorization': `Bearer ${mailersendApiKey}`
         }
       }
     );
@@ -85,7 +86,8 @@ async function sendInvitationEmail(
 export function registerUserManagementTools(
   server: McpServer,
   getPostgresClient: () => PostgresClient,
-  logger: Logger
+  logger: Logger,
+  mailersendApiKey?: string
 ): void {
 
   // 1. List Organizations Tool
@@ -117,13 +119,7 @@ export function registerUserManagementTools(
         
       } catch (error) {
         logger.error('Error listing organizations:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error listing organizations: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error listing organizations', error);
       }
     }
   );
@@ -171,13 +167,7 @@ export function registerUserManagementTools(
         
       } catch (error) {
         logger.error('Error getting organization:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error getting organization: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error getting organization', error);
       }
     }
   );
@@ -226,13 +216,7 @@ export function registerUserManagementTools(
         
       } catch (error) {
         logger.error('Error creating organization:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error creating organization: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error creating organization', error);
       }
     }
   );
@@ -283,13 +267,7 @@ export function registerUserManagementTools(
         
       } catch (error) {
         logger.error('Error updating organization:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error updating organization: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error updating organization', error);
       }
     }
   );
@@ -351,13 +329,7 @@ export function registerUserManagementTools(
         
       } catch (error) {
         logger.error('Error deleting organization:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error deleting organization: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error deleting organization', error);
       }
     }
   );
@@ -394,13 +366,7 @@ export function registerUserManagementTools(
         
       } catch (error) {
         logger.error('Error listing users:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error listing users: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error listing users', error);
       }
     }
   );
@@ -448,13 +414,7 @@ export function registerUserManagementTools(
         
       } catch (error) {
         logger.error('Error getting user:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error getting user: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error getting user', error);
       }
     }
   );
@@ -524,13 +484,7 @@ export function registerUserManagementTools(
         
       } catch (error) {
         logger.error('Error creating user:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error creating user: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error creating user', error);
       }
     }
   );
@@ -597,13 +551,7 @@ export function registerUserManagementTools(
         
       } catch (error) {
         logger.error('Error updating user:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error updating user: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error updating user', error);
       }
     }
   );
@@ -669,13 +617,7 @@ export function registerUserManagementTools(
         
       } catch (error) {
         logger.error('Error deleting user:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error deleting user: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error deleting user', error);
       }
     }
   );
@@ -701,6 +643,7 @@ export function registerUserManagementTools(
           recipientName,
           password,
           logger,
+          mailersendApiKey,
           bccEmail
         );
         
@@ -733,13 +676,7 @@ export function registerUserManagementTools(
         
       } catch (error) {
         logger.error('Error sending invitation email:', error);
-        return {
-          content: [{
-            type: 'text',
-            text: `Error sending invitation email: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return toolErrorResult('Error sending invitation email', error);
       }
     }
   );
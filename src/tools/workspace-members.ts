@@ -0,0 +1,98 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { Logger } from 'winston';
+import { GetClient } from '../auth/request-context.js';
+import { formatResponse, responseShapeParams } from '../formatting.js';
+import { cacheControlParams } from '../response-cache.js';
+import { toolErrorResult } from '../twenty-errors.js';
+import { WorkspaceMember } from '../twenty-client.js';
+import {
+  listWorkspaceMembers,
+  matchWorkspaceMembers,
+  resolveCurrentWorkspaceMember
+} from '../workspace-members.js';
+
+export function registerWorkspaceMemberTools(
+  server: McpServer,
+  getClient: GetClient,
+  logger: Logger
+): void {
+
+  // 1. List Workspace Members Tool
+  server.registerTool(
+    'twenty-crm-list-workspace-members',
+    {
+      description: 'Twenty CRM: List all workspace members (users) with name, email and ID - the IDs to use as task assignee or company account owner. Also reports the member the API key belongs to, if it is tied to one',
+      inputSchema: {
+        ...responseShapeParams,
+        ...cacheControlParams
+      }
+    },
+    async ({ fields, format, maxChars, noCache }, extra) => {
+      try {
+        const client = getClient(extra).withCache(!noCache);
+
+        logger.info('Listing workspace members');
+
+        const members = await listWorkspaceMembers(client);
+        const currentMember = await resolveCurrentWorkspaceMember(client, members).catch(() => undefined);
+
+        return {
+          content: [{
+            type: 'text',
+            text: formatResponse({
+              workspaceMembers: members,
+              totalCount: members.length,
+              ...(currentMember && { currentMemberId: currentMember.id })
+            }, 'workspaceMembers', { fields, format, maxChars })
+          }]
+        };
+
+      } catch (error) {
+        logger.error('Error listing workspace members:', error);
+        return toolErrorResult('Error listing workspace members', error);
+      }
+    }
+  );
+
+  // 2. Find Workspace Member Tool
+  server.registerTool(
+    'twenty-crm-find-workspace-member',
+    {
+      description: 'Twenty CRM: Find workspace members by name or email (case-insensitive, exact matches first, otherwise partial matches), or "me" for the member the API key belongs to',
+      inputSchema: {
+        query: z.string().min(1).describe('Name (e.g. "Anna Schmidt"), email or "me"'),
+        ...responseShapeParams,
+        ...cacheControlParams
+      }
+    },
+    async ({ query, fields, format, maxChars, noCache }, extra) => {
+      try {
+        const client = getClient(extra).withCache(!noCache);
+        const searchText = query.trim();
+
+        logger.info(`Finding workspace member "${searchText}"`);
+
+        const members = await listWorkspaceMembers(client);
+        const matches: WorkspaceMember[] = searchText.toLowerCase() === 'me'
+          ? [await resolveCurrentWorkspaceMember(client, members)]
+          : matchWorkspaceMembers(members, searchText);
+
+        return {
+          content: [{
+            type: 'text',
+            text: formatResponse({
+              workspaceMembers: matches,
+              totalCount: matches.length,
+              query: searchText
+            }, 'workspaceMembers', { fields, format, maxChars })
+          }]
+        };
+
+      } catch (error) {
+        logger.error('Error finding workspace member:', error);
+        return toolErrorResult('Error finding workspace member', error);
+      }
+    }
+  );
+}
@@ -1,5 +1,11 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, isAxiosError } from 'axios';
+import { createHash } from 'crypto';
 import { Logger } from 'winston';
+import { DEFAULT_RESILIENCE_OPTIONS, ResilienceOptions, createResilientAdapter } from './resilience.js';
+import { DEFAULT_RESPONSE_CACHE_OPTIONS, ResponseCacheOptions, createCachingAdapter } from './response-cache.js';
+import { TwentyApiError } from './twenty-errors.js';
+import { GraphQLConnection, GraphQLObject, GraphQLResponse, buildPageQuery, nodesOf } from './graphql.js';
+import { fromFilterObject, serializeFilter } from './filters.js';
 
 export interface PageInfo {
   hasNextPage: boolean;
@@ -32,18 +38,30 @@ export interface Person {
     firstName?: string;
     lastName?: string;
   };
-  email?: string;
+  emails?: {
+    primaryEmail?: string;
+    additionalEmails?: string[];
+  };
+  phones?: {
+    primaryPhoneNumber?: string;
+    primaryPhoneCountryCode?: string;
+    primaryPhoneCallingCode?: string;
+    additionalPhones?: any[];
+  };
   linkedinLink?: any;
   xLink?: any;
   jobTitle?: string;
-  phone?: string;
   city?: string;
-  whatsapp?: string;
+  avatarUrl?: string;
+  whatsapp?: any;
+  createdBy?: any;
   createdAt?: string;
   updatedAt?: string;
   deletedAt?: string;
-  company?: any;
+  company?: Company;
   companyId?: string;
+  // Custom fields of the workspace
+  [field: string]: any;
 }
 
 export interface Company {
@@ -59,11 +77,14 @@ export interface Company {
   xLink?: any;
   annualRecurringRevenue?: any;
   visaSponsorship?: boolean;
+  accountOwnerId?: string;
+  createdBy?: any;
   createdAt?: string;
   updatedAt?: string;
   deletedAt?: string;
-  people?: any[];
-  opportunities?: any[];
+  people?: Person[];
+  opportunities?: Opportunity[];
+  [field: string]: any;
 }
 
 export interface Task {
@@ -72,13 +93,16 @@ export interface Task {
   title?: string;
   body?: string;
   bodyV2?: any;
-  dueAt?: string;
+  dueAt?: string | null;
   status?: 'TODO' | 'IN_PROGRESS' | 'DONE';
+  createdBy?: any;
   createdAt?: string;
   updatedAt?: string;
   deletedAt?: string;
-  assigneeId?: string;
-  assignee?: any;
+  assigneeId?: string | null;
+  assignee?: WorkspaceMember;
+  taskTargets?: TaskTarget[];
+  [field: string]: any;
 }
 
 export interface Note {
@@ -87,46 +111,242 @@ export interface Note {
   title?: string;
   body?: string;
   bodyV2?: any;
+  createdBy?: any;
   createdAt?: string;
   updatedAt?: string;
   deletedAt?: string;
+  noteTargets?: NoteTarget[];
+  [field: string]: any;
 }
 
+export type OpportunityStage = 'NEW' | 'SCREENING' | 'MEETING' | 'PROPOSAL' | 'CUSTOMER';
+
 export interface Opportunity {
   id?: string;
   position?: number;
   amount?: any;
   name?: string;
-  closeDate?: string;
-  stage?: 'NEW' | 'SCREENING' | 'MEETING' | 'PROPOSAL' | 'CUSTOMER';
+  closeDate?: string | null;
+  // Workspaces may add custom stages to the standard pipeline
+  stage?: OpportunityStage | (string & {});
+  createdBy?: any;
+  createdAt?: string;
+  updatedAt?: string;
+  deletedAt?: string;
+  pointOfContact?: Person;
+  pointOfContactId?: string | null;
+  company?: Company;
+  companyId?: string | null;
+  [field: string]: any;
+}
+
+export interface TaskTarget {
+  id?: string;
+  taskId?: string;
+  personId?: string | null;
+  companyId?: string | null;
+  opportunityId?: string | null;
+  task?: Task;
+  person?: Person;
+  company?: Company;
+  opportunity?: Opportunity;
   createdAt?: string;
   updatedAt?: string;
   deletedAt?: string;
-  pointOfContact?: any;
-  company?: any;
+  [field: string]: any;
+}
+
+export interface NoteTarget {
+  id?: string;
+  noteId?: string;
+  personId?: string | null;
+  companyId?: string | null;
+  opportunityId?: string | null;
+  note?: Note;
+  person?: Person;
+  company?: Company;
+  opportunity?: Opportunity;
+  createdAt?: string;
+  updatedAt?: string;
+  deletedAt?: string;
+  [field: string]: any;
+}
+
+export interface WorkspaceMember {
+  id?: string;
+  name?: {
+    firstName?: string;
+    lastName?: string;
+  };
+  userEmail?: string;
+  userId?: string;
+  avatarUrl?: string;
+  colorScheme?: string;
+  locale?: string;
+  timeZone?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  deletedAt?: string;
+  [field: string]: any;
+}
+
+export interface Attachment {
+  id?: string;
+  name?: string;
+  fullPath?: string;
+  type?: string;
+  authorId?: string;
+  taskId?: string | null;
+  noteId?: string | null;
+  personId?: string | null;
+  companyId?: string | null;
+  opportunityId?: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+  deletedAt?: string;
+  [field: string]: any;
+}
+
+export interface DeletedRecord {
+  id: string;
+}
+
+// One entry per checked record or ID, the matches under `<objectSingular>Duplicates`
+export interface DuplicatesResult<T> {
+  totalCount?: number;
+  pageInfo?: PageInfo;
+  [duplicatesKey: string]: T[] | number | PageInfo | undefined;
+}
+
+export interface DuplicatesQuery<T> {
+  data?: Partial<T>[];
+  ids?: string[];
 }
 
 export interface QueryParams {
   orderBy?: string;
-  filter?: Record<string, any>;
+  // Filter in REST syntax or filter object (GraphQL shape)
+  filter?: string | Record<string, any>;
   limit?: number;
   depth?: number;
   startingAfter?: string;
   endingBefore?: string;
 }
 
+export interface PaginateParams {
+  orderBy?: string;
+  filter?: string | Record<string, any>;
+  depth?: number;
+  startingAfter?: string;
+}
+
+export interface PaginateOptions {
+  pageSize?: number;
+  maxRecords?: number;
+}
+
+export interface ListPage<T> {
+  records: T[];
+  pageInfo?: PageInfo;
+  totalCount?: number;
+}
+
+export interface FetchAllResponse<T> extends ListResponse<T> {
+  truncated: boolean;
+}
+
+export interface SearchRecord {
+  recordId: string;
+  objectNameSingular: string;
+  label: string;
+  imageUrl?: string;
+  tsRankCD?: number;
+  tsRank?: number;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  objectNames?: string[];
+}
+
+export interface TwentyClientOptions {
+  timeoutMs?: number;
+  // Retry, rate limit and circuit breaker settings
+  resilience?: ResilienceOptions;
+  cache?: ResponseCacheOptions;
+  // Read past the response cache (see withCache)
+  bypassCache?: boolean;
+  // Member "me" refers to when the token does not identify one (API keys belong to the workspace)
+  workspaceMemberId?: string;
+}
+
+// Unverified payload of a JWT API key or access token
+export interface TokenClaims {
+  sub?: string;
+  type?: string;
+  workspaceId?: string;
+  userId?: string;
+  workspaceMemberId?: string;
+  [key: string]: any;
+}
+
+// Creates the client for an API key on a Twenty instance with the configured options
+export type TwentyClientFactory = (apiKey: string, baseURL: string) => TwentyCRMClient;
+
+interface RestObject {
+  singular: string;
+  plural: string;
+}
+
+// REST path (plural) and response keys of the core objects
+const REST_OBJECTS = {
+  person: { singular: 'person', plural: 'people' },
+  company: { singular: 'company', plural: 'companies' },
+  opportunity: { singular: 'opportunity', plural: 'opportunities' },
+  task: { singular: 'task', plural: 'tasks' },
+  note: { singular: 'note', plural: 'notes' },
+  taskTarget: { singular: 'taskTarget', plural: 'taskTargets' },
+  noteTarget: { singular: 'noteTarget', plural: 'noteTargets' },
+  workspaceMember: { singular: 'workspaceMember', plural: 'workspaceMembers' },
+  attachment: { singular: 'attachment', plural: 'attachments' }
+} satisfies Record<string, RestObject>;
+
+// Filter objects (GraphQL shape) are sent in the REST filter syntax
+const toFilterParam = (filter: string | Record<string, any>) =>
+  typeof filter === 'string' ? filter : serializeFilter(fromFilterObject(filter));
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// Twenty caps a single page at 60 records
+export const MAX_PAGE_SIZE = 60;
+
+// Hard safety ceiling for auto-pagination, regardless of the requested maxRecords
+export const MAX_PAGINATED_RECORDS = 10000;
+
 export class TwentyCRMClient {
   private client: AxiosInstance;
   private logger: Logger;
+  private graphqlURL: string;
+  private apiKey: string;
+  private token: string;
+  private baseURL: string;
+  private options: TwentyClientOptions;
+
+  // Stable, non-reversible identifier of the workspace this client talks to (used as cache key)
+  readonly workspaceKey: string;
 
-  constructor(apiKey: string, logger: Logger) {
+  constructor(apiKey: string, logger: Logger, baseURL: string, options: TwentyClientOptions = {}) {
     this.logger = logger;
+    this.apiKey = apiKey;
+    this.baseURL = baseURL;
+    this.options = options;
     
     // Remove 'Bearer ' prefix if present and clean the token
     let token = apiKey.startsWith('Bearer ') ? apiKey.substring(7) : apiKey;
     
     // Clean token: remove any newlines, carriage returns, or extra whitespace
     token = token.replace(/[\r\n\s]/g, '');
+    this.token = token;
     
     // Log token info for debugging
     this.logger.debug('TwentyCRMClient token info:', {
@@ -136,13 +356,31 @@ export class TwentyCRMClient {
       tokenStart: token.substring(0, 10)
     });
     
+    this.graphqlURL = baseURL.replace(/\/rest\/?$/, '') + '/graphql';
+    this.workspaceKey = createHash('sha256').update(`${baseURL}:${token}`).digest('hex').substring(0, 16);
+
     this.client = axios.create({
-      baseURL: process.env.TWENTY_CRM_URL || 'https://crm.tools.ole.de/rest',
+      baseURL,
       headers: {
         'Authorization': `Bearer ${token}`,
         'Content-Type': 'application/json'
       },
-      timeout: 30000
+      timeout: options.timeoutMs ?? 30000,
+      // Cache and retries happen below the interceptors, so logging sees one request and its final outcome;
+      // cache hits neither count against the rate limit nor reach the circuit breaker
+      adapter: createCachingAdapter(
+        createResilientAdapter(axios.getAdapter(axios.defaults.adapter), {
+          workspaceKey: this.workspaceKey,
+          baseURL,
+          options: options.resilience ?? DEFAULT_RESILIENCE_OPTIONS,
+          logger
+        }),
+        {
+          workspaceKey: this.workspaceKey,
+          options: options.cache ?? DEFAULT_RESPONSE_CACHE_OPTIONS,
+          readFromCache: !options.bypassCache
+        }
+      )
     });
 
     // Add request/response logging
@@ -170,113 +408,505 @@ export class TwentyCRMClient {
         return response;
       },
       (error) => {
+        // Other errors (e.g. an open circuit) already carry a readable message
+        if (!isAxiosError(error)) return Promise.reject(error);
+        const apiError = TwentyApiError.fromAxiosError(error);
         this.logger.error('API Response Error:', {
-          status: error.response?.status,
+          status: apiError.status,
+          code: apiError.code,
+          method: apiError.method,
+          path: apiError.path,
+          requestId: apiError.requestId,
           data: error.response?.data,
           message: error.message
         });
-        return Promise.reject(error);
+        return Promise.reject(apiError);
       }
     );
   }
 
+  /**
+   * This client, or with `false` a client of the same workspace that reads
+   * past the response cache (its fresh responses still refresh the cache)
+   */
+  withCache(enabled: boolean): TwentyCRMClient {
+    if (enabled || this.options.bypassCache) return this;
+    return new TwentyCRMClient(this.apiKey, this.logger, this.baseURL, { ...this.options, bypassCache: true });
+  }
+
+  /**
+   * Claims of the token if it is a JWT; not verified, only used to tell
+   * whose token it is
+   */
+  get tokenClaims(): TokenClaims | undefined {
+    const payload = this.token.split('.')[1];
+    if (!payload) return undefined;
+    try {
+      return JSON.parse(Buffer.from(payload, 'base64url').toString());
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Configured workspace member of the token's owner, if any
+   */
+  get workspaceMemberId(): string | undefined {
+    return this.options.workspaceMemberId;
+  }
+
   async testConnection(): Promise<void> {
+    // Credentials are always checked against the server
+    if (!this.options.bypassCache) {
+      return this.withCache(false).testConnection();
+    }
     await this.client.get('/people', { params: { limit: 1 } });
   }
 
-  // People endpoints
-  async findManyPeople(params?: QueryParams): Promise<ListResponse<Person>> {
-    const response = await this.client.get('/people', { params });
+  // REST endpoints of the core objects; single-record methods return the record itself
+
+  private async findMany<T>(object: RestObject, params: QueryParams = {}): Promise<ListResponse<T>> {
+    const { filter, ...rest } = params;
+    const queryParams = { ...rest, ...(filter && { filter: toFilterParam(filter) }) };
+    const response = await this.client.get(`/${object.plural}`, { params: queryParams });
     return response.data;
   }
 
-  async findOnePerson(id: string, depth?: number): Promise<SingleResponse<Person>> {
-    const response = await this.client.get(`/people/${id}`, { params: { depth } });
-    return response.data;
+  private async findOne<T>(object: RestObject, id: string, depth?: number): Promise<T | null> {
+    const response = await this.client.get(`/${object.plural}/${id}`, { params: { depth } });
+    return response.data?.data?.[object.singular] ?? null;
   }
 
-  async createOnePerson(data: Person, depth?: number): Promise<SingleResponse<Person>> {
-    const response = await this.client.post('/people', data, { params: { depth } });
-    return response.data;
+  private async createOne<T>(object: RestObject, data: Partial<T>, depth?: number): Promise<T> {
+    const response = await this.client.post(`/${object.plural}`, data, { params: { depth } });
+    const record = response.data?.data?.[`create${capitalize(object.singular)}`];
+    if (!record?.id) {
+      throw new Error(`${capitalize(object.singular)} creation failed - no ID returned`);
+    }
+    return record;
   }
 
-  async updateOnePerson(id: string, data: Partial<Person>, depth?: number): Promise<SingleResponse<Person>> {
-    const response = await this.client.patch(`/people/${id}`, data, { params: { depth } });
-    return response.data;
+  private async updateOne<T>(object: RestObject, id: string, data: Partial<T>, depth?: number): Promise<T | null> {
+    const response = await this.client.patch(`/${object.plural}/${id}`, data, { params: { depth } });
+    return response.data?.data?.[`update${capitalize(object.singular)}`] ?? null;
+  }
+
+  private async deleteOne(object: RestObject, id: string): Promise<DeletedRecord> {
+    const response = await this.client.delete(`/${object.plural}/${id}`);
+    return { id: response.data?.data?.[`delete${capitalize(object.singular)}`]?.id || id };
+  }
+
+  private async createMany<T>(object: RestObject, data: Partial<T>[], depth?: number): Promise<T[]> {
+    const response = await this.client.post(`/batch/${object.plural}`, data, { params: { depth } });
+    return response.data?.data?.[`create${capitalize(object.plural)}`] || [];
+  }
+
+  private async findDuplicates<T>(object: RestObject, query: DuplicatesQuery<T>): Promise<DuplicatesResult<T>[]> {
+    const response = await this.client.post(`/${object.plural}/duplicates`, query);
+    return response.data?.data || [];
+  }
+
+  // People endpoints
+  findManyPeople(params?: QueryParams): Promise<ListResponse<Person>> {
+    return this.findMany(REST_OBJECTS.person, params);
   }
 
-  async deleteOnePerson(id: string): Promise<void> {
-    await this.client.delete(`/people/${id}`);
+  findOnePerson(id: string, depth?: number): Promise<Person | null> {
+    return this.findOne(REST_OBJECTS.person, id, depth);
+  }
+
+  createOnePerson(data: Partial<Person>, depth?: number): Promise<Person> {
+    return this.createOne(REST_OBJECTS.person, data, depth);
+  }
+
+  updateOnePerson(id: string, data: Partial<Person>, depth?: number): Promise<Person | null> {
+    return this.updateOne(REST_OBJECTS.person, id, data, depth);
+  }
+
+  deleteOnePerson(id: string): Promise<DeletedRecord> {
+    return this.deleteOne(REST_OBJECTS.person, id);
+  }
+
+  createManyPeople(data: Partial<Person>[], depth?: number): Promise<Person[]> {
+    return this.createMany(REST_OBJECTS.person, data, depth);
+  }
+
+  findPersonDuplicates(query: DuplicatesQuery<Person>): Promise<DuplicatesResult<Person>[]> {
+    return this.findDuplicates(REST_OBJECTS.person, query);
   }
 
   // Companies endpoints
-  async findManyCompanies(params?: QueryParams): Promise<ListResponse<Company>> {
-    const response = await this.client.get('/companies', { params });
-    return response.data;
+  findManyCompanies(params?: QueryParams): Promise<ListResponse<Company>> {
+    return this.findMany(REST_OBJECTS.company, params);
   }
 
-  async findOneCompany(id: string, depth?: number): Promise<SingleResponse<Company>> {
-    const response = await this.client.get(`/companies/${id}`, { params: { depth } });
-    return response.data;
+  findOneCompany(id: string, depth?: number): Promise<Company | null> {
+    return this.findOne(REST_OBJECTS.company, id, depth);
   }
 
-  async createOneCompany(data: Company, depth?: number): Promise<SingleResponse<Company>> {
-    const response = await this.client.post('/companies', data, { params: { depth } });
-    return response.data;
+  createOneCompany(data: Partial<Company>, depth?: number): Promise<Company> {
+    return this.createOne(REST_OBJECTS.company, data, depth);
   }
 
-  async updateOneCompany(id: string, data: Partial<Company>, depth?: number): Promise<SingleResponse<Company>> {
-    const response = await this.client.patch(`/companies/${id}`, data, { params: { depth } });
-    return response.data;
+  updateOneCompany(id: string, data: Partial<Company>, depth?: number): Promise<Company | null> {
+    return this.updateOne(REST_OBJECTS.company, id, data, depth);
+  }
+
+  deleteOneCompany(id: string): Promise<DeletedRecord> {
+    return this.deleteOne(REST_OBJECTS.company, id);
+  }
+
+  createManyCompanies(data: Partial<Company>[], depth?: number): Promise<Company[]> {
+    return this.createMany(REST_OBJECTS.company, data, depth);
+  }
+
+  findCompanyDuplicates(query: DuplicatesQuery<Company>): Promise<DuplicatesResult<Company>[]> {
+    return this.findDuplicates(REST_OBJECTS.company, query);
+  }
+
+  // Opportunities endpoints
+  findManyOpportunities(params?: QueryParams): Promise<ListResponse<Opportunity>> {
+    return this.findMany(REST_OBJECTS.opportunity, params);
+  }
+
+  findOneOpportunity(id: string, depth?: number): Promise<Opportunity | null> {
+    return this.findOne(REST_OBJECTS.opportunity, id, depth);
+  }
+
+  createOneOpportunity(data: Partial<Opportunity>, depth?: number): Promise<Opportunity> {
+    return this.createOne(REST_OBJECTS.opportunity, data, depth);
   }
 
-  async deleteOneCompany(id: string): Promise<void> {
-    await this.client.delete(`/companies/${id}`);
+  updateOneOpportunity(id: string, data: Partial<Opportunity>, depth?: number): Promise<Opportunity | null> {
+    return this.updateOne(REST_OBJECTS.opportunity, id, data, depth);
+  }
+
+  deleteOneOpportunity(id: string): Promise<DeletedRecord> {
+    return this.deleteOne(REST_OBJECTS.opportunity, id);
+  }
+
+  createManyOpportunities(data: Partial<Opportunity>[], depth?: number): Promise<Opportunity[]> {
+    return this.createMany(REST_OBJECTS.opportunity, data, depth);
+  }
+
+  findOpportunityDuplicates(query: DuplicatesQuery<Opportunity>): Promise<DuplicatesResult<Opportunity>[]> {
+    return this.findDuplicates(REST_OBJECTS.opportunity, query);
   }
 
   // Tasks endpoints
-  async findManyTasks(params?: QueryParams): Promise<ListResponse<Task>> {
-    const response = await this.client.get('/tasks', { params });
-    return response.data;
+  findManyTasks(params?: QueryParams): Promise<ListResponse<Task>> {
+    return this.findMany(REST_OBJECTS.task, params);
   }
 
-  async findOneTask(id: string, depth?: number): Promise<SingleResponse<Task>> {
-    const response = await this.client.get(`/tasks/${id}`, { params: { depth } });
-    return response.data;
+  findOneTask(id: string, depth?: number): Promise<Task | null> {
+    return this.findOne(REST_OBJECTS.task, id, depth);
   }
 
-  async createOneTask(data: Task, depth?: number): Promise<SingleResponse<Task>> {
-    const response = await this.client.post('/tasks', data, { params: { depth } });
-    return response.data;
+  createOneTask(data: Partial<Task>, depth?: number): Promise<Task> {
+    return this.createOne(REST_OBJECTS.task, data, depth);
   }
 
-  async updateOneTask(id: string, data: Partial<Task>, depth?: number): Promise<SingleResponse<Task>> {
-    const response = await this.client.patch(`/tasks/${id}`, data, { params: { depth } });
-    return response.data;
+  updateOneTask(id: string, data: Partial<Task>, depth?: number): Promise<Task | null> {
+    return this.updateOne(REST_OBJECTS.task, id, data, depth);
   }
 
-  async deleteOneTask(id: string): Promise<void> {
-    await this.client.delete(`/tasks/${id}`);
+  deleteOneTask(id: string): Promise<DeletedRecord> {
+    return this.deleteOne(REST_OBJECTS.task, id);
+  }
+
+  createManyTasks(data: Partial<Task>[], depth?: number): Promise<Task[]> {
+    return this.createMany(REST_OBJECTS.task, data, depth);
+  }
+
+  findTaskDuplicates(query: DuplicatesQuery<Task>): Promise<DuplicatesResult<Task>[]> {
+    return this.findDuplicates(REST_OBJECTS.task, query);
   }
 
   // Notes endpoints
-  async findManyNotes(params?: QueryParams): Promise<ListResponse<Note>> {
-    const response = await this.client.get('/notes', { params });
+  findManyNotes(params?: QueryParams): Promise<ListResponse<Note>> {
+    return this.findMany(REST_OBJECTS.note, params);
+  }
+
+  findOneNote(id: string, depth?: number): Promise<Note | null> {
+    return this.findOne(REST_OBJECTS.note, id, depth);
+  }
+
+  createOneNote(data: Partial<Note>, depth?: number): Promise<Note> {
+    return this.createOne(REST_OBJECTS.note, data, depth);
+  }
+
+  updateOneNote(id: string, data: Partial<Note>, depth?: number): Promise<Note | null> {
+    return this.updateOne(REST_OBJECTS.note, id, data, depth);
+  }
+
+  deleteOneNote(id: string): Promise<DeletedRecord> {
+    return this.deleteOne(REST_OBJECTS.note, id);
+  }
+
+  createManyNotes(data: Partial<Note>[], depth?: number): Promise<Note[]> {
+    return this.createMany(REST_OBJECTS.note, data, depth);
+  }
+
+  findNoteDuplicates(query: DuplicatesQuery<Note>): Promise<DuplicatesResult<Note>[]> {
+    return this.findDuplicates(REST_OBJECTS.note, query);
+  }
+
+  // TaskTargets endpoints
+  findManyTaskTargets(params?: QueryParams): Promise<ListResponse<TaskTarget>> {
+    return this.findMany(REST_OBJECTS.taskTarget, params);
+  }
+
+  findOneTaskTarget(id: string, depth?: number): Promise<TaskTarget | null> {
+    return this.findOne(REST_OBJECTS.taskTarget, id, depth);
+  }
+
+  createOneTaskTarget(data: Partial<TaskTarget>, depth?: number): Promise<TaskTarget> {
+    return this.createOne(REST_OBJECTS.taskTarget, data, depth);
+  }
+
+  updateOneTaskTarget(id: string, data: Partial<TaskTarget>, depth?: number): Promise<TaskTarget | null> {
+    return this.updateOne(REST_OBJECTS.taskTarget, id, data, depth);
+  }
+
+  deleteOneTaskTarget(id: string): Promise<DeletedRecord> {
+    return this.deleteOne(REST_OBJECTS.taskTarget, id);
+  }
+
+  createManyTaskTargets(data: Partial<TaskTarget>[], depth?: number): Promise<TaskTarget[]> {
+    return this.createMany(REST_OBJECTS.taskTarget, data, depth);
+  }
+
+  findTaskTargetDuplicates(query: DuplicatesQuery<TaskTarget>): Promise<DuplicatesResult<TaskTarget>[]> {
+    return this.findDuplicates(REST_OBJECTS.taskTarget, query);
+  }
+
+  // NoteTargets endpoints
+  findManyNoteTargets(params?: QueryParams): Promise<ListResponse<NoteTarget>> {
+    return this.findMany(REST_OBJECTS.noteTarget, params);
+  }
+
+  findOneNoteTarget(id: string, depth?: number): Promise<NoteTarget | null> {
+    return this.findOne(REST_OBJECTS.noteTarget, id, depth);
+  }
+
+  createOneNoteTarget(data: Partial<NoteTarget>, depth?: number): Promise<NoteTarget> {
+    return this.createOne(REST_OBJECTS.noteTarget, data, depth);
+  }
+
+  updateOneNoteTarget(id: string, data: Partial<NoteTarget>, depth?: number): Promise<NoteTarget | null> {
+    return this.updateOne(REST_OBJECTS.noteTarget, id, data, depth);
+  }
+
+  deleteOneNoteTarget(id: string): Promise<DeletedRecord> {
+    return this.deleteOne(REST_OBJECTS.noteTarget, id);
+  }
+
+  createManyNoteTargets(data: Partial<NoteTarget>[], depth?: number): Promise<NoteTarget[]> {
+    return this.createMany(REST_OBJECTS.noteTarget, data, depth);
+  }
+
+  findNoteTargetDuplicates(query: DuplicatesQuery<NoteTarget>): Promise<DuplicatesResult<NoteTarget>[]> {
+    return this.findDuplicates(REST_OBJECTS.noteTarget, query);
+  }
+
+  // Workspace members endpoints (read-only, API keys cannot manage members)
+  findManyWorkspaceMembers(params?: QueryParams): Promise<ListResponse<WorkspaceMember>> {
+    return this.findMany(REST_OBJECTS.workspaceMember, params);
+  }
+
+  findOneWorkspaceMember(id: string, depth?: number): Promise<WorkspaceMember | null> {
+    return this.findOne(REST_OBJECTS.workspaceMember, id, depth);
+  }
+
+  // Attachments endpoints
+  findManyAttachments(params?: QueryParams): Promise<ListResponse<Attachment>> {
+    return this.findMany(REST_OBJECTS.attachment, params);
+  }
+
+  findOneAttachment(id: string, depth?: number): Promise<Attachment | null> {
+    return this.findOne(REST_OBJECTS.attachment, id, depth);
+  }
+
+  createOneAttachment(data: Partial<Attachment>, depth?: number): Promise<Attachment> {
+    return this.createOne(REST_OBJECTS.attachment, data, depth);
+  }
+
+  updateOneAttachment(id: string, data: Partial<Attachment>, depth?: number): Promise<Attachment | null> {
+    return this.updateOne(REST_OBJECTS.attachment, id, data, depth);
+  }
+
+  deleteOneAttachment(id: string): Promise<DeletedRecord> {
+    return this.deleteOne(REST_OBJECTS.attachment, id);
+  }
+
+  createManyAttachments(data: Partial<Attachment>[], depth?: number): Promise<Attachment[]> {
+    return this.createMany(REST_OBJECTS.attachment, data, depth);
+  }
+
+  findAttachmentDuplicates(query: DuplicatesQuery<Attachment>): Promise<DuplicatesResult<Attachment>[]> {
+    return this.findDuplicates(REST_OBJECTS.attachment, query);
+  }
+
+  // Metadata endpoints
+  async findManyObjectMetadata(): Promise<ListResponse<any>> {
+    const response = await this.client.get('/metadata/objects');
     return response.data;
   }
 
-  async createOneNote(data: Note): Promise<void> {
-    await this.client.post('/notes', data);
+  async findOneObjectMetadata(id: string): Promise<SingleResponse<any>> {
+    const response = await this.client.get(`/metadata/objects/${id}`);
+    return response.data;
   }
 
-  // Opportunities endpoints
-  async findManyOpportunities(params?: QueryParams): Promise<ListResponse<Opportunity>> {
-    const response = await this.client.get('/opportunities', { params });
+  // GraphQL endpoint
+
+  /**
+   * Run a GraphQL query and return the raw response, so callers can use
+   * partial data next to errors
+   */
+  async graphqlRequest<T = any>(query: string, variables: Record<string, any> = {}): Promise<GraphQLResponse<T>> {
+    const response = await this.client.post(this.graphqlURL, { query, variables });
     return response.data;
   }
 
-  async createOneOpportunity(data: Opportunity): Promise<void> {
-    await this.client.post('/opportunities', data);
+  /**
+   * Run a GraphQL query; errors in the response throw a TwentyApiError
+   */
+  async graphql<T = any>(query: string, variables: Record<string, any> = {}): Promise<T> {
+    const response = await this.graphqlRequest<T>(query, variables);
+    if (response.errors?.length) {
+      throw TwentyApiError.fromGraphQLErrors(response.errors, { method: 'POST', path: '/graphql' });
+    }
+    return response.data as T;
+  }
+
+  /**
+   * Collect the records of a connection, following its endCursor with paged
+   * queries (the filter references the `$id` variable) until maxRecords
+   */
+  async collectConnection<T = any>(
+    connection: GraphQLConnection<T> | null | undefined,
+    page: { object: GraphQLObject; selection: string; filter?: string; id: string },
+    maxRecords: number
+  ): Promise<{ records: T[]; truncated: boolean }> {
+    const records = nodesOf(connection);
+    let pageInfo = connection?.pageInfo;
+    const query = buildPageQuery(page.object, page.selection, page.filter);
+
+    while (records.length < maxRecords && pageInfo?.hasNextPage && pageInfo.endCursor) {
+      const data = await this.graphql<Record<string, GraphQLConnection<T>>>(query, { id: page.id, after: pageInfo.endCursor });
+      const next = Object.values(data)[0];
+      records.push(...nodesOf(next));
+      pageInfo = next?.pageInfo;
+    }
+
+    const truncated = records.length > maxRecords || (records.length >= maxRecords && !!pageInfo?.hasNextPage);
+    return { records: records.slice(0, maxRecords), truncated };
+  }
+
+  // Search endpoint
+
+  /**
+   * Full-text search across objects using Twenty's search query.
+   * Throws if the endpoint is not available on this Twenty version.
+   */
+  async search(searchInput: string, options: SearchOptions = {}): Promise<SearchRecord[]> {
+    const query = `query Search($searchInput: String!, $limit: Int!, $includedObjectNameSingulars: [String!]) {
+      search(searchInput: $searchInput, limit: $limit, includedObjectNameSingulars: $includedObjectNameSingulars) {
+        edges { node { recordId objectNameSingular label imageUrl tsRankCD tsRank } }
+      }
+    }`;
+
+    const data = await this.graphql(query, {
+      searchInput,
+      limit: options.limit || 20,
+      includedObjectNameSingulars: options.objectNames
+    });
+
+    // Older Twenty versions return a plain list instead of a connection
+    const result = data?.search;
+    if (Array.isArray(result)) return result;
+    return (result?.edges || []).map((edge: any) => edge.node);
+  }
+
+  // Pagination helpers
+
+  /**
+   * Iterate over the pages of a list endpoint, following pageInfo.endCursor
+   * until hasNextPage is false or maxRecords records were fetched
+   */
+  async *paginate<T = any>(
+    endpoint: string,
+    objectKey: string,
+    params: PaginateParams = {},
+    options: PaginateOptions = {}
+  ): AsyncGenerator<ListPage<T>, void, undefined> {
+    const pageSize = Math.min(options.pageSize || MAX_PAGE_SIZE, MAX_PAGE_SIZE);
+    const maxRecords = Math.min(options.maxRecords || MAX_PAGINATED_RECORDS, MAX_PAGINATED_RECORDS);
+    let cursor = params.startingAfter;
+    let fetched = 0;
+
+    while (fetched < maxRecords) {
+      const page = await this.fetchPage<T>(endpoint, objectKey, params, Math.min(pageSize, maxRecords - fetched), cursor);
+      fetched += page.records.length;
+      yield page;
+      if (!page.pageInfo?.hasNextPage || !page.pageInfo?.endCursor) return;
+      cursor = page.pageInfo.endCursor;
+    }
+  }
+
+  /**
+   * Collect all records of a list endpoint into a single list response
+   */
+  async fetchAll<T = any>(
+    endpoint: string,
+    objectKey: string,
+    params: PaginateParams = {},
+    options: PaginateOptions = {}
+  ): Promise<FetchAllResponse<T>> {
+    const maxRecords = Math.min(options.maxRecords || MAX_PAGINATED_RECORDS, MAX_PAGINATED_RECORDS);
+    const records: T[] = [];
+    let pageInfo: PageInfo | undefined;
+    let totalCount: number | undefined;
+
+    for await (const page of this.paginate<T>(endpoint, objectKey, params, options)) {
+      records.push(...page.records);
+      pageInfo = page.pageInfo;
+      totalCount = page.totalCount ?? totalCount;
+    }
+
+    const truncated = records.length > maxRecords || (records.length >= maxRecords && !!pageInfo?.hasNextPage);
+    records.splice(maxRecords);
+
+    this.logger.debug(`Fetched ${records.length} records from ${endpoint}`, { truncated, totalCount });
+
+    return {
+      data: { [objectKey]: records },
+      pageInfo,
+      totalCount,
+      truncated
+    };
+  }
+
+  private async fetchPage<T>(
+    endpoint: string,
+    objectKey: string,
+    params: PaginateParams,
+    limit: number,
+    startingAfter?: string
+  ): Promise<ListPage<T>> {
+    const queryParams: Record<string, any> = { limit };
+    if (params.orderBy) queryParams.orderBy = params.orderBy;
+    if (params.filter) queryParams.filter = toFilterParam(params.filter);
+    if (params.depth !== undefined) queryParams.depth = params.depth;
+    if (startingAfter) queryParams.startingAfter = startingAfter;
+
+    const response = await this.client.get(endpoint, { params: queryParams });
+    return {
+      records: response.data?.data?.[objectKey] || [],
+      pageInfo: response.data?.pageInfo,
+      totalCount: response.data?.totalCount
+    };
   }
 
   // Generic HTTP request method
@@ -0,0 +1,212 @@
+import { AxiosError } from 'axios';
+
+export interface TwentyFieldError {
+  // Field the message refers to, when Twenty names one
+  field?: string;
+  message: string;
+}
+
+// Twenty sends the request id on responses; the first header present is used
+const REQUEST_ID_HEADERS = ['x-request-id', 'x-correlation-id', 'x-amzn-requestid'];
+
+const STATUS_CODES: Record<number, string> = {
+  400: 'BAD_REQUEST',
+  401: 'UNAUTHENTICATED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+  422: 'UNPROCESSABLE_ENTITY',
+  429: 'RATE_LIMITED'
+};
+
+// Field names in messages such as `Invalid value "FOO" for field "status"` or `column "name" ...`
+const FIELD_PATTERN = /\b(?:field|column|property|argument)\s+["'`]?([A-Za-z_][\w.]*)["'`]?/i;
+
+// Actionable hints for recurring validation messages, checked in order
+const MESSAGE_HINTS: { pattern: RegExp; hint: string }[] = [
+  {
+    pattern: /enum|not a valid (?:option|value|select)|invalid (?:option|select|value)/i,
+    hint: 'Invalid value: select fields only accept their options, twenty-crm-describe-object lists them'
+  },
+  {
+    pattern: /required|null value in column|(?:cannot|must not|should not) be (?:null|empty)|missing/i,
+    hint: 'Missing required field: provide it, twenty-crm-describe-object shows which fields are required'
+  },
+  {
+    pattern: /uuid/i,
+    hint: 'IDs must be UUIDs: look the record up with a list or search tool first'
+  },
+  {
+    pattern: /duplicate|unique|already exists/i,
+    hint: 'A record with this unique value already exists: find it with a search tool and update it instead'
+  },
+  {
+    pattern: /unknown (?:field|argument)|cannot query field|field .* (?:does not exist|not found)|is not defined/i,
+    hint: 'Unknown field name: check the real field names with twenty-crm-describe-object'
+  },
+  {
+    pattern: /filter|order ?by|operator/i,
+    hint: 'Invalid filter: check the filter syntax or use the structured "where" parameter'
+  }
+];
+
+const STATUS_HINTS: Record<number, string> = {
+  401: 'The Twenty API key is invalid or expired: authenticate again with a valid API key',
+  403: 'The Twenty API key lacks permission for this object or operation',
+  404: 'Record not found: check the ID, the record may have been deleted',
+  429: 'Twenty\'s rate limit was reached: wait a moment before retrying'
+};
+
+const toMessages = (value: unknown): string[] => {
+  if (typeof value === 'string') return value.trim() ? [value.trim()] : [];
+  if (Array.isArray(value)) return value.flatMap(toMessages);
+  return [];
+};
+
+const toFieldError = (message: string, field?: string): TwentyFieldError =>
+  ({ field: field ?? message.match(FIELD_PATTERN)?.[1], message });
+
+/**
+ * Error returned by the Twenty API, with the parts of the error body that
+ * help to fix the request: code, field-level messages, status and request id
+ */
+export class TwentyApiError extends Error {
+  // HTTP status; undefined for network errors and timeouts
+  status?: number;
+  code: string;
+  fieldErrors: TwentyFieldError[];
+  requestId?: string;
+  method?: string;
+  path?: string;
+
+  constructor(message: string, details: {
+    status?: number;
+    code: string;
+    fieldErrors?: TwentyFieldError[];
+    requestId?: string;
+    method?: string;
+    path?: string;
+  }) {
+    super(message);
+    this.name = 'TwentyApiError';
+    this.status = details.status;
+    this.code = details.code;
+    this.fieldErrors = details.fieldErrors ?? [];
+    this.requestId = details.requestId;
+    this.method = details.method;
+    this.path = details.path;
+  }
+
+  /**
+   * Parse a failed axios request. Handles Twenty's REST body
+   * ({ statusCode, error, messages }), NestJS' ({ message: string | string[] })
+   * and GraphQL's ({ errors: [{ message, extensions }] })
+   */
+  static fromAxiosError(error: AxiosError): TwentyApiError {
+    const status = error.response?.status;
+    const body: any = error.response?.data;
+    const headers: Record<string, any> = error.response?.headers ?? {};
+    const requestId = REQUEST_ID_HEADERS.map(header => headers[header]).find(value => typeof value === 'string');
+    const method = error.config?.method?.toUpperCase();
+    const path = error.config?.url?.split('?')[0];
+
+    if (Array.isArray(body?.errors)) {
+      return TwentyApiError.fromGraphQLErrors(body.errors, { status, requestId, method, path });
+    }
+
+    const messages = toMessages(body?.messages ?? body?.message);
+    if (typeof body === 'string' && body.trim() && !body.trim().startsWith('<')) {
+      messages.push(body.trim().substring(0, 500));
+    }
+
+    const code = typeof body?.error === 'string' && body.error ? body.error
+      : status === undefined ? (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT' ? 'TIMEOUT' : 'NETWORK_ERROR')
+      : STATUS_CODES[status] ?? (status >= 500 ? 'SERVER_ERROR' : `HTTP_${status}`);
+
+    const summary = messages.length > 0 ? messages.join('; ') : error.message;
+    return new TwentyApiError(
+      status === undefined ? `Twenty CRM unreachable: ${error.message}` : `Twenty API error ${status} (${code}): ${summary}`,
+      { status, code, fieldErrors: messages.map(message => toFieldError(message)), requestId, method, path }
+    );
+  }
+
+  /**
+   * Build an error from a GraphQL `errors` array (also sent with status 200)
+   */
+  static fromGraphQLErrors(
+    errors: any[],
+    context: { status?: number; requestId?: string; method?: string; path?: string } = {}
+  ): TwentyApiError {
+    const fieldErrors = errors.map(error => toFieldError(
+      String(error?.extensions?.userFriendlyMessage || error?.message || 'Unknown GraphQL error'),
+      Array.isArray(error?.path) ? error.path.join('.') : undefined
+    ));
+    const code = errors.map(error => error?.extensions?.code).find(value => typeof value === 'string') ?? 'GRAPHQL_ERROR';
+    return new TwentyApiError(
+      `Twenty API error${context.status ? ` ${context.status}` : ''} (${code}): ${fieldErrors.map(error => error.message).join('; ')}`,
+      { ...context, code, fieldErrors }
+    );
+  }
+
+  // Twenty did not answer at all (network error or timeout)
+  get unreachable(): boolean {
+    return this.code === 'TIMEOUT' || this.code === 'NETWORK_ERROR';
+  }
+
+  /**
+   * Hints on how to fix the request, from the messages and the status
+   */
+  get hints(): string[] {
+    const hints = new Set<string>();
+    for (const { message } of this.fieldErrors) {
+      const rule = MESSAGE_HINTS.find(({ pattern }) => pattern.test(message));
+      if (rule) hints.add(rule.hint);
+    }
+    if (this.status !== undefined && STATUS_HINTS[this.status]) {
+      hints.add(STATUS_HINTS[this.status]);
+    }
+    if (this.unreachable || (this.status !== undefined && this.status >= 500)) {
+      hints.add('Twenty CRM is unavailable or failed internally: retry later');
+    }
+    return [...hints];
+  }
+}
+
+/**
+ * MCP tool result for a failed tool call. Twenty API errors list their
+ * field-level messages, hints and request id so the caller can fix the input.
+ */
+export function toolErrorResult(action: string, error: unknown): { content: { type: 'text'; text: string }[]; isError: true } {
+  const lines: string[] = [];
+
+  if (error instanceof TwentyApiError) {
+    lines.push(error.unreachable
+      ? `${action}: ${error.message}`
+      : `${action}: Twenty rejected the request${error.status ? ` with status ${error.status}` : ''} (${error.code})`);
+    if (error.fieldErrors.length > 0) {
+      lines.push('', 'Details:');
+      for (const fieldError of error.fieldErrors) {
+        lines.push(`- ${fieldError.field ? `${fieldError.field}: ` : ''}${fieldError.message}`);
+      }
+    } else if (!error.unreachable) {
+      lines.push(error.message);
+    }
+    const hints = error.hints;
+    if (hints.length > 0) {
+      lines.push('', 'Hints:', ...hints.map(hint => `- ${hint}`));
+    }
+    if (error.requestId) {
+      lines.push('', `Request ID: ${error.requestId}`);
+    }
+  } else {
+    lines.push(`${action}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  return {
+    content: [{
+      type: 'text',
+      text: lines.join('\n')
+    }],
+    isError: true
+  };
+}
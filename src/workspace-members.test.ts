@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TokenClaims, TwentyCRMClient, WorkspaceMember } from './twenty-client.js';
+import { resolveCurrentWorkspaceMember } from './workspace-members.js';
+
+const members: WorkspaceMember[] = [
+  { id: '11111111-1111-4111-8111-111111111111', userId: 'user-ada', name: { firstName: 'Ada', lastName: 'Lovelace' }, userEmail: 'ada@example.com' },
+  { id: '22222222-2222-4222-8222-222222222222', userId: 'user-alan', name: { firstName: 'Alan', lastName: 'Turing' }, userEmail: 'alan@example.com' }
+];
+
+let workspaceCounter = 0;
+
+// Stand-in for the Twenty client; GraphQL answers per query name, everything else fails
+const createClient = (options: {
+  claims?: TokenClaims;
+  workspaceMemberId?: string;
+  graphql?: Record<string, unknown>;
+}) => ({
+  workspaceKey: `workspace-${workspaceCounter++}`,
+  tokenClaims: options.claims,
+  workspaceMemberId: options.workspaceMemberId,
+  graphqlRequest: vi.fn(async (query: string) => {
+    const name = /query (\w+)/.exec(query)?.[1] ?? '';
+    if (options.graphql && name in options.graphql) return { data: options.graphql[name] };
+    throw new Error('Forbidden');
+  })
+}) as unknown as TwentyCRMClient;
+
+const apiKeyClaims: TokenClaims = { sub: 'workspace-1', type: 'API_KEY', workspaceId: 'workspace-1' };
+
+describe('resolveCurrentWorkspaceMember', () => {
+  it('resolves user tokens by their member or user id', async () => {
+    expect((await resolveCurrentWorkspaceMember(createClient({ claims: { workspaceMemberId: members[1].id } }), members)).id).toBe(members[1].id);
+    expect((await resolveCurrentWorkspaceMember(createClient({ claims: { sub: 'user-ada' } }), members)).id).toBe(members[0].id);
+  });
+
+  it('resolves API keys to the configured member', async () => {
+    const client = createClient({ claims: apiKeyClaims, workspaceMemberId: members[1].id });
+    expect((await resolveCurrentWorkspaceMember(client, members)).id).toBe(members[1].id);
+  });
+
+  it('asks Twenty for the member of user tokens without member claims', async () => {
+    const client = createClient({ graphql: { CurrentWorkspaceMember: { currentUser: { workspaceMember: { id: members[0].id } } } } });
+    expect((await resolveCurrentWorkspaceMember(client, members)).id).toBe(members[0].id);
+  });
+
+  it('does not guess a member for API keys without a configured one', async () => {
+    const client = createClient({ claims: apiKeyClaims });
+    await expect(resolveCurrentWorkspaceMember(client, members)).rejects.toThrow(/use your name or email/i);
+    expect(client.graphqlRequest).not.toHaveBeenCalled();
+  });
+
+  it('reports a configured member that is not in the workspace', async () => {
+    const client = createClient({ claims: apiKeyClaims, workspaceMemberId: '33333333-3333-4333-8333-333333333333' });
+    await expect(resolveCurrentWorkspaceMember(client, members)).rejects.toThrow(/TWENTY_WORKSPACE_MEMBER_ID .* is not a member/);
+  });
+});
@@ -0,0 +1,118 @@
+import { TwentyCRMClient, WorkspaceMember } from './twenty-client.js';
+import { IdleEvictingMap } from './idle-evicting-map.js';
+
+// Upper bound of members loaded for lookups; workspaces have far fewer
+const MAX_WORKSPACE_MEMBERS = 1000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Member id of the token's owner per workspace key (TwentyCRMClient.workspaceKey)
+const currentMemberIds = new IdleEvictingMap<string>();
+
+export const memberName = (member: WorkspaceMember) =>
+  [member.name?.firstName, member.name?.lastName].filter(Boolean).join(' ');
+
+const describeMember = (member: WorkspaceMember) =>
+  `${memberName(member) || '(no name)'}${member.userEmail ? ` <${member.userEmail}>` : ''} (${member.id})`;
+
+const normalize = (value: string | undefined) => (value || '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * All workspace members, sorted by name
+ */
+export async function listWorkspaceMembers(client: TwentyCRMClient): Promise<WorkspaceMember[]> {
+  const response = await client.fetchAll<WorkspaceMember>('/workspaceMembers', 'workspaceMembers', { depth: 0 }, { maxRecords: MAX_WORKSPACE_MEMBERS });
+  return response.data.workspaceMembers.sort((a, b) => memberName(a).localeCompare(memberName(b)));
+}
+
+/**
+ * Members matching a name or email: exact email or full name matches win,
+ * otherwise every member whose name or email contains the query
+ */
+export function matchWorkspaceMembers(members: WorkspaceMember[], query: string): WorkspaceMember[] {
+  const needle = normalize(query);
+  if (!needle) return [];
+
+  const byEmail = members.filter(member => normalize(member.userEmail) === needle);
+  if (byEmail.length > 0) return byEmail;
+
+  const fullNames = (member: WorkspaceMember) => [
+    normalize(memberName(member)),
+    normalize([member.name?.lastName, member.name?.firstName].filter(Boolean).join(' ')),
+    normalize([member.name?.lastName, member.name?.firstName].filter(Boolean).join(', '))
+  ];
+  const byName = members.filter(member => fullNames(member).includes(needle));
+  if (byName.length > 0) return byName;
+
+  return members.filter(member =>
+    [memberName(member), member.userEmail].some(value => normalize(value).includes(needle)));
+}
+
+// Member of a user token on the server; fails for API keys
+const lookupCurrentUserMember = async (client: TwentyCRMClient): Promise<string | undefined> => {
+  const response = await client.graphqlRequest('query CurrentWorkspaceMember { currentUser { workspaceMember { id } } }');
+  return response.data?.currentUser?.workspaceMember?.id;
+};
+
+/**
+ * Workspace member the client's token belongs to. User access tokens name
+ * their member or user; API keys belong to the whole workspace, so they only
+ * resolve for the server's own key with TWENTY_WORKSPACE_MEMBER_ID. Throws
+ * instead of guessing a member, e.g. for API keys entered on the OAuth form.
+ */
+export async function resolveCurrentWorkspaceMember(
+  client: TwentyCRMClient,
+  members?: WorkspaceMember[]
+): Promise<WorkspaceMember> {
+  const all = members ?? await listWorkspaceMembers(client);
+  const cachedId = currentMemberIds.get(client.workspaceKey);
+  const cached = cachedId ? all.find(member => member.id === cachedId) : undefined;
+  if (cached) return cached;
+
+  const claims = client.tokenClaims;
+  const byId = (id: string | undefined) => id ? all.find(entry => entry.id === id) : undefined;
+  let member = byId(claims?.workspaceMemberId) ?? byId(client.workspaceMemberId);
+  const userId = claims?.userId ?? (claims?.type !== 'API_KEY' ? claims?.sub : undefined);
+  if (!member && userId) {
+    member = all.find(entry => entry.userId === userId);
+  }
+  if (!member && claims?.type !== 'API_KEY') {
+    member = byId(await lookupCurrentUserMember(client).catch(() => undefined));
+  }
+
+  if (!member?.id) {
+    throw new Error(client.workspaceMemberId
+      ? `"me" cannot be resolved: TWENTY_WORKSPACE_MEMBER_ID ${client.workspaceMemberId} is not a member of this workspace (see twenty-crm-list-workspace-members)`
+      : '"me" cannot be resolved: this API key belongs to the workspace, not to a member. Use your name or email instead (see twenty-crm-list-workspace-members); for the API key configured on the server (TWENTY_API_KEY), TWENTY_WORKSPACE_MEMBER_ID sets the member');
+  }
+  currentMemberIds.set(client.workspaceKey, member.id);
+  return member;
+}
+
+/**
+ * Resolver turning a workspace member reference (UUID, name, email or "me")
+ * into a member id; members are loaded once per resolver, so batch tools
+ * resolve many references with one request
+ */
+export function createWorkspaceMemberResolver(client: TwentyCRMClient): (reference: string) => Promise<string> {
+  let members: Promise<WorkspaceMember[]> | undefined;
+  const loadMembers = () => members ??= listWorkspaceMembers(client);
+
+  return async (reference: string) => {
+    const value = reference.trim();
+    if (UUID_PATTERN.test(value)) return value;
+
+    if (value.toLowerCase() === 'me') {
+      return (await resolveCurrentWorkspaceMember(client, await loadMembers())).id!;
+    }
+
+    const matches = matchWorkspaceMembers(await loadMembers(), value);
+    if (matches.length === 0) {
+      throw new Error(`No workspace member matches "${value}" (see twenty-crm-list-workspace-members)`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`"${value}" matches several workspace members, use the email or ID: ${matches.map(describeMember).join('; ')}`);
+    }
+    return matches[0].id!;
+  };
+}